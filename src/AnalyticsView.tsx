@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from "react";
+import type { Report } from "./core/types";
+import { downloadBlob } from "./download";
+import {
+  byCategory, byHazard, funnelCSV, hotspots, hotspotsCSV, lastDays, resolutionBy, resolutionCSV, statusFunnel, timeSeries, timeSeriesCSV,
+  type Bucket, type TimeSeries,
+} from "./core/analytics";
+import type { Translate } from "./core/i18n";
+import { useT } from "./i18n-context";
+
+// Authority analytics: trends, status funnel, resolution times and hotspots. Charts are plain SVG so they work offline.
+
+const COLORS = ["#059669", "#2563eb", "#d97706", "#dc2626", "#7c3aed", "#0891b2", "#65a30d", "#db2777"];
+const PERIODS = [30, 90, 365];
+const hrs = (t: Translate, h: number | null) =>
+  h === null ? "—" : h < 48 ? t("analytics.hours", { n: h.toFixed(1) }) : t("analytics.days", { n: (h / 24).toFixed(1) });
+
+function StackedBars({ ts }: { ts: TimeSeries }) {
+  const W = 640, H = 180, pad = 24;
+  const totals = ts.buckets.map((_, i) => ts.series.reduce((n, s) => n + s.counts[i], 0));
+  const max = Math.max(1, ...totals);
+  const bw = (W - pad) / Math.max(1, ts.buckets.length);
+  const labelEvery = Math.ceil(ts.buckets.length / 8);
+  return (
+    <svg viewBox={`0 0 ${W} ${H + 20}`} className="w-full h-auto">
+      <text x={0} y={10} fontSize={10} fill="#6b7280">{max}</text>
+      <line x1={pad} y1={H} x2={W} y2={H} stroke="#d1d5db" />
+      {ts.buckets.map((b, i) => {
+        let y = H;
+        return (
+          <g key={b}>
+            {ts.series.map((s, k) => {
+              const h = (s.counts[i] / max) * (H - 12);
+              y -= h;
+              return h > 0 ? <rect key={s.key} x={pad + i * bw + 1} y={y} width={Math.max(1, bw - 2)} height={h} fill={COLORS[k % COLORS.length]}><title>{`${b} • ${s.key}: ${s.counts[i]}`}</title></rect> : null;
+            })}
+            {i % labelEvery === 0 && <text x={pad + i * bw} y={H + 14} fontSize={9} fill="#6b7280">{b.slice(5)}</text>}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function HBars({ rows }: { rows: { label: string; value: number; note?: string }[] }) {
+  const max = Math.max(1, ...rows.map((r) => r.value));
+  return (
+    <div className="space-y-1">
+      {rows.map((r) => (
+        <div key={r.label} className="flex items-center gap-2 text-xs">
+          <div className="w-36 truncate" title={r.label}>{r.label}</div>
+          <div className="flex-1 bg-gray-100 rounded h-4">
+            <div className="bg-gray-800 h-4 rounded" style={{ width: `${(r.value / max) * 100}%` }} />
+          </div>
+          <div className="w-28 text-right text-gray-700">{r.value}{r.note ? ` • ${r.note}` : ""}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CsvButton({ name, csv }: { name: string; csv: () => string }) {
+  const t = useT();
+  return <button onClick={() => downloadBlob(new Blob([csv()], { type: "text/csv" }), name)} className="px-2 py-1 rounded-lg bg-gray-100 text-xs">{t("analytics.csv")}</button>;
+}
+
+export function AnalyticsView({ reports }: { reports: Report[] }) {
+  const t = useT();
+  const [days, setDays] = useState(90);
+  const [bucket, setBucket] = useState<Bucket>("week");
+  const [by, setBy] = useState<"category" | "hazard">("category");
+  const [level, setLevel] = useState<"district" | "region">("district");
+
+  const range = useMemo(() => lastDays(days, bucket), [days, bucket]);
+  const ts = useMemo(() => timeSeries(reports, range, by === "category" ? byCategory : byHazard), [reports, range, by]);
+  const funnel = useMemo(() => statusFunnel(reports), [reports]);
+  const resolution = useMemo(() => resolutionBy(reports, range), [reports, range]);
+  const spots = useMemo(() => hotspots(reports, range, level), [reports, range, level]);
+  const tag = `${range.from}_${range.to}`;
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select className="rounded-xl border px-2 py-1" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+          {PERIODS.map((d) => <option key={d} value={d}>{t("analytics.lastDays", { days: d })}</option>)}
+        </select>
+        <select className="rounded-xl border px-2 py-1" value={bucket} onChange={(e) => setBucket(e.target.value as Bucket)}>
+          <option value="day">{t("analytics.daily")}</option>
+          <option value="week">{t("analytics.weekly")}</option>
+          <option value="month">{t("analytics.monthly")}</option>
+        </select>
+        <span className="text-xs text-gray-500">{t("analytics.range", { from: range.from, to: range.to })}</span>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="font-medium">{t("analytics.resolution")}</div>
+          <CsvButton name={`galamsey_resolution_${tag}.csv`} csv={() => resolutionCSV(resolution, [t("analytics.category"), t("analytics.reports"), t("analytics.resolved"), t("analytics.open"), t("analytics.medianHours"), t("analytics.p90Hours")])} />
+        </div>
+        {resolution.length === 0 ? <div className="text-xs text-gray-500">{t("analytics.empty")}</div> : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th>{t("analytics.category")}</th><th>{t("analytics.reports")}</th><th>{t("analytics.resolved")}</th><th>{t("analytics.open")}</th>
+                <th>{t("analytics.median")}</th><th>{t("analytics.p90")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resolution.map((r) => (
+                <tr key={r.key} className="border-t"><td className="py-1">{r.key}</td><td>{r.reports}</td><td>{r.resolved}</td><td>{r.open}</td><td>{hrs(t, r.medianH)}</td><td>{hrs(t, r.p90H)}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{t("analytics.overTime")}</span>
+            <select className="rounded-xl border px-2 py-1 text-xs" value={by} onChange={(e) => setBy(e.target.value as any)}>
+              <option value="category">{t("analytics.byCategory")}</option>
+              <option value="hazard">{t("analytics.byHazard")}</option>
+            </select>
+          </div>
+          <CsvButton name={`galamsey_${by}_${bucket}_${tag}.csv`} csv={() => timeSeriesCSV(ts, t("analytics.period"))} />
+        </div>
+        <StackedBars ts={ts} />
+        <div className="mt-1 flex flex-wrap gap-3 text-xs">
+          {ts.series.map((s, k) => (
+            <span key={s.key} className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded" style={{ background: COLORS[k % COLORS.length] }} />{s.key} ({s.total})</span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="font-medium">{t("analytics.funnel")}</div>
+            <CsvButton name="galamsey_status_funnel.csv" csv={() => funnelCSV(funnel, [t("analytics.status"), t("analytics.reports")])} />
+          </div>
+          <HBars rows={funnel.map((f) => ({ label: f.state, value: f.reports }))} />
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t("analytics.hotspots")}</span>
+              <select className="rounded-xl border px-2 py-1 text-xs" value={level} onChange={(e) => setLevel(e.target.value as any)}>
+                <option value="district">{t("analytics.byDistrict")}</option>
+                <option value="region">{t("analytics.byRegion")}</option>
+              </select>
+            </div>
+            <CsvButton name={`galamsey_hotspots_${level}_${tag}.csv`} csv={() => hotspotsCSV(spots, [t("analytics.area"), t("analytics.region"), t("analytics.reports"), t("analytics.open"), t("analytics.resolved"), t("analytics.medianHours")])} />
+          </div>
+          {spots.length === 0 ? <div className="text-xs text-gray-500">{t("analytics.empty")}</div> : (
+            <HBars rows={spots.map((h) => ({ label: h.area, value: h.reports, note: t("analytics.openCount", { count: h.open }) }))} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
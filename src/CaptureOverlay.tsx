@@ -0,0 +1,52 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CAPTURE_LIMITS, mb, type Capture } from "./capture";
+import { useT } from "./i18n-context";
+
+const clock = (s: number) => `${Math.floor(s / 60)}:${String(Math.floor(s % 60)).padStart(2, "0")}`;
+
+// Recording UI, rendered by App outside the report form so the live preview survives form re-renders.
+// Stealth: a black screen with no preview; double-tap anywhere to stop.
+export function CaptureOverlay({ capture, stealth }: { capture: Capture; stealth: boolean }) {
+  const t = useT();
+  const [, tick] = useState(0);
+  const lastTap = useRef(0);
+  useEffect(() => {
+    const h = setInterval(() => tick((n) => n + 1), 500);
+    return () => clearInterval(h);
+  }, []);
+
+  const secs = capture.seconds();
+  const max = CAPTURE_LIMITS[capture.kind].maxSeconds;
+  const used = Math.min(1, Math.max(secs / max, capture.bytes() / capture.maxBytes));
+
+  if (stealth) {
+    const onTap = () => {
+      const now = Date.now();
+      if (now - lastTap.current < 400) capture.stop();
+      lastTap.current = now;
+    };
+    return (
+      <div className="fixed inset-0 z-50 bg-black flex items-end justify-center pb-6 select-none" onClick={onTap}>
+        <div className="text-[10px] text-gray-800">{t("capture.stealthStop", { time: clock(secs) })}</div>
+      </div>
+    );
+  }
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 p-3 flex justify-center">
+      <div className="w-full max-w-md rounded-2xl bg-gray-900 text-white p-3 shadow-xl">
+        {capture.kind === "video" && (
+          <video muted playsInline autoPlay className="w-full max-h-64 rounded-lg bg-black object-contain"
+            ref={(el) => { if (el && el.srcObject !== capture.stream) el.srcObject = capture.stream; }} />
+        )}
+        <div className="mt-2 flex items-center justify-between text-sm">
+          <span><span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-2 animate-pulse" />{t(capture.kind === "audio" ? "capture.recordingVoice" : "capture.recordingVideo", { time: clock(secs), max: clock(max) })}</span>
+          <span className="text-xs text-gray-300">{t("capture.size", { used: mb(capture.bytes()), max: mb(capture.maxBytes) })}</span>
+        </div>
+        <div className="mt-2 h-1.5 rounded bg-gray-700 overflow-hidden">
+          <div className="h-full bg-red-500" style={{ width: `${100 * used}%` }} />
+        </div>
+        <button onClick={() => capture.stop()} className="mt-3 w-full px-3 py-2 rounded-xl bg-red-600 text-sm">{t("capture.stop")}</button>
+      </div>
+    </div>
+  );
+}
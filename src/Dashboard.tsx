@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from "react";
+import { BRANCH_STATUSES, STATUSES, type Assignee, type Report } from "./core/types";
+import { addNote, assign, isOpen, needsReason, nextStates, transition } from "./core/status";
+import { PRIORITY_ORDER, zoneNames } from "./core/geofence";
+import { describePlace } from "./core/gazetteer";
+import { corroboration, findSites, mergeSite } from "./core/corroborate";
+import { useT } from "./i18n-context";
+
+export type Officer = { name: string; team: string };
+
+export const statusColor = (s: string) =>
+  s === "Resolved" ? "bg-emerald-100 text-emerald-700"
+  : s === "Rejected" || s === "Duplicate" ? "bg-red-100 text-red-700"
+  : s === "Needs more info" ? "bg-purple-100 text-purple-700"
+  : s === "In Progress" ? "bg-blue-100 text-blue-700"
+  : "bg-amber-100 text-amber-700";
+
+export const priorityColor = (p?: string) =>
+  p === "urgent" ? "bg-red-600 text-white" : p === "high" ? "bg-orange-100 text-orange-700" : "bg-gray-100 text-gray-600";
+const rank = (r: Report) => PRIORITY_ORDER.indexOf(r.priority || "normal");
+
+// Authority inbox: raw coordinates, assignment, internal notes and the enforced status workflow.
+export function Dashboard({ reports, officer, onChange }: {
+  reports: Report[];
+  officer: Officer;
+  onChange: (id: string, fn: (r: Report) => Report) => void;
+}) {
+  const t = useT();
+  const [filter, setFilter] = useState("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [reason, setReason] = useState("");
+  const [assignKind, setAssignKind] = useState<Assignee["kind"]>("team");
+  const [assignName, setAssignName] = useState("");
+
+  const sites = useMemo(() => findSites(reports.filter((r) => r.status !== "Queued")), [reports]);
+  const support = (r: Report) => corroboration(r, sites);
+  const inbox = useMemo(
+    () => reports
+      .filter((r) => r.status !== "Queued") // not sent yet
+      .filter((r) => filter === "all" || (filter === "open" ? isOpen(r) : r.status === filter))
+      // protected-area hits first, then sites with more independent reports, then newest
+      .sort((a, b) => rank(b) - rank(a) || support(b) - support(a) || (a.createdAt < b.createdAt ? 1 : -1)),
+    [reports, filter, sites]
+  );
+  const selected = reports.find((r) => r.id === selectedId) || null;
+  const site = selected ? sites.get(selected.id) : undefined;
+  const siteOthers = site ? reports.filter((r) => site.ids.includes(r.id) && r.id !== selected!.id) : [];
+  const knownAssignees = Array.from(new Set(reports.map((r) => r.assignee?.name).filter(Boolean))) as string[];
+  const by = officer.team ? `${officer.name} (${officer.team})` : officer.name;
+  // validate against the current record first so illegal moves surface here, not inside a state updater
+  const act = (fn: (r: Report) => Report) => {
+    if (!selected) return;
+    try { fn(selected); onChange(selected.id, fn); } catch (e: any) { alert(e?.message || t("dashboard.notAllowed")); }
+  };
+  const merge = () => {
+    if (!selected || !site) return;
+    try {
+      mergeSite(reports, selected.id, site.ids, { by }).forEach((r) => onChange(r.id, () => r));
+    } catch (e: any) { alert(e?.message || t("dashboard.mergeFailed")); }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-4">
+      <div>
+        <div className="flex items-center justify-between mb-2 text-sm">
+          <select className="rounded-xl border px-2 py-1" value={filter} onChange={(e) => setFilter(e.target.value)}>
+            <option value="open">{t("dashboard.needsAction")}</option>
+            <option value="all">{t("dashboard.all")}</option>
+            {[...STATUSES.slice(1), ...BRANCH_STATUSES].map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <span className="text-gray-600">{t("dashboard.count", { count: inbox.length })}</span>
+        </div>
+        {inbox.length === 0 ? (
+          <div className="text-sm text-gray-600">{t("dashboard.empty")}</div>
+        ) : (
+          <div className="space-y-2">
+            {inbox.map((r) => (
+              <button key={r.id} onClick={() => setSelectedId(r.id)}
+                className={`w-full text-left border rounded-xl p-3 text-sm ${r.id === selectedId ? "border-gray-900" : ""}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{r.category}</span>
+                  <span className="flex gap-1">
+                    {support(r) > 1 && <span className="px-2 py-0.5 rounded text-xs bg-sky-100 text-sky-700" title={t("dashboard.sameSiteTitle")}>×{support(r)}</span>}
+                    {r.priority && r.priority !== "normal" && <span className={`px-2 py-0.5 rounded text-xs ${priorityColor(r.priority)}`}>{r.priority}</span>}
+                    <span className={`px-2 py-0.5 rounded text-xs ${statusColor(r.status)}`}>{r.status}</span>
+                  </span>
+                </div>
+                <div className="text-xs text-gray-600 mt-1">
+                  {new Date(r.createdAt).toLocaleString()} • {r.gps.lat.toFixed(5)}, {r.gps.lon.toFixed(5)} (±{Math.round(r.gps.accuracy || 0)} m)
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {r.place ? `${r.place.district || r.place.region} • ` : ""}{r.assignee ? t("dashboard.assigned", { name: r.assignee.name }) : t("dashboard.unassigned")}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="border rounded-2xl p-4 text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <div className="font-semibold">{selected.category}</div>
+            <span className={`px-2 py-0.5 rounded text-xs ${statusColor(selected.status)}`}>{selected.status}</span>
+          </div>
+          <div className="whitespace-pre-line text-gray-700 mb-2">{selected.description}</div>
+          <div className="text-xs text-gray-600 mb-3">
+            {selected.place && <div className="mb-1">📍 {describePlace(selected.place)}</div>}
+            {t("dashboard.rawGps")} <b>{selected.gps.lat.toFixed(6)}, {selected.gps.lon.toFixed(6)}</b> ±{Math.round(selected.gps.accuracy || 0)} m
+            {selected.contact && <> • {t("dashboard.contact", { contact: [selected.contact.phone, selected.contact.email].filter(Boolean).join(", ") || "—" })}</>}
+            {selected.zones?.length > 0 && <div className="mt-1 text-red-700">{t("dashboard.inside", { names: zoneNames(selected.zones).join(", ") })}</div>}
+          </div>
+          {selected.media.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {selected.media.map((m) => (
+                <div key={m.id} className="h-20 overflow-hidden rounded-lg border">
+                  {m.type === "image" && <img src={m.url} className="w-full h-full object-cover" />}
+                  {m.type === "video" && <video src={m.url} className="w-full h-full object-cover" controls />}
+                  {m.type === "audio" && <audio src={m.url} className="w-full" controls />}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!officer.name && <div className="mb-3 text-amber-700 text-xs">{t("dashboard.officerUnset")}</div>}
+
+          {selected.duplicateOf && (
+            <div className="mb-3 text-xs">{t("dashboard.mergedInto")} <button onClick={() => setSelectedId(selected.duplicateOf!)} className="underline">{selected.duplicateOf}</button></div>
+          )}
+          {siteOthers.length > 0 && (
+            <div className="mb-3">
+              <div className="font-medium mb-1">{t("dashboard.sameSite", { count: site!.count })}</div>
+              <ul className="text-xs text-gray-700 space-y-0.5 mb-2">
+                {siteOthers.map((r) => (
+                  <li key={r.id}>
+                    <button onClick={() => setSelectedId(r.id)} className="underline">{r.category}</button> • {new Date(r.createdAt).toLocaleString()} • <span className={`px-1 rounded ${statusColor(r.status)}`}>{r.status}</span>
+                  </li>
+                ))}
+              </ul>
+              <button disabled={!officer.name} onClick={merge} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">
+                {t("dashboard.merge", { count: siteOthers.length })}
+              </button>
+            </div>
+          )}
+          {selected.merged?.length > 0 && (
+            <div className="mb-3">
+              <div className="font-medium mb-1">{t("dashboard.merged", { count: selected.merged.length })}</div>
+              <ul className="text-xs text-gray-700 space-y-2">
+                {selected.merged.map((m) => (
+                  <li key={m.id} className="border rounded-lg p-2">
+                    <div><b>{m.category}</b> • {new Date(m.createdAt).toLocaleString()} • {t("dashboard.media", { count: m.media.length })}{m.contact ? ` • ${t("dashboard.contact", { contact: [m.contact.phone, m.contact.email].filter(Boolean).join(", ") || "—" })}` : ""}</div>
+                    <div className="whitespace-pre-line">{m.description}</div>
+                    <div className="text-gray-500">{m.history.map((h) => `${h.state} ${new Date(h.at).toLocaleDateString()}${h.note ? ` (${h.note})` : ""}`).join(" → ")}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mb-3">
+            <div className="font-medium mb-1">{t("dashboard.status")}</div>
+            {nextStates(selected.status, "authority").length === 0 ? (
+              <span className="text-xs text-gray-500">{selected.status === "Needs more info" ? t("dashboard.waiting") : t("dashboard.final")}</span>
+            ) : (
+              <>
+                <input className="w-full rounded-xl border px-2 py-1 mb-2" placeholder={t("dashboard.reasonHint")} value={reason} onChange={(e) => setReason(e.target.value)} />
+                <div className="flex flex-wrap gap-2">
+                  {nextStates(selected.status, "authority").map((s) => {
+                    const required = needsReason(selected.status, s, "authority");
+                    return (
+                      <button key={s} disabled={!officer.name || (required && !reason.trim())}
+                        onClick={() => { act((r) => transition(r, s, { actor: "authority", by, reason })); setReason(""); }}
+                        className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">→ {s}{required ? " *" : ""}</button>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="mb-3">
+            <div className="font-medium mb-1">{t("dashboard.assignment")} {selected.assignee && <span className="font-normal text-gray-600">— {t(`dashboard.${selected.assignee.kind}`)} {selected.assignee.name}</span>}</div>
+            <div className="flex gap-2">
+              <select className="rounded-xl border px-2 py-1" value={assignKind} onChange={(e) => setAssignKind(e.target.value as Assignee["kind"])}>
+                <option value="team">{t("dashboard.team")}</option>
+                <option value="officer">{t("dashboard.officer")}</option>
+              </select>
+              <input list="assignees" className="flex-1 rounded-xl border px-2 py-1" placeholder={t("dashboard.name")} value={assignName} onChange={(e) => setAssignName(e.target.value)} />
+              <datalist id="assignees">{knownAssignees.map((n) => <option key={n} value={n} />)}</datalist>
+              <button disabled={!officer.name || !assignName.trim()} onClick={() => { act((r) => assign(r, { kind: assignKind, name: assignName.trim() }, by)); setAssignName(""); }}
+                className="px-3 py-1 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">{t("dashboard.assign")}</button>
+              {selected.assignee && <button disabled={!officer.name} onClick={() => act((r) => assign(r, null, by))} className="px-3 py-1 rounded-xl bg-gray-100 text-xs">{t("dashboard.unassign")}</button>}
+            </div>
+          </div>
+
+          <div className="mb-3">
+            <div className="font-medium mb-1">{t("dashboard.history")}</div>
+            <ul className="text-xs text-gray-700 space-y-0.5">
+              {selected.history.map((h, i) => (
+                <li key={i}>{new Date(h.at).toLocaleString()} — <b>{h.state}</b>{h.by ? ` ${t("dashboard.by", { name: h.by })}` : ""}{h.note ? `: ${h.note}` : ""}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">{t("dashboard.notes")}</div>
+            <ul className="text-xs text-gray-700 space-y-1 mb-2">
+              {(selected.notes || []).map((n, i) => <li key={i}><span className="text-gray-500">{new Date(n.at).toLocaleString()} • {n.by}:</span> {n.text}</li>)}
+            </ul>
+            <div className="flex gap-2">
+              <input className="flex-1 rounded-xl border px-2 py-1" placeholder={t("dashboard.noteHint")} value={note} onChange={(e) => setNote(e.target.value)} />
+              <button disabled={!officer.name || !note.trim()} onClick={() => { act((r) => addNote(r, note.trim(), by)); setNote(""); }}
+                className="px-3 py-1 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">{t("dashboard.addNote")}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import {
+  deviceKeyId, exportSignerKey, importSignerKey, listPinnedSigners, trustSigner, untrustSigner, verifyEvidencePackage,
+  type TrustedSigner, type VerifyResult,
+} from "./evidence";
+import { downloadBlob } from "./download";
+import { useT } from "./i18n-context";
+
+// Checks an evidence zip entirely on this device; nothing is uploaded.
+// A package only verifies when its signer is trusted: this device's key, or a key imported or pinned below.
+export function EvidenceVerifier() {
+  const t = useT();
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [pinned, setPinned] = useState<TrustedSigner[]>([]);
+  const [msg, setMsg] = useState("");
+  const refreshPinned = () => listPinnedSigners().then(setPinned).catch(() => {});
+  useEffect(() => { refreshPinned(); }, []);
+
+  const verify = async (f: File) => {
+    setBusy(true); setFile(f); setResult(null);
+    try { setResult(await verifyEvidencePackage(f)); } finally { setBusy(false); }
+  };
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (f) await verify(f);
+  };
+  const pinSigner = async () => {
+    const m = result?.manifest;
+    if (!m || !result.keyId) return;
+    const label = prompt(t("verify.trustPrompt", { id: result.keyId }));
+    if (label === null) return;
+    await trustSigner(m.signer.publicKey, label).catch((e) => alert(e?.message || t("verify.trustFailed")));
+    await refreshPinned();
+    if (file) await verify(file);
+  };
+  const onKeyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    const label = prompt(t("verify.labelPrompt"));
+    if (label === null) return;
+    try {
+      setMsg(t("verify.imported", { id: await importSignerKey(f, label) }));
+      await refreshPinned();
+      if (file) await verify(file);
+    } catch (err: any) {
+      setMsg(err?.message || t("verify.importFailed"));
+    }
+  };
+  const remove = async (k: TrustedSigner) => {
+    if (!confirm(t("verify.removeConfirm", { name: k.label, id: k.keyId }))) return;
+    await untrustSigner(k.keyId);
+    await refreshPinned();
+    if (file) await verify(file);
+  };
+
+  const m = result?.manifest;
+  // signature fine and files intact, only the signer is unknown
+  const untrusted = !!result && result.signature && !result.signer;
+  return (
+    <div className="text-sm">
+      <input type="file" accept=".zip,application/zip" onChange={onFile} />
+      {busy && <div className="mt-2 text-gray-600">{t("verify.checking", { name: file?.name || "" })}</div>}
+      {result && (
+        <div className="mt-3">
+          <div className={`p-3 rounded-xl ${result.ok ? "bg-emerald-50 text-emerald-800" : untrusted ? "bg-amber-50 text-amber-900" : "bg-red-50 text-red-800"}`}>
+            <b>{result.ok ? t("verify.ok") : untrusted ? t("verify.untrusted") : t("verify.failed")}</b> — {file?.name}
+            <div className="text-xs mt-1">
+              {t("verify.signature")} {result.signature ? t("verify.valid") : t("verify.invalid")}
+              {result.keyId ? ` • ${t("verify.key", { id: result.keyId })}` : ""}
+              {result.signer ? ` • ${t("verify.signedBy", { name: result.signer.label })}` : result.keyId ? ` • ${t("verify.unknownSigner")}` : ""}
+            </div>
+            {untrusted && (
+              <div className="mt-2 text-xs">
+                {t("verify.untrustedNote")}{" "}
+                <button onClick={pinSigner} className="underline">{t("verify.trust")}</button>
+              </div>
+            )}
+          </div>
+          {m && (
+            <div className="mt-2 text-xs text-gray-700">
+              {t("verify.report")} <b>{m.report?.id}</b> • {t("verify.created", { at: new Date(m.report?.createdAt).toLocaleString() })} • GPS ±{Math.round(m.report?.gps?.accuracy || 0)} m
+              <br />{t("verify.packaged", { at: new Date(m.packagedAt).toLocaleString(), version: m.appVersion })}
+            </div>
+          )}
+          {result.errors.length > 0 && <ul className="mt-2 list-disc pl-5 text-xs text-red-700">{result.errors.map((e, i) => <li key={i}>{e}</li>)}</ul>}
+          {result.checks.length > 0 && (
+            <ul className="mt-2 text-xs space-y-0.5">
+              {result.checks.map((c) => {
+                const info = m?.media?.find((x) => x.file === c.file);
+                return (
+                  <li key={c.file} className={c.ok ? "text-gray-700" : "text-red-700"}>
+                    {c.ok ? "✓" : "✗"} {c.file} <span className="font-mono">{c.expected?.slice(0, 16)}…</span>
+                    {!c.ok && ` ${c.actual ? t("verify.hashDiffers") : t("verify.missing")}`}
+                    {info && !info.hashedAtCapture && ` • ${t("verify.hashedLate")}`}
+                    {info?.capturedAt && ` • ${t("verify.captured", { at: new Date(info.capturedAt).toLocaleString() })}`}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 pt-3 border-t">
+        <div className="flex items-center justify-between gap-2">
+          <b>{t("verify.trusted")}</b>
+          <label className="px-3 py-1.5 rounded-xl bg-gray-100 text-xs cursor-pointer">
+            {t("verify.importKey")} <input type="file" accept=".json,application/json" className="hidden" onChange={onKeyFile} />
+          </label>
+        </div>
+        <div className="text-xs text-gray-500 mt-1">{t("verify.ownKey")}</div>
+        {pinned.length > 0 && (
+          <ul className="mt-2 divide-y text-xs">
+            {pinned.map((k) => (
+              <li key={k.keyId} className="py-1.5 flex items-center justify-between gap-2">
+                <span>{k.label} <span className="font-mono text-gray-500">{k.keyId}</span></span>
+                <button onClick={() => remove(k)} className="text-red-700">{t("verify.remove")}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {msg && <div className="mt-1 text-xs text-gray-700">{msg}</div>}
+      </div>
+    </div>
+  );
+}
+
+// This device's signing key: the id to read out to whoever verifies its packages, and a file they can import.
+export function SigningKeyPanel() {
+  const t = useT();
+  const [id, setId] = useState("");
+  useEffect(() => { deviceKeyId().then(setId).catch(() => setId("")); }, []);
+  const download = () =>
+    exportSignerKey()
+      .then(({ blob, filename }) => downloadBlob(blob, filename))
+      .catch(() => alert(t("verify.keyFailed")));
+  return (
+    <div className="text-sm">
+      <div>{t("verify.keyId")} <span className="font-mono">{id || "…"}</span></div>
+      <div className="text-xs text-gray-500 mt-1">{t("verify.keyNote")}</div>
+      <button onClick={download} className="mt-2 px-3 py-1.5 rounded-xl bg-gray-100">{t("verify.downloadKey")}</button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from "react";
+import { useT } from "./i18n-context";
+
+export type Tab = "report" | "my" | "map" | "dashboard" | "analytics" | "help" | "settings";
+
+function Badge({ online }: { online: boolean }) {
+  const t = useT();
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className={`inline-block w-2.5 h-2.5 rounded-full ${online ? "bg-green-500" : "bg-gray-400"}`} />
+      <span className="text-gray-700">{online ? t("status.online") : t("status.offline")}</span>
+    </div>
+  );
+}
+
+// Title (five quick taps are the panic gesture), connection badge, sync button and tabs; authority tabs only for that role.
+export function Header({ tab, onTab, authority, online, syncBusy, onSync, onTitleTap }: {
+  tab: Tab;
+  onTab: (tab: Tab) => void;
+  authority: boolean;
+  online: boolean;
+  syncBusy: boolean;
+  onSync: () => void;
+  onTitleTap: () => void;
+}) {
+  const t = useT();
+  const tabs: { k: Tab; label: string }[] = [
+    { k: "report", label: t("tab.report") },
+    { k: "my", label: t("tab.my") },
+    { k: "map", label: t("tab.map") },
+    ...(authority ? [{ k: "dashboard" as const, label: t("tab.dashboard") }, { k: "analytics" as const, label: t("tab.analytics") }] : []),
+    { k: "help", label: t("tab.help") },
+    { k: "settings", label: t("tab.settings") },
+  ];
+  return (
+    <header className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b">
+      <div className="max-w-7xl mx-auto px-3 py-2 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <span onClick={onTitleTap} className="font-semibold text-base sm:text-lg select-none">{t("app.title")}</span>
+          <span className="hidden sm:inline text-xs text-gray-500">{t("app.tagline")}</span>
+        </div>
+        <div className="flex items-center gap-4">
+          <Badge online={online} />
+          <button onClick={onSync} disabled={syncBusy} className="text-sm px-3 py-1.5 rounded-xl bg-black text-white hover:opacity-90 disabled:opacity-60">{syncBusy ? t("sync.busy") : t("sync.run")}</button>
+        </div>
+      </div>
+      <nav className="max-w-7xl mx-auto px-3 flex gap-1 pb-2 flex-wrap">
+        {tabs.map((x) => (
+          <button key={x.k} onClick={() => onTab(x.k)} className={`px-3 py-1.5 rounded-xl text-sm ${tab === x.k ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-700"}`}>{x.label}</button>
+        ))}
+      </nav>
+    </header>
+  );
+}
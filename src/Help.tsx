@@ -0,0 +1,20 @@
+import React from "react";
+import { useT } from "./i18n-context";
+import { Section, SafetyNotes, rich } from "./Layout";
+
+export function Help() {
+  const t = useT();
+  return (
+    <div className="max-w-7xl mx-auto px-3 py-4">
+      <Section title={t("help.title")}>
+        <SafetyNotes />
+        <div className="mt-4 text-sm text-gray-700">
+          <p className="mb-2">{rich(t("help.geo"))}</p>
+          <p className="mb-2">{rich(t("help.escrow"))}</p>
+          <p className="mb-2">{rich(t("help.offline"))}</p>
+          <p className="mb-2">{rich(t("help.stealth"))}</p>
+        </div>
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+import { useT } from "./i18n-context";
+
+// Shared building blocks for the screens. Module-level so stateful children (e.g. the dashboard) survive App re-renders.
+export const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-white rounded-2xl shadow p-4 sm:p-6 mb-5">
+    <h2 className="text-lg sm:text-xl font-semibold mb-3">{title}</h2>
+    {children}
+  </section>
+);
+
+// `*text*` in a catalog message is shown in bold
+export const rich = (text: string) => text.split("*").map((part, i) => (i % 2 ? <b key={i}>{part}</b> : part));
+
+export function SafetyNotes() {
+  const t = useT();
+  return (
+    <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+      <li>{rich(t("safety.distance"))}</li>
+      <li>{rich(t("safety.landmarks"))}</li>
+      <li>{rich(t("safety.blur"))}</li>
+      <li>{rich(t("safety.anonymous"))}</li>
+    </ul>
+  );
+}
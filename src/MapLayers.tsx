@@ -0,0 +1,174 @@
+import { useEffect, useMemo } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import { clusterPoints } from "./core/cluster";
+import { ZONES, ZONE_KINDS, type Zone } from "./core/geofence";
+
+// Imperative Leaflet layers wrapped as react-leaflet children; they redraw on map events instead of per React render.
+
+export type MapPoint = { id: string; lat: number; lon: number };
+
+const CLUSTER_CELL_PX = 60;
+// Past this zoom pins are far enough apart (or on the same spot), so clustering only hides them.
+const CLUSTER_MAX_ZOOM = 16;
+
+const clusterIcon = (n: number) => {
+  const size = n < 10 ? 30 : n < 100 ? 38 : 46;
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full bg-emerald-600/80 text-white text-xs font-semibold text-center border-2 border-white shadow">${n}</div>`,
+    className: "",
+    iconSize: [size, size],
+  });
+};
+
+export function ClusterLayer({ points, onSelect }: { points: MapPoint[]; onSelect: (id: string) => void }) {
+  const map = useMap();
+  const group = useMemo(() => L.layerGroup(), []);
+  useEffect(() => {
+    group.addTo(map);
+    return () => { group.remove(); };
+  }, [map, group]);
+
+  useEffect(() => {
+    const draw = () => {
+      group.clearLayers();
+      const zoom = map.getZoom();
+      const clusters = zoom > CLUSTER_MAX_ZOOM ? points.map((p) => ({ lat: p.lat, lon: p.lon, items: [p], bounds: null })) : clusterPoints(points, zoom, CLUSTER_CELL_PX);
+      for (const c of clusters) {
+        if (c.items.length === 1) {
+          L.marker([c.lat, c.lon]).on("click", () => onSelect(c.items[0].id)).addTo(group);
+        } else {
+          L.marker([c.lat, c.lon], { icon: clusterIcon(c.items.length) })
+            .on("click", () => {
+              const b = L.latLngBounds(c.bounds!);
+              // identical points can't be split by zooming; step in instead
+              if (b.getNorthEast().equals(b.getSouthWest())) map.setView(b.getCenter(), Math.min(zoom + 2, map.getMaxZoom()));
+              else map.fitBounds(b, { padding: [40, 40] });
+            })
+            .addTo(group);
+        }
+      }
+    };
+    draw();
+    map.on("zoomend", draw);
+    return () => { map.off("zoomend", draw); };
+  }, [map, group, points, onSelect]);
+  return null;
+}
+
+// ---- Heatmap ----
+// Additive alpha stamps per point, then colourised through a gradient palette (the usual canvas heatmap technique).
+const HEAT_RADIUS_PX = 25;
+const HEAT_BLUR_PX = 15;
+
+const palette = (() => {
+  const c = document.createElement("canvas");
+  c.width = 1; c.height = 256;
+  const ctx = c.getContext("2d")!;
+  const g = ctx.createLinearGradient(0, 0, 0, 256);
+  g.addColorStop(0.4, "blue");
+  g.addColorStop(0.6, "cyan");
+  g.addColorStop(0.7, "lime");
+  g.addColorStop(0.8, "yellow");
+  g.addColorStop(1, "red");
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, 1, 256);
+  return ctx.getImageData(0, 0, 1, 256).data;
+})();
+
+const stamp = (() => {
+  const r = HEAT_RADIUS_PX + HEAT_BLUR_PX;
+  const c = document.createElement("canvas");
+  c.width = c.height = r * 2;
+  const ctx = c.getContext("2d")!;
+  // draw the shape off-canvas and keep only its blurred shadow
+  ctx.shadowOffsetX = ctx.shadowOffsetY = r * 2;
+  ctx.shadowBlur = HEAT_BLUR_PX;
+  ctx.shadowColor = "black";
+  ctx.beginPath();
+  ctx.arc(-r, -r, HEAT_RADIUS_PX, 0, Math.PI * 2);
+  ctx.fill();
+  return c;
+})();
+
+class HeatCanvas extends L.Layer {
+  private canvas = L.DomUtil.create("canvas", "leaflet-zoom-hide") as HTMLCanvasElement;
+  constructor(private points: { lat: number; lon: number }[]) {
+    super();
+  }
+  setPoints(points: { lat: number; lon: number }[]) {
+    this.points = points;
+    if (this._map) this.redraw();
+  }
+  onAdd(map: L.Map) {
+    map.getPane("overlayPane")!.appendChild(this.canvas);
+    map.on("moveend zoomend resize", this.redraw, this);
+    this.redraw();
+    return this;
+  }
+  onRemove(map: L.Map) {
+    this.canvas.remove();
+    map.off("moveend zoomend resize", this.redraw, this);
+    return this;
+  }
+  private redraw() {
+    const map = this._map;
+    const size = map.getSize();
+    const c = this.canvas;
+    c.width = size.x; c.height = size.y;
+    L.DomUtil.setPosition(c, map.containerPointToLayerPoint([0, 0]));
+    const ctx = c.getContext("2d")!;
+    ctx.clearRect(0, 0, size.x, size.y);
+    if (this.points.length === 0) return;
+
+    const r = HEAT_RADIUS_PX + HEAT_BLUR_PX;
+    // a handful of overlapping reports should already read as "hot"
+    ctx.globalAlpha = Math.min(1, Math.max(0.05, 3 / Math.sqrt(this.points.length)));
+    for (const p of this.points) {
+      const pt = map.latLngToContainerPoint([p.lat, p.lon]);
+      if (pt.x < -r || pt.y < -r || pt.x > size.x + r || pt.y > size.y + r) continue;
+      ctx.drawImage(stamp, pt.x - r, pt.y - r);
+    }
+    const img = ctx.getImageData(0, 0, size.x, size.y);
+    const d = img.data;
+    for (let i = 3; i < d.length; i += 4) {
+      const a = d[i];
+      if (!a) continue;
+      d[i - 3] = palette[a * 4];
+      d[i - 2] = palette[a * 4 + 1];
+      d[i - 1] = palette[a * 4 + 2];
+    }
+    ctx.putImageData(img, 0, 0);
+  }
+}
+
+/** Density layer; callers must pass public positions only (see `publicLocations`). */
+export function HeatLayer({ points }: { points: { lat: number; lon: number }[] }) {
+  const map = useMap();
+  const layer = useMemo(() => new HeatCanvas(points), []);
+  useEffect(() => {
+    layer.addTo(map);
+    return () => { layer.remove(); };
+  }, [map, layer]);
+  useEffect(() => layer.setPoints(points), [layer, points]);
+  return null;
+}
+
+// ---- Protected areas ----
+const zoneLayer = (z: Zone): L.Layer => {
+  const color = ZONE_KINDS[z.kind].color;
+  const swap = ([lon, lat]: [number, number]) => [lat, lon] as [number, number];
+  if (z.shape === "area") return L.polygon(z.polygons.map((poly) => poly.map((ring) => ring.map(swap))), { color, weight: 1, fillOpacity: 0.15 });
+  // a line's weight is in pixels, so the buffer is only indicative; the check itself uses metres
+  if (z.shape === "line") return L.polyline(z.line.map(swap), { color, weight: 6, opacity: 0.4 });
+  return L.circle(swap(z.point), { radius: z.radiusM, color, weight: 1, fillOpacity: 0.2 });
+};
+
+export function ZonesLayer({ zones = ZONES }: { zones?: Zone[] }) {
+  const map = useMap();
+  useEffect(() => {
+    const group = L.layerGroup(zones.map((z) => zoneLayer(z).bindTooltip(`${z.name} (${ZONE_KINDS[z.kind].label})`))).addTo(map);
+    return () => { group.remove(); };
+  }, [map, zones]);
+  return null;
+}
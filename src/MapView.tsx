@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { MapContainer, Marker, Circle, useMap } from "react-leaflet";
+import L from "leaflet";
+import type { Report } from "./core/types";
+import { haversine, km } from "./core/geo";
+import { NO_FILTER, matchesFilter, type ReportFilter } from "./core/filters";
+import { K_ANON, publicLocations } from "./core/obfuscate";
+import { OfflineTileLayer } from "./OfflineMaps";
+import { ClusterLayer, HeatLayer, ZonesLayer } from "./MapLayers";
+import { Section } from "./Layout";
+import { FilterSelects } from "./ReportFilters";
+import { useT } from "./i18n-context";
+
+// ---- Map helpers ----
+function pointsKey(points: number[][]) {
+  return points
+    .filter((p) => Array.isArray(p) && isFinite(p[0]) && isFinite(p[1]))
+    .map((p) => `${p[0].toFixed(6)},${p[1].toFixed(6)}`)
+    .join("|");
+}
+function FitToBounds({ points }: { points: number[][] }) {
+  const map = useMap();
+  const sig = useMemo(() => pointsKey(points), [points]);
+  useEffect(() => {
+    if (!map || points.length === 0) return;
+    const latlngs = points.map((p) => L.latLng(p[0], p[1]));
+    if (latlngs.length === 1) map.setView(latlngs[0], 15, { animate: true });
+    else map.fitBounds(L.latLngBounds(latlngs), { padding: [40, 40] });
+  }, [map, sig]);
+  return null;
+}
+
+// Reports on the map: private (raw) or public (k-anonymous grid) positions, filters, layers and distance to the selected one.
+// `onSelect` must be stable (a state setter): the cluster layer rebuilds its markers when it changes.
+export function MapView({ reports, userLoc, privateView, selectedId, onSelect, onLocate }: {
+  reports: Report[];
+  userLoc: null | { lat: number; lon: number; accuracy?: number };
+  privateView: boolean;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onLocate: () => void;
+}) {
+  const t = useT();
+  const [view, setView] = useState(privateView);
+  useEffect(() => setView(privateView), [privateView]);
+  const [mapFilter, setMapFilter] = useState<ReportFilter>(NO_FILTER);
+  const [mapLayers, setMapLayers] = useState({ pins: true, heat: false, zones: true });
+  const selected = reports.find((r) => r.id === selectedId) || null;
+  const shown = useMemo(() => reports.filter((r) => matchesFilter(r, mapFilter)), [reports, mapFilter]);
+  // k-anonymous over every report, so narrowing the filters can't sharpen a point
+  const pub = useMemo(() => publicLocations(reports), [reports]);
+  const hidden = useMemo(() => shown.filter((r) => !pub.get(r.id)).length, [shown, pub]);
+  const pins = useMemo(
+    () => shown.flatMap((r) => (view ? [{ id: r.id, lat: r.gps.lat, lon: r.gps.lon }] : pub.get(r.id) ? [{ ...pub.get(r.id)!, id: r.id }] : [])),
+    [shown, view, pub]
+  );
+  // always public positions, whichever view is active
+  const heat = useMemo(() => shown.flatMap((r) => pub.get(r.id) || []), [shown, pub]);
+  const selectedPub = selected ? pub.get(selected.id) : null;
+  const selectedPos = selected && (view ? selected.gps : selectedPub);
+
+  const fitPts = useMemo(() => {
+    const pts: number[][] = [];
+    if (userLoc?.lat && userLoc?.lon) pts.push([userLoc.lat, userLoc.lon]);
+    if (selectedPos) pts.push([selectedPos.lat, selectedPos.lon]);
+    return pts;
+  }, [userLoc?.lat, userLoc?.lon, selected?.id, view, selectedPos?.lat, selectedPos?.lon]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-3 py-4">
+      <Section title={t("map.title")}>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm text-gray-700">{t("view.current")} <b>{view ? t("view.private") : t("view.public")}</b></div>
+          <div className="flex gap-2">
+            <button onClick={() => setView((v) => !v)} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white">{t("view.toggle")}</button>
+            <button onClick={onLocate} className="px-3 py-1.5 rounded-xl bg-gray-100">{t("map.locateMe")}</button>
+          </div>
+        </div>
+        <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+          <FilterSelects reports={reports} filter={mapFilter} onChange={setMapFilter} />
+          <label className="text-xs text-gray-600">{t("filter.from")} <input type="date" className="rounded-xl border px-2 py-1 text-sm" value={mapFilter.from} onChange={(e) => setMapFilter((f) => ({ ...f, from: e.target.value }))} /></label>
+          <label className="text-xs text-gray-600">{t("filter.to")} <input type="date" className="rounded-xl border px-2 py-1 text-sm" value={mapFilter.to} onChange={(e) => setMapFilter((f) => ({ ...f, to: e.target.value }))} /></label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={mapLayers.pins} onChange={(e) => setMapLayers((l) => ({ ...l, pins: e.target.checked }))} /> {t("map.pins")}</label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={mapLayers.heat} onChange={(e) => setMapLayers((l) => ({ ...l, heat: e.target.checked }))} /> {t("map.heat")}</label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={mapLayers.zones} onChange={(e) => setMapLayers((l) => ({ ...l, zones: e.target.checked }))} /> {t("map.zones")}</label>
+          <span className="text-xs text-gray-600">{t("map.count", { shown: shown.length, total: reports.length })}</span>
+          {!view && hidden > 0 && <span className="text-xs text-amber-700">{t("map.hidden", { count: hidden, k: K_ANON })}</span>}
+        </div>
+        <div className="h-[420px] rounded-xl overflow-hidden border relative">
+          <MapContainer center={userLoc ? [userLoc.lat, userLoc.lon] as any : [5.556, -0.1969] as any} zoom={12} style={{ height: "100%", width: "100%" }}>
+            <OfflineTileLayer />
+            {userLoc && (<><Marker position={[userLoc.lat, userLoc.lon] as any} /><Circle center={[userLoc.lat, userLoc.lon] as any} radius={userLoc.accuracy || 20} /></>)}
+            {mapLayers.zones && <ZonesLayer />}
+            {mapLayers.heat && <HeatLayer points={heat} />}
+            {mapLayers.pins && <ClusterLayer points={pins} onSelect={onSelect} />}
+            {/* blur circle around the public point: it contains the true location without revealing it */}
+            {!view && selectedPub && <Circle center={[selectedPub.lat, selectedPub.lon] as any} radius={selectedPub.radiusM} />}
+            {selected && fitPts.length > 0 && <FitToBounds points={fitPts} />}
+          </MapContainer>
+        </div>
+        {selected && (
+          <div className="mt-3 text-sm text-gray-700">
+            {t("map.selected")} <b>{selected.category}</b> • {new Date(selected.createdAt).toLocaleString()}<br />
+            {userLoc && selectedPos && <>{t("map.distance")} <b>{km(haversine(userLoc.lat, userLoc.lon, selectedPos.lat, selectedPos.lon))} km</b></>}
+          </div>
+        )}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from "react";
+import { STATUSES, type Report } from "./core/types";
+import { isTerminal, transition } from "./core/status";
+import type { SafeCheck } from "./core/safe-upload";
+import { exportReports, type ExportOptions } from "./core/export";
+import { NO_FILTER, matchesFilter, type ReportFilter } from "./core/filters";
+import { zoneNames } from "./core/geofence";
+import { describePlace } from "./core/gazetteer";
+import { K_ANON } from "./core/obfuscate";
+import { findSites } from "./core/corroborate";
+import { encodeSMS } from "./core/sms";
+import { priorityColor } from "./Dashboard";
+import { downloadBlob } from "./download";
+import { buildEvidencePackage } from "./evidence";
+import type { ImportSummary } from "./import";
+import { useT } from "./i18n-context";
+import { Section } from "./Layout";
+import { FilterSelects } from "./ReportFilters";
+import { holdReasonText } from "./SafeUploadSettings";
+
+// real history first (including branch states), then the main-path steps still ahead
+function Timeline({ report }: { report: Report }) {
+  const reached = Math.max(...report.history.map((h) => (STATUSES as readonly string[]).indexOf(h.state)));
+  const ahead = isTerminal(report.status) ? [] : STATUSES.slice(reached + 1);
+  const steps = [
+    ...report.history.map((h) => ({ state: h.state, done: true, title: [new Date(h.at).toLocaleString(), h.by, h.note].filter(Boolean).join(" • ") })),
+    ...ahead.map((s) => ({ state: s, done: false, title: "" })),
+  ];
+  const color = (s: string) =>
+    s === "Rejected" || s === "Duplicate" ? "bg-red-100 text-red-700" : s === "Needs more info" ? "bg-purple-100 text-purple-700" : "bg-emerald-100 text-emerald-700";
+  const last = report.history[report.history.length - 1];
+  return (
+    <div>
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        {steps.map((st, idx) => (
+          <div key={idx} className="flex items-center gap-2">
+            <div title={st.title} className={`px-2 py-1 rounded ${st.done ? color(st.state) : "bg-gray-100 text-gray-500"}`}>{st.state}</div>
+            {idx < steps.length - 1 && <div className="h-px w-6 bg-gray-300" />}
+          </div>
+        ))}
+      </div>
+      {last?.note && <div className="mt-1 text-xs text-gray-600">{last.state}: {last.note}</div>}
+    </div>
+  );
+}
+
+// same-site links on a report card; targets are other cards in the list
+function SiteLinks({ report, reports, sites }: { report: Report; reports: Report[]; sites: ReturnType<typeof findSites> }) {
+  const t = useT();
+  const site = sites.get(report.id);
+  const leadId = report.duplicateOf || (site && site.leadId !== report.id ? site.leadId : null);
+  const lead = leadId ? reports.find((x) => x.id === leadId) : null;
+  if (!site && !lead) return null;
+  return (
+    <div className="mb-2 text-xs text-sky-800">
+      {site && <span className="mr-2">{t("my.corroborated", { n: site.count - 1 })}</span>}
+      {lead && (
+        <span>
+          {report.duplicateOf ? t("my.mergedInto") : t("my.possibleDuplicate")}{" "}
+          <a href={`#report-${lead.id}`} className="underline">{lead.category} • {new Date(lead.createdAt).toLocaleDateString()}</a>
+        </span>
+      )}
+    </div>
+  );
+}
+
+const exportJSON = (r: Report) => {
+  const media = r.media.map(({ url, blob, ...m }) => m);
+  downloadBlob(new Blob([JSON.stringify({ ...r, media }, null, 2)], { type: "application/json" }), `report_${r.id}.json`);
+};
+
+// The reporter's own reports: import, filters, bulk export, and a card per report with its status, held-upload reasons and actions.
+export function MyReports({ reports, smsNumber, safeCheck, onImport, onRelease, onChange, onDelete, onLocate }: {
+  reports: Report[];
+  smsNumber: string;
+  safeCheck: (r: Report) => SafeCheck;
+  onImport: (files: File[]) => Promise<ImportSummary>;
+  onRelease: (r: Report) => void;
+  onChange: (id: string, fn: (r: Report) => Report) => void;
+  onDelete: (id: string) => void;
+  onLocate: (id: string) => void;
+}) {
+  const t = useT();
+  const sites = useMemo(() => findSites(reports), [reports]);
+  const exportEvidence = (r: Report) =>
+    buildEvidencePackage(r)
+      .then(({ blob, filename }) => downloadBlob(blob, filename))
+      .catch(() => alert(t("my.evidenceFailed")));
+
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const importFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length) setImportSummary(await onImport(files));
+  };
+
+  // bulk export: the checked reports, or everything the list filter shows
+  const [listFilter, setListFilter] = useState<ReportFilter>(NO_FILTER);
+  const [exportSel, setExportSel] = useState<string[]>([]);
+  const [exportOpts, setExportOpts] = useState<ExportOptions>({ format: "geojson", profile: "public", bundleMedia: false });
+  const visibleReports = reports.filter((r) => matchesFilter(r, listFilter));
+  const runBulkExport = async () => {
+    const chosen = exportSel.length ? reports.filter((r) => exportSel.includes(r.id)) : visibleReports;
+    if (chosen.length === 0) { alert(t("export.none")); return; }
+    try {
+      const { blob, filename, suppressed } = await exportReports(chosen, exportOpts);
+      if (suppressed === chosen.length) {
+        alert(t("export.allSuppressed", { k: K_ANON }));
+        return;
+      }
+      downloadBlob(blob, filename);
+      if (suppressed) alert(t("export.someSuppressed", { count: suppressed }));
+    } catch {
+      alert(t("export.failed"));
+    }
+  };
+
+  // multi-part drafts stay open on the report card until every part has been sent
+  const [smsDraft, setSmsDraft] = useState<{ id: string; parts: string[]; sent: number[] } | null>(null);
+  const sendSMSPart = (body: string) => {
+    window.location.href = `sms:${smsNumber}?&body=${encodeURIComponent(body)}`;
+  };
+  const openSMS = (r: Report) => {
+    if (!smsNumber) { alert(t("my.smsUnset")); return; }
+    const parts = encodeSMS(r);
+    if (parts.length === 1) sendSMSPart(parts[0]);
+    else setSmsDraft({ id: r.id, parts, sent: [] });
+  };
+
+  // reporter answers a "Needs more info" request; clearing syncedAt re-sends the report
+  const replyWithInfo = (r: Report) => {
+    const info = prompt(t("my.moreInfoPrompt"));
+    if (!info?.trim()) return;
+    onChange(r.id, (x) => ({ ...transition(x, "Received", { actor: "reporter", reason: info }), syncedAt: undefined }));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-3 py-4">
+      <Section title={t("my.title")}>
+        <div className="mb-3 flex items-center justify-between gap-2 text-sm">
+          <span className="text-gray-600">{t("import.hint")}</span>
+          <label className="px-3 py-1.5 rounded-xl bg-gray-100 text-gray-800 text-xs cursor-pointer whitespace-nowrap">
+            {t("import.button")} <input type="file" multiple accept=".json,.geojson,.zip,application/json,application/geo+json,application/zip" className="hidden" onChange={importFiles} />
+          </label>
+        </div>
+        {importSummary && (
+          <div className="mb-4 p-3 rounded-xl bg-blue-50 text-blue-900 text-sm">
+            <div className="flex items-center justify-between">
+              <b>{t("import.summary", { added: importSummary.added.length, merged: importSummary.merged.length, unchanged: importSummary.unchanged.length, rejected: importSummary.rejected.length })}</b>
+              <button onClick={() => setImportSummary(null)} className="text-xs underline">{t("import.dismiss")}</button>
+            </div>
+            {importSummary.merged.length > 0 && (
+              <ul className="mt-2 text-xs list-disc pl-5">{importSummary.merged.map((m, i) => <li key={i}>{m.ref}: {m.detail}</li>)}</ul>
+            )}
+            {importSummary.rejected.length > 0 && (
+              <ul className="mt-2 text-xs list-disc pl-5 text-red-700">{importSummary.rejected.map((m, i) => <li key={i}>{m.ref}: {m.detail}</li>)}</ul>
+            )}
+          </div>
+        )}
+        {reports.length === 0 ? (
+          <div className="text-sm text-gray-600">{t("my.empty")}</div>
+        ) : (
+          <>
+          <div className="mb-4 p-3 rounded-xl bg-gray-50 border flex flex-wrap items-center gap-2 text-sm">
+            <FilterSelects reports={reports} filter={listFilter} onChange={setListFilter} />
+            <span className="mx-2 h-5 w-px bg-gray-300" />
+            <select className="rounded-xl border px-2 py-1" value={exportOpts.format} onChange={(e) => setExportOpts((o) => ({ ...o, format: e.target.value as ExportOptions["format"] }))}>
+              <option value="geojson">GeoJSON</option>
+              <option value="kml">{t("export.kml")}</option>
+              <option value="csv">CSV</option>
+            </select>
+            <select className="rounded-xl border px-2 py-1" value={exportOpts.profile} onChange={(e) => setExportOpts((o) => ({ ...o, profile: e.target.value as ExportOptions["profile"] }))}>
+              <option value="public">{t("export.public")}</option>
+              <option value="private">{t("export.private")}</option>
+            </select>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" disabled={exportOpts.profile !== "private"} checked={exportOpts.bundleMedia && exportOpts.profile === "private"}
+                onChange={(e) => setExportOpts((o) => ({ ...o, bundleMedia: e.target.checked }))} /> {t("export.bundleMedia")}
+            </label>
+            <button onClick={runBulkExport} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs">
+              {exportSel.length ? t("export.selected", { count: exportSel.length }) : t("export.shown", { count: visibleReports.length })}
+            </button>
+            {exportSel.length > 0 && <button onClick={() => setExportSel([])} className="text-xs text-gray-600 underline">{t("export.clearSelection")}</button>}
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            {visibleReports.map((r) => {
+              const held = safeCheck(r);
+              return (
+                <div key={r.id} id={`report-${r.id}`} className="border rounded-2xl p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="flex items-center gap-2 font-semibold text-sm">
+                      <input type="checkbox" checked={exportSel.includes(r.id)}
+                        onChange={(e) => setExportSel((sel) => (e.target.checked ? [...sel, r.id] : sel.filter((x) => x !== r.id)))} />
+                      {r.category}
+                      {r.priority && r.priority !== "normal" && <span className={`px-2 py-0.5 rounded text-xs font-normal ${priorityColor(r.priority)}`}>{r.priority}</span>}
+                    </label>
+                    <div className="text-xs text-gray-500">{new Date(r.createdAt).toLocaleString()}</div>
+                  </div>
+                  <div className="text-sm text-gray-700 mb-2 whitespace-pre-line">{r.description}</div>
+                  <div className="text-xs text-gray-600 mb-2">{r.gps.lat.toFixed(5)}, {r.gps.lon.toFixed(5)} • ±{Math.round(r.gps.accuracy || 0)} m • {t("my.blurRadius", { meters: r.blurRadius })}</div>
+                  {r.place && <div className="text-xs text-gray-700 mb-2">📍 {describePlace(r.place)}</div>}
+                  {r.zones?.length > 0 && <div className="text-xs text-red-700 mb-2">{t("my.protectedArea", { names: zoneNames(r.zones).join(", ") })}</div>}
+                  <SiteLinks report={r} reports={reports} sites={sites} />
+                  <Timeline report={r} />
+                  {r.media?.length > 0 && (
+                    <div className="mt-2 grid grid-cols-3 gap-2">
+                      {r.media.slice(0,3).map((m, i) => (
+                        <div key={i} className="h-20 overflow-hidden rounded-lg border">
+                          {m.type === "image" && <img src={m.url} className="w-full h-full object-cover" />}
+                          {m.type === "video" && <video src={m.url} className="w-full h-full object-cover" />}
+                          {m.type === "audio" && <div className="p-1 text-[10px]">{t("my.audio", { name: m.name })}</div>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="mt-2 text-xs">
+                    {r.safeUpload?.required && (
+                      <div className={held.safe ? "text-emerald-700" : "text-amber-700"}>
+                        {t("safe.status")} <b>{held.safe ? t("safe.ready") : t("safe.locked")}</b>
+                        {!held.safe && (
+                          <>
+                            <ul className="list-disc ml-4 mt-1">{held.reasons.map((why) => <li key={why.code}>{holdReasonText(t, why)}</li>)}</ul>
+                            <button onClick={() => onRelease(r)} className="mt-1 px-2 py-1 rounded-lg bg-amber-100 text-amber-900">{t("safe.release")}</button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button onClick={() => exportJSON(r)} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs">{t("my.exportJson")}</button>
+                    {r.media.length > 0 && <button onClick={() => exportEvidence(r)} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs">{t("my.evidence")}</button>}
+                    <button onClick={() => onLocate(r.id)} className="px-3 py-1.5 rounded-xl bg-gray-100 text-gray-800 text-xs">{t("my.locate")}</button>
+                    {smsNumber && <button onClick={() => openSMS(r)} className="px-3 py-1.5 rounded-xl bg-gray-100 text-gray-800 text-xs">{t("my.smsDraft")}</button>}
+                    {r.status === "Needs more info" && <button onClick={() => replyWithInfo(r)} className="px-3 py-1.5 rounded-xl bg-purple-600 text-white text-xs">{t("my.moreInfo")}</button>}
+                    <button onClick={() => onDelete(r.id)} className="px-3 py-1.5 rounded-xl bg-red-600 text-white text-xs">{t("my.delete")}</button>
+                  </div>
+                  {smsDraft?.id === r.id && (
+                    <div className="mt-2 p-2 rounded-xl bg-gray-50 text-xs">
+                      <div className="mb-1 text-gray-700">{t("sms.parts", { count: smsDraft.parts.length })}</div>
+                      <div className="flex flex-wrap gap-2">
+                        {smsDraft.parts.map((p, i) => (
+                          <button key={i} onClick={() => { sendSMSPart(p); setSmsDraft((d) => d && { ...d, sent: [...d.sent, i] }); }}
+                            className={`px-2 py-1 rounded-lg ${smsDraft.sent.includes(i) ? "bg-emerald-100 text-emerald-800" : "bg-gray-900 text-white"}`}>
+                            {t("sms.part", { n: i + 1, count: smsDraft.parts.length })}{smsDraft.sent.includes(i) ? " ✓" : ""}
+                          </button>
+                        ))}
+                        <button onClick={() => setSmsDraft(null)} className="px-2 py-1 text-gray-600 underline">{t("sms.close")}</button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          </>
+        )}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import React from "react";
+import { MapContainer, Marker, Circle } from "react-leaflet";
+import type { Media } from "./core/types";
+import { clamp } from "./core/geo";
+import { obfuscate } from "./core/obfuscate";
+import { MAX_BLUR_M, type ReportDraft } from "./core/report";
+import { ACTIVITY_TYPES, CATEGORIES, CHECKLIST_ICONS, HAZARDS, RISK_LEVELS, TIMES_OF_DAY, hazardKey, riskKey, timeKey, typeKey } from "./core/checklist";
+import type { MessageKey } from "./core/i18n";
+import { REPORT_MEDIA_BUDGET, canCapture, mb, mediaBytes, type CaptureKind } from "./capture";
+import { OfflineTileLayer } from "./OfflineMaps";
+import { playPrompt } from "./prompts";
+import { useI18n } from "./i18n-context";
+import { Section, SafetyNotes } from "./Layout";
+
+// Checklist option for low-literacy use: a big icon, the label, and a button that reads the label aloud.
+const ChecklistOption: React.FC<{ icon: string; label: string; checked: boolean; onToggle: () => void; onListen: () => void }> = ({ icon, label, checked, onToggle, onListen }) => (
+  <div className={`flex items-center gap-2 mb-1 rounded-xl border px-2 py-1 ${checked ? "bg-emerald-50 border-emerald-400" : "bg-white"}`}>
+    <label className="flex flex-1 items-center gap-2 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={onToggle} />
+      <span className="text-2xl" aria-hidden>{icon}</span>
+      <span>{label}</span>
+    </label>
+    <button type="button" onClick={onListen} className="px-2 py-1 rounded-lg bg-gray-100" aria-label={`${label} 🔊`}>🔊</button>
+  </div>
+);
+
+function LeafletPreview({ gps, blurRadius, privateView }: { gps: ReportDraft["gps"]; blurRadius: number; privateView: boolean }) {
+  const center = gps ? [gps.lat, gps.lon] : [5.556, -0.1969]; // Accra fallback
+  // same grid cell the report will be published in, so re-renders don't reveal anything new
+  const pub = gps ? obfuscate(gps.lat, gps.lon, clamp(Number(blurRadius || 0), 0, MAX_BLUR_M)) : null;
+
+  return (
+    <MapContainer center={center as any} zoom={15} style={{ height: "100%", width: "100%" }}>
+      <OfflineTileLayer />
+      {gps && privateView && (<><Marker position={[gps.lat, gps.lon] as any} /><Circle center={[gps.lat, gps.lon] as any} radius={gps.accuracy || 15} /></>)}
+      {gps && !privateView && pub && (<><Marker position={[pub.lat, pub.lon] as any} /><Circle center={[pub.lat, pub.lon] as any} radius={pub.radiusM} /></>)}
+    </MapContainer>
+  );
+}
+
+// The report form. The draft and the media handlers live in App, which also owns recording and the redaction editor.
+export function NewReport({ form, setForm, safe, smsNumber, recording, privateView, onTogglePrivate, onLocate, onFile, onRecord, onRedact, onRemoveMedia, onSubmit }: {
+  form: ReportDraft;
+  setForm: React.Dispatch<React.SetStateAction<ReportDraft>>;
+  safe: { minMeters: number; maxWaitMins: number };
+  smsNumber: string;
+  recording: boolean;
+  privateView: boolean;
+  onTogglePrivate: () => void;
+  onLocate: () => void;
+  onFile: (e: React.ChangeEvent<HTMLInputElement>, type: Media["type"]) => void;
+  onRecord: (kind: CaptureKind) => void;
+  onRedact: (m: Media) => void;
+  onRemoveMedia: (index: number) => void;
+  onSubmit: () => void;
+}) {
+  const { lang, t } = useI18n();
+  const listen = (key: MessageKey) => playPrompt(lang, key).then((how) => { if (!how) alert(t(key)); });
+  return (
+    <div className="max-w-7xl mx-auto px-3 py-4">
+      <Section title={t("form.title")}>
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium">{t("form.category")}</label>
+            <select className="mt-1 w-full rounded-xl border px-3 py-2" value={form.category} onChange={(e) => setForm((f) => ({ ...f, category: e.target.value }))}>
+              <option value="">{t("form.select")}</option>
+              {CATEGORIES.map((c) => <option key={c.code}>{c.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t("form.gps")}</label>
+            <div className="mt-1 flex items-center gap-2">
+              <button onClick={onLocate} className="px-3 py-2 rounded-xl bg-gray-900 text-white">{t("form.useLocation")}</button>
+              {form.gps ? (
+                <span className="text-sm text-gray-700">{form.gps.lat.toFixed(5)}, {form.gps.lon.toFixed(5)} • ±{Math.round(form.gps.accuracy || 0)} m</span>
+              ) : (
+                <span className="text-sm text-gray-500">{t("form.noLocation")}</span>
+              )}
+            </div>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium">{t("form.description")}</label>
+            <textarea className="mt-1 w-full rounded-xl border px-3 py-2 min-h-[100px]" placeholder={t("form.descriptionHint")} value={form.description} onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))} />
+          </div>
+        </div>
+
+        {/* Checklist Mode */}
+        <div className="mt-4 p-3 rounded-xl bg-gray-50 border">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input type="checkbox" checked={form.checklistMode} onChange={(e) => setForm((f) => ({ ...f, checklistMode: e.target.checked }))} />
+            {t("form.checklistMode")}
+          </label>
+          {form.checklistMode && (
+            <div className="mt-3 grid sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="font-medium mb-1">{t("form.activityType")}</div>
+                {ACTIVITY_TYPES.map(([k]) => (
+                  <ChecklistOption key={k} icon={CHECKLIST_ICONS[k]} label={t(typeKey(k))} checked={!!form.checklist.types[k]} onListen={() => listen(typeKey(k))}
+                    onToggle={()=>setForm((f)=>({ ...f, checklist:{ ...f.checklist, types:{ ...f.checklist.types, [k]: !f.checklist.types[k] }}}))} />
+                ))}
+              </div>
+              <div>
+                <div className="font-medium mb-1">{t("form.hazardsSeen")}</div>
+                {HAZARDS.map(([k]) => (
+                  <ChecklistOption key={k} icon={CHECKLIST_ICONS[k]} label={t(hazardKey(k))} checked={!!form.checklist.hazards[k]} onListen={() => listen(hazardKey(k))}
+                    onToggle={()=>setForm((f)=>({ ...f, checklist:{ ...f.checklist, hazards:{ ...f.checklist.hazards, [k]: !f.checklist.hazards[k] }}}))} />
+                ))}
+              </div>
+              <div>
+                <div className="font-medium mb-1">{t("form.whenRisk")}</div>
+                {/* one choice each; ticking another replaces it, unticking clears it */}
+                {TIMES_OF_DAY.map((tm) => (
+                  <ChecklistOption key={tm} icon={CHECKLIST_ICONS[tm]} label={t(timeKey(tm))} checked={form.checklist.time === tm} onListen={() => listen(timeKey(tm))}
+                    onToggle={()=>setForm((f)=>({ ...f, checklist:{ ...f.checklist, time: f.checklist.time === tm ? "" : tm }}))} />
+                ))}
+                <div className="h-2" />
+                {RISK_LEVELS.map((l) => (
+                  <ChecklistOption key={l} icon={CHECKLIST_ICONS[l]} label={t(riskKey(l))} checked={form.checklist.risk === l} onListen={() => listen(riskKey(l))}
+                    onToggle={()=>setForm((f)=>({ ...f, checklist:{ ...f.checklist, risk: f.checklist.risk === l ? "" : l }}))} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Stealth & Safe Upload */}
+        <div className="mt-4 grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">{t("form.capturePrivacy")}</label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.stealth} onChange={(e)=>setForm((f)=>({ ...f, stealth: e.target.checked }))} /> {t("form.stealth")}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.uploadWhenSafe} onChange={(e)=>setForm((f)=>({ ...f, uploadWhenSafe: e.target.checked }))} /> {t("form.uploadWhenSafe", { meters: safe.minMeters, mins: safe.maxWaitMins })}
+            </label>
+            <div className="text-xs text-gray-500">{t("form.shutterNote")}</div>
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">{t("form.privacy")}</label>
+            <div className="flex items-center gap-3 text-sm">
+              <label className="flex items-center gap-2"><input type="radio" checked={form.anonymous} onChange={() => setForm((f) => ({ ...f, anonymous: true }))} /> {t("form.anonymous")}</label>
+              <label className="flex items-center gap-2"><input type="radio" checked={!form.anonymous} onChange={() => setForm((f) => ({ ...f, anonymous: false }))} /> {t("form.shareContact")}</label>
+            </div>
+            {!form.anonymous && (
+              <div className="grid sm:grid-cols-2 gap-2">
+                <input className="rounded-xl border px-3 py-2" placeholder={t("form.phone")} value={form.contact.phone} onChange={(e) => setForm((f) => ({ ...f, contact: { ...f.contact, phone: e.target.value } }))} />
+                <input className="rounded-xl border px-3 py-2" placeholder={t("form.email")} value={form.contact.email} onChange={(e) => setForm((f) => ({ ...f, contact: { ...f.contact, email: e.target.value } }))} />
+                <label className="flex items-center gap-2 text-sm sm:col-span-2"><input type="checkbox" checked={form.contact.wantsCallback} onChange={(e) => setForm((f) => ({ ...f, contact: { ...f.contact, wantsCallback: e.target.checked } }))} /> {t("form.callback")}</label>
+                <input className="rounded-xl border px-3 py-2 sm:col-span-2" placeholder={t("form.preferredTime")} value={form.contact.preferredTime} onChange={(e) => setForm((f) => ({ ...f, contact: { ...f.contact, preferredTime: e.target.value } }))} />
+                <label className="flex items-center gap-2 text-sm sm:col-span-2"><input type="checkbox" checked={form.rewardOptIn} onChange={(e) => setForm((f) => ({ ...f, rewardOptIn: e.target.checked }))} /> {t("form.reward")}</label>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Media */}
+        <div className="mt-4 grid sm:grid-cols-3 gap-3">
+          <div><label className="block text-sm font-medium">{t("form.addPhoto")}</label><input type="file" accept="image/*" capture="environment" onChange={(e) => onFile(e, "image")} /></div>
+          <div><label className="block text-sm font-medium">{t("form.addVideo")}</label><input type="file" accept="video/*" capture="environment" onChange={(e) => onFile(e, "video")} /></div>
+          <div><label className="block text-sm font-medium">{t("form.addVoice")}</label><input type="file" accept="audio/*" onChange={(e) => onFile(e, "audio")} /></div>
+        </div>
+        {canCapture() && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <button disabled={recording} onClick={() => onRecord("video")} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white disabled:opacity-50">{t("form.recordVideo")}</button>
+            <button disabled={recording} onClick={() => onRecord("audio")} className="px-3 py-1.5 rounded-xl bg-gray-100 disabled:opacity-50">{t("form.recordVoice")}</button>
+            <span className="text-xs text-gray-500">
+              {t("form.budget", { used: mb(mediaBytes(form.media)), total: mb(REPORT_MEDIA_BUDGET) })}{form.stealth ? t("form.stealthRecording") : ""}
+            </span>
+          </div>
+        )}
+        {form.media.length > 0 && !form.stealth && (
+          <div className="mt-3 grid sm:grid-cols-3 gap-3">
+            {form.media.map((m: Media, idx: number) => (
+              <div key={idx} className="border rounded-xl p-2">
+                <div className="text-xs text-gray-500 mb-1">{m.type} • {m.name} {m.locked ? `• ${t("form.locked")}` : ""}</div>
+                {m.type === "image" && <img src={m.url} alt="evidence" className="w-full h-36 object-cover rounded-lg" />}
+                {m.type === "video" && <video src={m.url} className="w-full rounded-lg" controls />}
+                {m.type === "audio" && <audio src={m.url} className="w-full" controls />}
+                <div className="mt-2 flex justify-end gap-3">
+                  {m.type === "image" && m.blob && <button onClick={() => onRedact(m)} className="text-xs text-gray-700">{t("form.redact")}</button>}
+                  <button onClick={() => onRemoveMedia(idx)} className="text-xs text-red-600">{t("form.remove")}</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {form.stealth && form.media.length > 0 && (
+          <div className="mt-2 text-xs text-gray-500">{t("form.stealthMedia")}</div>
+        )}
+
+        {/* Blur controls */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium">{t("form.blur")}</label>
+          <input type="range" min={0} max={2000} step={50} value={form.blurRadius} onChange={(e) => setForm((f) => ({ ...f, blurRadius: Number(e.target.value) }))} className="w-full" />
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <div className="flex gap-2">{[0, 100, 300, 500, 1000, 2000].map((m) => (<button key={m} onClick={() => setForm((f) => ({ ...f, blurRadius: m }))} className="px-2 py-1 rounded bg-gray-100">{m}m</button>))}</div>
+            <span>{t("form.blurSelected")} <b>{form.blurRadius} m</b></span>
+          </div>
+          {form.gps && <div className="mt-3 text-xs text-gray-600">{t("form.blurNote")}</div>}
+        </div>
+
+        <div className="mt-6 flex items-center justify-between">
+          <SafetyNotes />
+          <div className="flex gap-2">
+            <button onClick={onSubmit} className="px-4 py-2 rounded-xl bg-emerald-600 text-white">{t("form.submit")}</button>
+            <button onClick={() => alert(smsNumber ? t("form.smsHint") : t("form.smsUnset"))} className="px-4 py-2 rounded-xl bg-gray-100">{t("form.smsFallback")}</button>
+          </div>
+        </div>
+      </Section>
+
+      <Section title={t("form.preview")}>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm text-gray-700">{t("view.current")} <b>{privateView ? t("view.private") : t("view.public")}</b></div>
+          <button onClick={onTogglePrivate} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white">{t("view.toggle")}</button>
+        </div>
+        <div className="h-[300px] rounded-xl overflow-hidden border">
+          <LeafletPreview gps={form.gps} blurRadius={form.blurRadius} privateView={privateView} />
+        </div>
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import {
+  MAX_PACK_TILES, PACK_TTL_DAYS, PRESETS, TILE_ATTRIBUTION, TILE_URL,
+  cachedTile, countTiles, deletePack, downloadPack, estimateBytes, isExpired, listPacks, storageUsage,
+  type BBox, type TilePack,
+} from "./tiles";
+import { mb } from "./capture";
+import { useT } from "./i18n-context";
+
+// ---- Cache-first tile layer ----
+// Fresh cached tiles win; expired or missing ones load live when online, and an expired tile is still
+// better than a blank square when the live request fails.
+class CachedTileLayer extends L.TileLayer {
+  createTile(coords: L.Coords, done: L.DoneCallback) {
+    const img = document.createElement("img");
+    img.alt = "";
+    img.setAttribute("role", "presentation");
+    const url = this.getTileUrl(coords);
+    const show = (src: string, onFail?: () => void) => {
+      img.onload = () => {
+        if (src.startsWith("blob:")) URL.revokeObjectURL(src);
+        done(undefined, img);
+      };
+      img.onerror = () => (onFail ? onFail() : done(new Error(`Tile ${url} unavailable`), img));
+      img.src = src;
+    };
+    cachedTile(url)
+      .catch(() => null)
+      .then((hit) => {
+        const fromCache = () => show(URL.createObjectURL(hit!.blob));
+        if (hit && (!hit.expired || !navigator.onLine)) fromCache();
+        else show(url, hit ? fromCache : undefined);
+      });
+    return img;
+  }
+}
+
+export function OfflineTileLayer() {
+  const map = useMap();
+  useEffect(() => {
+    const layer = new CachedTileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+    return () => { layer.remove(); };
+  }, [map]);
+  return null;
+}
+
+// ---- Pack manager ----
+export function OfflineMapsPanel({ online }: { online: boolean }) {
+  const t = useT();
+  const [packs, setPacks] = useState<TilePack[]>([]);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [name, setName] = useState(PRESETS[0].name);
+  const [bbox, setBbox] = useState<BBox>(PRESETS[0].bbox);
+  const [zoom, setZoom] = useState({ min: 8, max: 12 });
+  const [progress, setProgress] = useState<{ done: number; total: number; label: string } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const refresh = () => {
+    listPacks().then(setPacks).catch(() => setPacks([]));
+    storageUsage().then(setUsage);
+  };
+  useEffect(refresh, []);
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const tiles = countTiles(bbox, zoom.min, zoom.max);
+  const tooBig = tiles > MAX_PACK_TILES;
+
+  const run = async (req: Parameters<typeof downloadPack>[0], label: string) => {
+    abort.current = new AbortController();
+    setProgress({ done: 0, total: countTiles(req.bbox, req.minZoom, req.maxZoom), label });
+    try {
+      const pack = await downloadPack(req, { signal: abort.current.signal, onProgress: (done, total) => setProgress({ done, total, label }) });
+      if (pack.failed) alert(t("tiles.failed", { count: pack.failed }));
+    } catch (e: any) {
+      if (e?.name !== "AbortError") alert(e?.message || t("tiles.downloadFailed"));
+    } finally {
+      abort.current = null;
+      setProgress(null);
+      refresh();
+    }
+  };
+  const pickPreset = (n: string) => {
+    const p = PRESETS.find((x) => x.name === n);
+    setName(n);
+    if (p) setBbox(p.bbox);
+  };
+  const setEdge = (k: keyof BBox, v: string) => setBbox((b) => ({ ...b, [k]: Number(v) }));
+
+  return (
+    <div className="text-sm">
+      <div className="text-gray-700 mb-3">{t("tiles.intro", { days: PACK_TTL_DAYS })}</div>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block font-medium">{t("tiles.area")}</label>
+          <select className="mt-1 w-full rounded-xl border px-2 py-1" value={PRESETS.some((p) => p.name === name) ? name : ""} onChange={(e) => pickPreset(e.target.value)}>
+            {PRESETS.map((p) => <option key={p.name}>{p.name}</option>)}
+            <option value="">{t("tiles.custom")}</option>
+          </select>
+          <input className="mt-2 w-full rounded-xl border px-2 py-1" placeholder={t("tiles.name")} value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(["north", "south", "west", "east"] as const).map((k) => (
+            <label key={k} className="text-xs text-gray-600">{t(`tiles.${k}`)}
+              <input type="number" step="0.01" className="mt-0.5 w-full rounded-xl border px-2 py-1 text-sm" value={bbox[k]} onChange={(e) => setEdge(k, e.target.value)} />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <label className="text-xs text-gray-600">{t("tiles.zoomFrom")}
+          <input type="number" min={1} max={17} className="ml-1 w-16 rounded-xl border px-2 py-1 text-sm" value={zoom.min}
+            onChange={(e) => setZoom((z) => ({ ...z, min: Math.min(Number(e.target.value), z.max) }))} />
+        </label>
+        <label className="text-xs text-gray-600">{t("tiles.zoomTo")}
+          <input type="number" min={1} max={17} className="ml-1 w-16 rounded-xl border px-2 py-1 text-sm" value={zoom.max}
+            onChange={(e) => setZoom((z) => ({ ...z, max: Math.max(Number(e.target.value), z.min) }))} />
+        </label>
+        <span className={tooBig ? "text-red-600" : "text-gray-600"}>
+          {t("tiles.count", { tiles, size: mb(estimateBytes(tiles)) })}{tooBig ? t("tiles.tooBig", { max: MAX_PACK_TILES }) : ""}
+        </span>
+        <button disabled={!online || tooBig || !!progress || !name.trim()}
+          onClick={() => run({ name: name.trim(), bbox, minZoom: zoom.min, maxZoom: zoom.max }, name.trim())}
+          className="px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">{t("tiles.download")}</button>
+        {!online && <span className="text-xs text-gray-500">{t("tiles.offline")}</span>}
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{progress.label}: {progress.done}/{progress.total}</span>
+            <button onClick={() => abort.current?.abort()} className="underline">{t("tiles.cancel")}</button>
+          </div>
+          <div className="mt-1 h-2 rounded bg-gray-200 overflow-hidden">
+            <div className="h-full bg-emerald-500" style={{ width: `${(100 * progress.done) / Math.max(1, progress.total)}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4">
+        <div className="font-medium mb-1">{t("tiles.packs")}</div>
+        {packs.length === 0 ? (
+          <div className="text-xs text-gray-500">{t("tiles.none")}</div>
+        ) : (
+          <ul className="space-y-2">
+            {packs.map((p) => (
+              <li key={p.id} className="border rounded-xl p-2 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <b>{p.name}</b> <span className="text-xs text-gray-600">{t("tiles.packInfo", { min: p.minZoom, max: p.maxZoom, tiles: p.tiles, size: mb(p.bytes) })}</span>
+                  <div className={`text-xs ${isExpired(p) ? "text-amber-700" : "text-gray-500"}`}>
+                    {t(isExpired(p) ? "tiles.expired" : "tiles.expires", { date: new Date(p.expiresAt).toLocaleDateString() })}{p.failed ? t("tiles.missing", { count: p.failed }) : ""}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button disabled={!online || !!progress} onClick={() => run(p, t("tiles.refreshing", { name: p.name }))} className="px-2 py-1 rounded-xl bg-gray-100 text-xs disabled:opacity-50">{t("tiles.refresh")}</button>
+                  <button disabled={!!progress} onClick={() => deletePack(p.id).then(refresh)} className="px-2 py-1 rounded-xl bg-red-600 text-white text-xs disabled:opacity-50">{t("tiles.delete")}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {usage && (
+        <div className="mt-3 text-xs text-gray-600">
+          {t("tiles.usage")} <b>{mb(usage.usage)}</b>{usage.quota ? t("tiles.quota", { size: mb(usage.quota) }) : ""}
+        </div>
+      )}
+    </div>
+  );
+}
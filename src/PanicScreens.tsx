@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { MIN_PIN_LENGTH, type VaultParams } from "./core/vault";
+import { makeDuress, type PanicSettings } from "./panic";
+import { isVaultPin } from "./storage";
+import { useT } from "./i18n-context";
+
+// Shown after a wipe: a plain notes pad that keeps nothing, with no trace of the reporter UI.
+export function DecoyScreen() {
+  const t = useT();
+  const [notes, setNotes] = useState<string[]>([]);
+  const [text, setText] = useState("");
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="border-b px-4 py-3 font-semibold">{t("decoy.title")}</header>
+      <div className="max-w-md mx-auto p-4">
+        <form onSubmit={(e) => { e.preventDefault(); if (text.trim()) setNotes((n) => [text.trim(), ...n]); setText(""); }} className="flex gap-2">
+          <input className="flex-1 rounded-xl border px-3 py-2" placeholder={t("decoy.new")} value={text} onChange={(e) => setText(e.target.value)} />
+          <button className="px-4 py-2 rounded-xl bg-gray-900 text-white">{t("decoy.add")}</button>
+        </form>
+        {notes.length === 0 ? (
+          <div className="mt-6 text-sm text-gray-500 text-center">{t("decoy.empty")}</div>
+        ) : (
+          <ul className="mt-4 space-y-2">{notes.map((n, i) => <li key={i} className="border rounded-xl px-3 py-2 text-sm">{n}</li>)}</ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function PanicSettingsPanel({ panic, vault, onChange, onWipe }: {
+  panic: PanicSettings;
+  vault: VaultParams | undefined;
+  onChange: (p: PanicSettings) => void;
+  onWipe: () => void;
+}) {
+  const t = useT();
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+  const setDuress = async () => {
+    setBusy(true); setMsg("");
+    try {
+      // the lock screen checks the duress PIN first, so it must never equal the vault PIN
+      if (await isVaultPin(pin, vault!)) setMsg(t("panic.sameAsVault"));
+      else onChange({ ...panic, duress: await makeDuress(pin) });
+    } finally { setBusy(false); setPin(""); }
+  };
+  return (
+    <div className="text-sm space-y-3">
+      <div>
+        <label className="block text-sm font-medium">{t("panic.duressPin")}</label>
+        {!vault ? (
+          <div className="text-xs text-gray-500 mt-1">{t("panic.needsVault")}</div>
+        ) : panic.duress ? (
+          <div className="mt-1 flex items-center gap-3">
+            <span className="text-emerald-700">{t("panic.duressSet")}</span>
+            <button onClick={() => onChange({ ...panic, duress: undefined })} className="px-3 py-1.5 rounded-xl bg-gray-100">{t("panic.remove")}</button>
+          </div>
+        ) : (
+          <div className="mt-1 flex items-center gap-2">
+            <input type="password" inputMode="numeric" autoComplete="off" className="rounded-xl border px-3 py-2" placeholder={t("panic.duressHint")}
+              value={pin} onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))} />
+            <button disabled={busy || pin.length < MIN_PIN_LENGTH} onClick={setDuress} className="px-3 py-2 rounded-xl bg-gray-900 text-white disabled:opacity-50">{t("panic.set")}</button>
+          </div>
+        )}
+        {msg && <div className="mt-1 text-xs text-red-600">{msg}</div>}
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={panic.gesture} onChange={(e) => onChange({ ...panic, gesture: e.target.checked })} />
+        {t("panic.gesture")}
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={panic.uploadFirst} onChange={(e) => onChange({ ...panic, uploadFirst: e.target.checked })} />
+        {t("panic.uploadFirst")}
+      </label>
+      <button onClick={() => confirm(t("panic.wipeConfirm")) && onWipe()}
+        className="px-4 py-2 rounded-xl bg-red-600 text-white">{t("panic.wipe")}</button>
+      <div className="text-xs text-gray-500">{t("panic.note")}</div>
+    </div>
+  );
+}
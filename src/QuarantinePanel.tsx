@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from "react";
+import { discardQuarantined, listQuarantine, type QuarantineEntry } from "./storage";
+import { downloadBlob } from "./download";
+import { useT } from "./i18n-context";
+
+// Records that failed validation on load, import or sync (schema.ts). Nothing here is shown in the app or sent;
+// it can be downloaded as JSON for repair and re-import, or discarded.
+export function QuarantinePanel({ count, onChange }: { count: number; onChange: () => void }) {
+  const t = useT();
+  const [entries, setEntries] = useState<QuarantineEntry[]>([]);
+  const [error, setError] = useState("");
+  useEffect(() => {
+    listQuarantine().then((q) => { setEntries(q); setError(""); }, () => setError(t("quarantine.readFailed")));
+  }, [count]);
+
+  const download = (list: QuarantineEntry[]) =>
+    downloadBlob(
+      new Blob([JSON.stringify(list.map(({ id, ...e }) => e), null, 2)], { type: "application/json" }),
+      `galamsey_quarantine_${new Date().toISOString().slice(0, 10)}.json`
+    );
+  const discard = async (ids: string[]) => {
+    if (!confirm(t("quarantine.discardConfirm", { count: ids.length }))) return;
+    await discardQuarantined(ids).catch(() => alert(t("quarantine.discardFailed")));
+    onChange();
+  };
+
+  if (error) return <div className="text-sm text-red-600">{error}</div>;
+  if (entries.length === 0) return <div className="text-sm text-gray-500">{t("quarantine.empty")}</div>;
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="text-xs text-gray-500">{t("quarantine.note")}</div>
+      <div className="flex gap-2">
+        <button onClick={() => download(entries)} className="px-3 py-1.5 rounded-xl bg-gray-900 text-white">{t("quarantine.downloadAll")}</button>
+        <button onClick={() => discard(entries.map((e) => e.id))} className="px-3 py-1.5 rounded-xl bg-red-50 text-red-700">{t("quarantine.discardAll")}</button>
+      </div>
+      <ul className="divide-y">
+        {entries.map((e) => (
+          <li key={e.id} className="py-2 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{e.ref}</div>
+              <div className="text-xs text-gray-500">{t(`quarantine.source.${e.source}`)} • {new Date(e.at).toLocaleString()}</div>
+              <div className="text-xs text-red-700 break-words">{e.reason}</div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => download([e])} className="px-2 py-1 rounded-lg bg-gray-100 text-xs">{t("quarantine.download")}</button>
+              <button onClick={() => discard([e.id])} className="px-2 py-1 rounded-lg bg-gray-100 text-xs text-red-700">{t("quarantine.discard")}</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
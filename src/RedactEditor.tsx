@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useT } from "./i18n-context";
+
+// Manual redaction of a photo before it is attached: drag boxes over faces, number plates or reflections.
+// Boxes are burned into a re-encoded copy; the unredacted pixels never leave this component.
+
+type Mode = "pixelate" | "fill";
+type Rect = { x: number; y: number; w: number; h: number; mode: Mode };
+
+// Coarse enough that a face or plate can't be read back: at most ~6 blocks across the shorter side.
+const blockSize = (r: Rect) => Math.max(8, Math.round(Math.min(r.w, r.h) / 6));
+
+function applyRect(ctx: CanvasRenderingContext2D, r: Rect) {
+  if (r.mode === "fill") {
+    ctx.fillStyle = "#000";
+    ctx.fillRect(r.x, r.y, r.w, r.h);
+    return;
+  }
+  const b = blockSize(r);
+  const small = document.createElement("canvas");
+  small.width = Math.max(1, Math.ceil(r.w / b));
+  small.height = Math.max(1, Math.ceil(r.h / b));
+  // downscale with smoothing (averages each block), then upscale without it
+  small.getContext("2d")!.drawImage(ctx.canvas, r.x, r.y, r.w, r.h, 0, 0, small.width, small.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, r.x, r.y, r.w, r.h);
+  ctx.imageSmoothingEnabled = true;
+}
+
+export function RedactEditor({ image, onDone, onCancel }: { image: Blob; onDone: (blob: Blob) => void; onCancel: () => void }) {
+  const t = useT();
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [rects, setRects] = useState<Rect[]>([]);
+  const [draft, setDraft] = useState<Rect | null>(null);
+  const [mode, setMode] = useState<Mode>("pixelate");
+  const [busy, setBusy] = useState(false);
+  const origin = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const src = URL.createObjectURL(image);
+    const i = new Image();
+    i.onload = () => setImg(i);
+    i.onerror = onCancel;
+    i.src = src;
+    return () => URL.revokeObjectURL(src);
+  }, [image]);
+
+  useEffect(() => {
+    const c = canvas.current;
+    if (!c || !img) return;
+    c.width = img.naturalWidth;
+    c.height = img.naturalHeight;
+    const ctx = c.getContext("2d")!;
+    ctx.drawImage(img, 0, 0);
+    rects.forEach((r) => applyRect(ctx, r));
+    if (draft) {
+      ctx.strokeStyle = "#f43f5e";
+      ctx.lineWidth = Math.max(2, c.width / 300);
+      ctx.setLineDash([ctx.lineWidth * 3, ctx.lineWidth * 2]);
+      ctx.strokeRect(draft.x, draft.y, draft.w, draft.h);
+    }
+  }, [img, rects, draft]);
+
+  // pointer position in image pixels (the canvas is scaled down to fit the screen)
+  const toImage = (e: React.PointerEvent) => {
+    const c = canvas.current!;
+    const box = c.getBoundingClientRect();
+    return { x: ((e.clientX - box.left) * c.width) / box.width, y: ((e.clientY - box.top) * c.height) / box.height };
+  };
+  const span = (a: { x: number; y: number }, b: { x: number; y: number }): Rect => ({
+    x: Math.round(Math.min(a.x, b.x)), y: Math.round(Math.min(a.y, b.y)),
+    w: Math.round(Math.abs(a.x - b.x)), h: Math.round(Math.abs(a.y - b.y)), mode,
+  });
+  const onDown = (e: React.PointerEvent) => {
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    origin.current = toImage(e);
+  };
+  const onMove = (e: React.PointerEvent) => {
+    if (origin.current) setDraft(span(origin.current, toImage(e)));
+  };
+  const onUp = (e: React.PointerEvent) => {
+    if (!origin.current) return;
+    const r = span(origin.current, toImage(e));
+    origin.current = null;
+    setDraft(null);
+    if (r.w > 4 && r.h > 4) setRects((rs) => [...rs, r]);
+  };
+
+  const apply = () => {
+    if (!rects.length) return onDone(image);
+    setBusy(true);
+    const type = image.type === "image/png" ? "image/png" : "image/jpeg";
+    canvas.current!.toBlob((b) => {
+      setBusy(false);
+      if (b) onDone(b);
+      else alert(t("redact.saveFailed"));
+    }, type, 0.92);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-3">
+      <div className="w-full max-w-3xl rounded-2xl bg-white p-3">
+        <div className="text-sm font-medium">{t("redact.title")}</div>
+        <div className="text-xs text-gray-600 mb-2">{t("redact.hint")}</div>
+        <div className="flex justify-center bg-gray-100 rounded-xl overflow-hidden">
+          {img ? (
+            <canvas ref={canvas} className="max-w-full max-h-[65vh] touch-none cursor-crosshair"
+              onPointerDown={onDown} onPointerMove={onMove} onPointerUp={onUp} onPointerCancel={() => { origin.current = null; setDraft(null); }} />
+          ) : (
+            <div className="p-8 text-sm text-gray-500">{t("redact.loading")}</div>
+          )}
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex rounded-xl overflow-hidden border">
+            {(["pixelate", "fill"] as Mode[]).map((m) => (
+              <button key={m} onClick={() => setMode(m)} className={`px-3 py-1.5 ${mode === m ? "bg-gray-900 text-white" : "bg-white"}`}>
+                {t(m === "pixelate" ? "redact.pixelate" : "redact.fill")}
+              </button>
+            ))}
+          </div>
+          <button disabled={!rects.length} onClick={() => setRects((rs) => rs.slice(0, -1))} className="px-3 py-1.5 rounded-xl bg-gray-100 disabled:opacity-50">{t("redact.undo")}</button>
+          <span className="text-xs text-gray-500">{t("redact.areas", { count: rects.length })}</span>
+          <div className="ml-auto flex gap-2">
+            <button onClick={onCancel} className="px-3 py-1.5 rounded-xl bg-gray-100">{t("redact.cancel")}</button>
+            <button disabled={busy || !img} onClick={apply} className="px-3 py-1.5 rounded-xl bg-emerald-600 text-white disabled:opacity-50">
+              {rects.length ? t("redact.save") : t("redact.asIs")}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from "react";
+import type { Report } from "./core/types";
+import type { ReportFilter } from "./core/filters";
+import { ZONES, ZONE_KINDS } from "./core/geofence";
+import { useT } from "./i18n-context";
+
+// Category / status / protected-area selects shared by the report list and the map; options come from the reports present.
+export function FilterSelects({ reports, filter, onChange }: {
+  reports: Report[];
+  filter: ReportFilter;
+  onChange: (fn: (f: ReportFilter) => ReportFilter) => void;
+}) {
+  const t = useT();
+  return (
+    <>
+      <select className="rounded-xl border px-2 py-1" value={filter.category} onChange={(e) => onChange((f) => ({ ...f, category: e.target.value }))}>
+        <option value="">{t("filter.allCategories")}</option>
+        {Array.from(new Set(reports.map((r) => r.category))).map((c) => <option key={c}>{c}</option>)}
+      </select>
+      <select className="rounded-xl border px-2 py-1" value={filter.status} onChange={(e) => onChange((f) => ({ ...f, status: e.target.value }))}>
+        <option value="">{t("filter.allStatuses")}</option>
+        {Array.from(new Set(reports.map((r) => r.status))).map((s) => <option key={s}>{s}</option>)}
+      </select>
+      <select className="rounded-xl border px-2 py-1" value={filter.zone} onChange={(e) => onChange((f) => ({ ...f, zone: e.target.value }))}>
+        <option value="">{t("filter.allAreas")}</option>
+        <option value="any">{t("filter.anyZone")}</option>
+        {Object.entries(ZONE_KINDS).map(([k, v]) => <option key={k} value={k}>{v.label}s</option>)}
+        {ZONES.map((z) => <option key={z.id} value={z.id}>{z.name}</option>)}
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import React from "react";
+import type { HoldReason, SafeSettings } from "./core/safe-upload";
+import type { Translate } from "./core/i18n";
+import { useT } from "./i18n-context";
+
+// Upload-when-safe policy (safe-upload.ts). The service worker gets a copy through the sync config.
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const hourLabel = (h: number) => `${String(h).padStart(2, "0")}:00`;
+
+/** One reason a report is still held, worded for the report card. */
+export function holdReasonText(t: Translate, r: HoldReason): string {
+  switch (r.code) {
+    case "distance": {
+      const progress = r.clearM === null ? t("safe.noFixYet") : t("safe.progress", { clear: r.clearM, fixes: r.fixes, need: r.minFixes });
+      return t("safe.distance", { meters: r.minMeters, progress, mins: r.waitMins });
+    }
+    case "noCapturePoint": return t("safe.noCapturePoint", { mins: r.waitMins });
+    case "quietHours": return t("safe.quietHours", { until: hourLabel(r.until) });
+    default: return t(`safe.${r.code}`);
+  }
+}
+
+export function SafeUploadSettingsPanel({ safe, here, onChange }: {
+  safe: SafeSettings;
+  here: { lat: number; lon: number } | null;
+  onChange: (s: SafeSettings) => void;
+}) {
+  const t = useT();
+  const set = (patch: Partial<SafeSettings>) => onChange({ ...safe, ...patch });
+  const number = (key: "minMeters" | "maxWaitMins" | "minFixes" | "sustainSecs" | "maxAccuracyM", min: number, step: number, fallback: number) => (
+    <div>
+      <label className="block text-sm font-medium">{t(`safe.${key}`)}</label>
+      <input type="number" className="mt-1 w-full rounded-xl border px-3 py-2" min={min} step={step}
+        value={safe[key]} onChange={(e) => set({ [key]: Number(e.target.value) || fallback })} />
+    </div>
+  );
+  return (
+    <div className="text-sm space-y-3">
+      <div className="grid sm:grid-cols-2 gap-3">
+        {number("minMeters", 100, 50, 1000)}
+        {number("maxWaitMins", 5, 5, 30)}
+        {number("minFixes", 1, 1, 3)}
+        {number("sustainSecs", 0, 30, 120)}
+        {number("maxAccuracyM", 10, 10, 100)}
+      </div>
+      <div className="text-xs text-gray-500">{t("safe.rule")}</div>
+
+      <div>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={!!safe.quietHours} onChange={(e) => set({ quietHours: e.target.checked ? { from: 19, to: 6 } : null })} />
+          {t("safe.quietToggle")}
+        </label>
+        {safe.quietHours && (
+          <div className="mt-1 flex items-center gap-2">
+            <select className="rounded-xl border px-2 py-1" value={safe.quietHours.from} onChange={(e) => set({ quietHours: { ...safe.quietHours!, from: Number(e.target.value) } })}>
+              {HOURS.map((h) => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+            {t("safe.quietTo")}
+            <select className="rounded-xl border px-2 py-1" value={safe.quietHours.to} onChange={(e) => set({ quietHours: { ...safe.quietHours!, to: Number(e.target.value) } })}>
+              {HOURS.map((h) => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="text-xs text-gray-500 mt-1">{t("safe.quietNote")}</div>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={safe.network === "homeWifi"} onChange={(e) => set({ network: e.target.checked ? "homeWifi" : "any" })} />
+          {t("safe.homeWifi")}
+        </label>
+        {safe.network === "homeWifi" && (
+          <div className="mt-1 flex items-center gap-3">
+            <span className={safe.home ? "text-emerald-700" : "text-amber-700"}>{safe.home ? t("safe.homeSet") : t("safe.homeUnset")}</span>
+            <button disabled={!here} onClick={() => set({ home: here && { lat: here.lat, lon: here.lon } })} className="px-3 py-1.5 rounded-xl bg-gray-100 disabled:opacity-50">
+              {t("safe.setHome")}
+            </button>
+          </div>
+        )}
+        <div className="text-xs text-gray-500 mt-1">{t("safe.homeWifiNote")}</div>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={safe.manual} onChange={(e) => set({ manual: e.target.checked })} />
+        {t("safe.manualToggle", { release: t("safe.release") })}
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React from "react";
+import { LANGUAGES, coverage } from "./core/i18n";
+import type { SafeSettings } from "./core/safe-upload";
+import type { Settings } from "./core/schema";
+import { VaultSettingsPanel } from "./VaultScreens";
+import { DEFAULT_PANIC } from "./panic";
+import { PanicSettingsPanel } from "./PanicScreens";
+import { SigningKeyPanel } from "./EvidenceVerifier";
+import { SafeUploadSettingsPanel } from "./SafeUploadSettings";
+import { useI18n } from "./i18n-context";
+import { Section } from "./Layout";
+
+// Language, role, contacts, sync and the protection settings. Everything is saved on this device only (see App).
+export function SettingsScreen({ settings, setSettings, safe, here, onLock, onPanic }: {
+  settings: Settings;
+  setSettings: React.Dispatch<React.SetStateAction<Settings>>;
+  safe: SafeSettings;
+  here: { lat: number; lon: number } | null;
+  onLock: () => void;
+  onPanic: () => void;
+}) {
+  const { lang, t } = useI18n();
+  return (
+    <div className="max-w-3xl mx-auto px-3 py-4">
+      <Section title={t("settings.language")}>
+        <div className="flex flex-wrap gap-2 text-sm">
+          {LANGUAGES.map((l) => (
+            <button key={l.code} onClick={() => setSettings((s) => ({ ...s, lang: l.code }))}
+              className={`px-3 py-1.5 rounded-xl ${lang === l.code ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-800"}`}>
+              {l.native}{l.native !== l.name ? ` (${l.name})` : ""}
+              {l.code !== "en" && <span className="ml-1 text-xs opacity-70">{Math.round(coverage(l.code) * 100)}%</span>}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-gray-500 mt-2">{t("settings.languageNote")}</div>
+      </Section>
+      <Section title={t("settings.role")}>
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2"><input type="radio" checked={settings.role !== "authority"} onChange={()=>setSettings((s)=>({ ...s, role:"reporter" }))} /> {t("settings.reporter")}</label>
+          <label className="flex items-center gap-2"><input type="radio" checked={settings.role === "authority"} onChange={()=>setSettings((s)=>({ ...s, role:"authority" }))} /> {t("settings.authority")}</label>
+        </div>
+        {settings.role === "authority" && (
+          <div className="grid sm:grid-cols-2 gap-3 text-sm mt-3">
+            <div>
+              <label className="block text-sm font-medium">{t("settings.officerName")}</label>
+              <input className="mt-1 w-full rounded-xl border px-3 py-2" placeholder={t("settings.officerNameHint")}
+                value={settings.officer?.name || ""} onChange={(e)=>setSettings((s)=>({ ...s, officer:{ team:"", ...s.officer, name:e.target.value }}))} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t("settings.team")}</label>
+              <input className="mt-1 w-full rounded-xl border px-3 py-2" placeholder={t("settings.teamHint")}
+                value={settings.officer?.team || ""} onChange={(e)=>setSettings((s)=>({ ...s, officer:{ name:"", ...s.officer, team:e.target.value }}))} />
+            </div>
+          </div>
+        )}
+      </Section>
+      <Section title={t("settings.contacts")}>
+        <div className="grid sm:grid-cols-2 gap-3 text-sm">
+          <div>
+            <label className="block text-sm font-medium">{t("settings.smsNumber")}</label>
+            <input className="mt-1 w-full rounded-xl border px-3 py-2" placeholder={t("settings.smsNumberHint")}
+              value={settings.authority?.sms || ""} onChange={(e)=>setSettings((s)=>({ ...s, authority:{ ...s.authority, sms:e.target.value }}))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t("settings.ussdCode")}</label>
+            <input className="mt-1 w-full rounded-xl border px-3 py-2" placeholder={t("settings.ussdCodeHint")}
+              value={settings.authority?.ussd || ""} onChange={(e)=>setSettings((s)=>({ ...s, authority:{ ...s.authority, ussd:e.target.value }}))} />
+          </div>
+        </div>
+        <div className="text-xs text-gray-500 mt-2">{t("settings.contactsNote")}</div>
+      </Section>
+      <Section title={t("settings.sync")}>
+        <label className="block text-sm font-medium">{t("settings.endpoint")}</label>
+        <input className="mt-1 w-full rounded-xl border px-3 py-2 text-sm" placeholder={t("settings.endpointHint")}
+          value={settings.sync?.endpoint || ""} onChange={(e)=>setSettings((s)=>({ ...s, sync:{ endpoint:e.target.value.trim() }}))} />
+        <div className="text-xs text-gray-500 mt-2">{t("settings.endpointNote")}</div>
+      </Section>
+      <Section title={t("settings.safeUpload")}>
+        <SafeUploadSettingsPanel safe={safe} here={here} onChange={(safe) => setSettings((s) => ({ ...s, safe }))} />
+      </Section>
+      <Section title={t("settings.vault")}>
+        <VaultSettingsPanel vault={settings.vault} duress={settings.panic?.duress} onLock={onLock}
+          onChange={(v) => setSettings((s) => { const { vault, ...rest } = s; return v ? { ...rest, vault: v } : rest; })} />
+      </Section>
+      <Section title={t("settings.panic")}>
+        <PanicSettingsPanel panic={settings.panic ?? DEFAULT_PANIC} vault={settings.vault} onWipe={onPanic}
+          onChange={(p) => setSettings((s) => ({ ...s, panic: p }))} />
+      </Section>
+      <Section title={t("settings.signingKey")}>
+        <SigningKeyPanel />
+      </Section>
+      <Section title={t("settings.ussdDial")}>
+        <button
+          onClick={() =>
+            settings.authority?.ussd
+              ? (window.location.href = `tel:${encodeURIComponent(settings.authority.ussd)}`)
+              : alert(t("settings.ussdUnset"))
+          }
+          className="px-4 py-2 rounded-xl bg-gray-900 text-white"
+        >
+          {t("settings.ussdDialButton")}
+        </button>
+        <div className="text-xs text-gray-500 mt-2">{t("settings.ussdNote")}</div>
+      </Section>
+    </div>
+  );
+}
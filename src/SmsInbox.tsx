@@ -0,0 +1,40 @@
+import React, { useState } from "react";
+import type { Report } from "./core/types";
+import { ingestSMS, type SmsIngest } from "./core/sms";
+import { useT } from "./i18n-context";
+
+// Manual stand-in for an SMS gateway: paste received messages (one per line) and add the decoded reports.
+export function SmsInbox({ existing, onIngest }: { existing: Report[]; onIngest: (reports: Report[]) => void }) {
+  const t = useT();
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<(SmsIngest & { known: number }) | null>(null);
+
+  const run = () => {
+    const res = ingestSMS(text.split(/\r?\n/));
+    const fresh = res.reports.filter((r) => !existing.some((x) => x.id === r.id));
+    if (fresh.length) onIngest(fresh);
+    setResult({ ...res, reports: fresh, known: res.reports.length - fresh.length });
+    // keep only what couldn't be used yet, so missing parts can be pasted in later
+    const waiting = new Set(res.incomplete.map((i) => i.ref));
+    setText(text.split(/\r?\n/).filter((l) => waiting.has(l.trim().split(" ")[1])).join("\n"));
+  };
+
+  return (
+    <div className="text-sm">
+      <textarea className="w-full rounded-xl border px-3 py-2 min-h-[100px] font-mono text-xs" placeholder="GW1 3f2a9c1e 1/2 R;ebyw4v4c;12;…"
+        value={text} onChange={(e) => setText(e.target.value)} />
+      <button disabled={!text.trim()} onClick={run} className="mt-2 px-3 py-1.5 rounded-xl bg-gray-900 text-white text-xs disabled:opacity-50">{t("smsInbox.decode")}</button>
+      {result && (
+        <div className="mt-3 p-3 rounded-xl bg-gray-50 text-xs">
+          <b>{t("smsInbox.summary", { added: result.reports.length, known: result.known, waiting: result.incomplete.length, rejected: result.rejected.length })}</b>
+          {result.incomplete.length > 0 && (
+            <ul className="mt-2 list-disc pl-5">{result.incomplete.map((i) => <li key={i.ref}>{t("smsInbox.partial", { ref: i.ref, have: i.have, total: i.total })}</li>)}</ul>
+          )}
+          {result.rejected.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-red-700">{result.rejected.map((r, i) => <li key={i}>{r.ref}: {r.detail}</li>)}</ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import type { Report } from "./core/types";
+import { USSD_SCREEN_CHARS, toGatewayText, ussdInput, ussdStart, type UssdResponse } from "./core/ussd";
+import { useT } from "./i18n-context";
+
+// Phone-screen stand-in for a USSD gateway, for designing and testing the menu without a short code.
+// `onReport` is only passed for authorities, who may keep a simulated report.
+export function UssdSimulator({ code, onReport }: { code: string; onReport?: (r: Report) => void }) {
+  const t = useT();
+  const [session, setSession] = useState(() => `sim${Date.now().toString(36)}`);
+  const [res, setRes] = useState<UssdResponse>(() => ussdStart());
+  const [chain, setChain] = useState<string[]>([]);
+  const [input, setInput] = useState("");
+  const [kept, setKept] = useState(false);
+
+  const send = () => {
+    if (res.end || !input.trim()) return;
+    setRes(ussdInput(res.state, input, { sessionId: session }));
+    setChain((c) => [...c, input.trim()]);
+    setInput("");
+  };
+  const reset = () => {
+    setSession(`sim${Date.now().toString(36)}`);
+    setRes(ussdStart());
+    setChain([]);
+    setInput("");
+    setKept(false);
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4 text-sm">
+      <div className="max-w-xs w-full mx-auto rounded-3xl bg-gray-900 p-4">
+        <div className="text-[10px] text-gray-400 mb-1">{t("ussd.dialled", { code: code || t("ussd.noCode") })}</div>
+        <pre className="min-h-[170px] rounded-xl bg-emerald-50 p-3 text-xs whitespace-pre-wrap font-mono">{res.text}</pre>
+        <div className="mt-1 text-[10px] text-gray-400 text-right">{res.text.length} / {USSD_SCREEN_CHARS}</div>
+        <div className="mt-2 flex gap-2">
+          <input className="flex-1 min-w-0 rounded-xl px-3 py-1.5 font-mono" inputMode="numeric" disabled={res.end} value={input}
+            onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => e.key === "Enter" && send()} />
+          <button disabled={res.end || !input.trim()} onClick={send} className="px-3 py-1.5 rounded-xl bg-emerald-600 text-white disabled:opacity-50">{t("ussd.send")}</button>
+        </div>
+        <button onClick={reset} className="mt-2 w-full px-3 py-1.5 rounded-xl bg-gray-700 text-white text-xs">{res.end ? t("ussd.dialAgain") : t("ussd.hangUp")}</button>
+      </div>
+      <div className="text-xs space-y-2">
+        <div>{t("ussd.input")} <code className="px-1 rounded bg-gray-100">{chain.join("*") || t("ussd.empty")}</code></div>
+        <div>{t("ussd.reply")} <code className="px-1 rounded bg-gray-100 whitespace-pre-wrap">{toGatewayText(res).split("\n")[0]}…</code></div>
+        <div className="text-gray-600">{t("ussd.keys")}</div>
+        {res.report && (
+          <div className="p-3 rounded-xl bg-gray-50">
+            <div className="font-medium">{res.report.category}</div>
+            <div className="whitespace-pre-wrap text-gray-700">{res.report.description}</div>
+            <div className="mt-1 text-gray-500">{t("ussd.at", { lat: res.report.gps.lat.toFixed(4), lon: res.report.gps.lon.toFixed(4), accuracy: res.report.gps.accuracy })}</div>
+            {onReport && (
+              <button disabled={kept} onClick={() => { onReport(res.report!); setKept(true); }}
+                className="mt-2 px-3 py-1.5 rounded-xl bg-gray-900 text-white disabled:opacity-50">{kept ? t("ussd.added") : t("ussd.add")}</button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import { MIN_PIN_LENGTH, type VaultParams } from "./core/vault";
+import { changeVaultPin, disableVault, enableVault, unlockVault } from "./storage";
+import { isDuressPin, type DuressSettings } from "./panic";
+import { useT } from "./i18n-context";
+
+// Settings shape under `settings.vault`: KDF params plus the auto-lock preference. No key material.
+export type VaultSettings = VaultParams & { autoLockMins: number };
+
+// Kept outside App so typing a PIN doesn't remount the inputs on every keystroke.
+const PinInput = ({ value, onChange, placeholder }: { value: string; onChange: (v: string) => void; placeholder: string }) => (
+  <input type="password" inputMode="numeric" autoComplete="off" className="mt-1 w-full rounded-xl border px-3 py-2"
+    placeholder={placeholder} value={value} onChange={(e) => onChange(e.target.value.replace(/\D/g, ""))} />
+);
+
+export function LockScreen({ vault, duress, onUnlocked, onDuress }: {
+  vault: VaultSettings;
+  duress?: DuressSettings;
+  onUnlocked: () => void;
+  onDuress: () => void;
+}) {
+  const t = useT();
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true); setError("");
+    try {
+      if (await isDuressPin(pin, duress)) onDuress();
+      else if (await unlockVault(pin, vault)) onUnlocked();
+      else setError(t("lock.wrongPin"));
+    } catch {
+      setError(t("lock.openFailed"));
+    } finally {
+      setBusy(false); setPin("");
+    }
+  };
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-3">
+      <form onSubmit={submit} className="bg-white rounded-2xl shadow p-6 w-full max-w-xs">
+        <h2 className="text-lg font-semibold mb-3">{t("lock.title")}</h2>
+        <PinInput value={pin} onChange={setPin} placeholder={t("lock.pin")} />
+        {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+        <button disabled={busy || pin.length < MIN_PIN_LENGTH} className="mt-4 w-full px-4 py-2 rounded-xl bg-gray-900 text-white disabled:opacity-50">
+          {busy ? t("lock.unlocking") : t("lock.unlock")}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function VaultSettingsPanel({ vault, duress, onChange, onLock }: {
+  vault: VaultSettings | undefined;
+  duress?: DuressSettings;
+  onChange: (v: VaultSettings | undefined) => void;
+  onLock: () => void;
+}) {
+  const t = useT();
+  const [current, setCurrent] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+  const reset = (m: string) => { setCurrent(""); setPin(""); setConfirm(""); setMsg(m); };
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true); setMsg("");
+    try { await fn(); } catch { setMsg(t("vault.updateFailed")); } finally { setBusy(false); }
+  };
+  const newPinOk = pin.length >= MIN_PIN_LENGTH && pin === confirm;
+
+  if (!vault) {
+    return (
+      <div className="text-sm">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div><label className="block text-sm font-medium">{t("vault.newPin")}</label><PinInput value={pin} onChange={setPin} placeholder={t("vault.pinHint", { digits: MIN_PIN_LENGTH })} /></div>
+          <div><label className="block text-sm font-medium">{t("vault.confirmPin")}</label><PinInput value={confirm} onChange={setConfirm} placeholder={t("vault.repeatPin")} /></div>
+        </div>
+        <button disabled={busy || !newPinOk} className="mt-3 px-4 py-2 rounded-xl bg-gray-900 text-white disabled:opacity-50"
+          onClick={() => run(async () => { const params = await enableVault(pin); onChange({ ...params, autoLockMins: 5 }); reset(t("vault.enabled")); })}>
+          {busy ? t("vault.encrypting") : t("vault.enable")}
+        </button>
+        {msg && <div className="mt-2 text-xs text-gray-700">{msg}</div>}
+        <div className="text-xs text-gray-500 mt-2">{t("vault.note")}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-4">
+      <div className="flex items-center gap-3">
+        <button onClick={onLock} className="px-4 py-2 rounded-xl bg-gray-900 text-white">{t("vault.lockNow")}</button>
+        <label className="flex items-center gap-2">{t("vault.autoLock")}
+          <input type="number" min={1} step={1} className="w-20 rounded-xl border px-2 py-1" value={vault.autoLockMins}
+            onChange={(e) => onChange({ ...vault, autoLockMins: Math.max(1, Number(e.target.value) || 5) })} /> {t("vault.autoLockUnit")}
+        </label>
+      </div>
+      <div className="grid sm:grid-cols-3 gap-3">
+        <div><label className="block text-sm font-medium">{t("vault.currentPin")}</label><PinInput value={current} onChange={setCurrent} placeholder={t("vault.currentPin")} /></div>
+        <div><label className="block text-sm font-medium">{t("vault.newPin")}</label><PinInput value={pin} onChange={setPin} placeholder={t("vault.newPin")} /></div>
+        <div><label className="block text-sm font-medium">{t("vault.confirmNewPin")}</label><PinInput value={confirm} onChange={setConfirm} placeholder={t("vault.repeatNewPin")} /></div>
+      </div>
+      <div className="flex gap-2">
+        <button disabled={busy || !current || !newPinOk} className="px-4 py-2 rounded-xl bg-gray-900 text-white disabled:opacity-50"
+          onClick={() => run(async () => {
+            if (await isDuressPin(pin, duress)) return reset(t("vault.sameAsDuress"));
+            const params = await changeVaultPin(current, vault, pin);
+            if (!params) return reset(t("vault.wrongPin"));
+            onChange({ ...params, autoLockMins: vault.autoLockMins });
+            reset(t("vault.changed"));
+          })}>
+          {t("vault.change")}
+        </button>
+        <button disabled={busy || !current} className="px-4 py-2 rounded-xl bg-red-600 text-white disabled:opacity-50"
+          onClick={() => run(async () => {
+            if (!(await disableVault(current, vault))) return reset(t("vault.wrongPin"));
+            onChange(undefined);
+            reset(t("vault.disabled"));
+          })}>
+          {t("vault.disable")}
+        </button>
+      </div>
+      {msg && <div className="text-xs text-gray-700">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import type { Media } from "./core/types";
+
+/**
+ * In-app audio/video capture (MediaRecorder)
+ * - Bitrate and duration are capped per kind; recording also stops before the report's media budget is used up
+ * - Data arrives in one-second chunks kept as Blobs and joined once at the end, never read into memory as base64.
+ *   Only the first chunk carries the container header, so a chunk is not a playable file on its own: the metadata
+ *   scrub parses the whole container, and the evidence hash has to cover the exact file the verifier re-hashes.
+ *   Joining is cheap, since the joined Blob references the chunks instead of copying them
+ * - The caller decides how to present it (live preview, or nothing at all in stealth)
+ */
+
+export type CaptureKind = "video" | "audio";
+export type StopReason = "stopped" | "duration" | "budget";
+
+export const CAPTURE_LIMITS: Record<CaptureKind, { maxSeconds: number; videoBps?: number; audioBps: number }> = {
+  video: { maxSeconds: 120, videoBps: 800_000, audioBps: 64_000 },
+  audio: { maxSeconds: 600, audioBps: 32_000 },
+};
+// Per report, across photos, videos and voice notes; keeps queued reports uploadable on mobile data.
+export const REPORT_MEDIA_BUDGET = 40 * 1048576;
+const CHUNK_MS = 1000;
+
+// first one the browser supports wins; Safari only records MP4
+const MIME_CANDIDATES: Record<CaptureKind, string[]> = {
+  video: ["video/webm;codecs=vp8,opus", "video/webm", "video/mp4"],
+  audio: ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg"],
+};
+
+// `code` picks the catalog message (capture.<code>) the app shows.
+export class CaptureError extends Error {
+  constructor(readonly code: "unsupported" | "budget" | "denied" | "device" | "failed", message: string) {
+    super(message);
+    this.name = "CaptureError";
+  }
+}
+
+export const mediaBytes = (media: Media[]) => media.reduce((n, m) => n + (m.blob?.size || 0), 0);
+export const mb = (bytes: number) => `${(bytes / 1048576).toFixed(1)} MB`;
+export const canCapture = () => typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+export type Capture = {
+  kind: CaptureKind;
+  stream: MediaStream;
+  startedAt: string;
+  maxBytes: number;
+  /** Bytes recorded so far. */
+  bytes: () => number;
+  seconds: () => number;
+  stop: () => void;
+  result: Promise<{ blob: Blob; seconds: number; reason: StopReason }>;
+};
+
+/** Starts recording from the rear camera / microphone. `maxBytes` is what's left of the report's budget. */
+export async function startCapture(kind: CaptureKind, maxBytes: number): Promise<Capture> {
+  if (!canCapture()) throw new CaptureError("unsupported", "Recording is not supported in this browser.");
+  const limits = CAPTURE_LIMITS[kind];
+  // room for at least a few seconds, or it isn't worth starting
+  const minBytes = (((limits.videoBps || 0) + limits.audioBps) / 8) * 5;
+  if (maxBytes < minBytes) throw new CaptureError("budget", "This report's media budget is used up.");
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia(
+      kind === "video" ? { audio: true, video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 720 } } } : { audio: true }
+    );
+  } catch (e: any) {
+    throw e?.name === "NotAllowedError"
+      ? new CaptureError("denied", "Camera/microphone permission was denied.")
+      : new CaptureError("device", "Could not open the camera or microphone.");
+  }
+  const mimeType = MIME_CANDIDATES[kind].find((m) => MediaRecorder.isTypeSupported(m));
+  const rec = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: limits.videoBps, audioBitsPerSecond: limits.audioBps });
+
+  const chunks: Blob[] = [];
+  const started = Date.now();
+  let bytes = 0, last = 0;
+  let reason: StopReason = "stopped";
+  const seconds = () => (Date.now() - started) / 1000;
+  const stop = (why: StopReason = "stopped") => {
+    if (rec.state === "inactive") return;
+    reason = why;
+    rec.stop();
+  };
+
+  const result = new Promise<{ blob: Blob; seconds: number; reason: StopReason }>((resolve, reject) => {
+    rec.ondataavailable = (e) => {
+      if (!e.data.size) return;
+      chunks.push(e.data);
+      bytes += e.data.size;
+      last = e.data.size;
+      // stop while the next chunk would still fit
+      if (bytes + last >= maxBytes) stop("budget");
+      else if (seconds() >= limits.maxSeconds) stop("duration");
+    };
+    rec.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      // drop codec parameters so the type maps to a file extension
+      const type = (rec.mimeType || mimeType || (kind === "video" ? "video/webm" : "audio/webm")).split(";")[0];
+      resolve({ blob: new Blob(chunks, { type }), seconds: Math.round(seconds()), reason });
+    };
+    rec.onerror = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      reject(new CaptureError("failed", "Recording failed."));
+    };
+  });
+  rec.start(CHUNK_MS);
+  return { kind, stream, startedAt: new Date(started).toISOString(), maxBytes, bytes: () => bytes, seconds, stop: () => stop(), result };
+}
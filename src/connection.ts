@@ -0,0 +1,15 @@
+import type { Connection } from "./core/safe-upload";
+
+// The part of the Network Information API used here; not in the DOM typings, since only some browsers ship it.
+interface NetworkInformation {
+  type?: string;
+}
+
+// Connection type from the Network Information API (page and worker); most browsers outside Chrome on Android don't expose it.
+export function connectionType(): Connection {
+  const { connection } = navigator as Navigator & { connection?: NetworkInformation };
+  const type = connection?.type;
+  if (type === "wifi" || type === "ethernet") return "wifi";
+  if (type && type !== "unknown" && type !== "other") return "cellular";
+  return "unknown";
+}
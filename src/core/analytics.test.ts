@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry, Report } from "./types";
+import {
+  bucketOf, bucketsIn, byCategory, byHazard, hotspots, hoursToResolve, lastDays, median, resolutionBy, statusFunnel, timeSeries, timeSeriesCSV,
+} from "./analytics";
+
+const at = (day: string, h = 0) => new Date(Date.parse(`${day}T00:00:00Z`) + h * 3600e3).toISOString();
+const report = (id: string, day: string, category: string, states: [string, number][], extra: Partial<Report> = {}) => {
+  const history = states.map(([state, h]) => ({ state, at: at(day, h) } as HistoryEntry));
+  return { id, createdAt: at(day), category, history, status: history[history.length - 1].state, ...extra } as Report;
+};
+const place = (district: string, region: string) => ({ place: { district, region, near: "", km: 0, dir: "", approx: false } });
+
+const range = { from: "2026-03-01", to: "2026-03-31", bucket: "week" as const };
+const reports = [
+  report("a", "2026-03-02", "River dredging", [["Submitted", 0], ["Received", 1], ["In Progress", 5], ["Resolved", 10]], place("Amansie West", "Ashanti")),
+  report("b", "2026-03-03", "River dredging", [["Submitted", 0], ["Received", 2], ["In Progress", 4], ["Resolved", 30]], place("Amansie West", "Ashanti")),
+  report("c", "2026-03-10", "River dredging", [["Submitted", 0], ["Received", 1]], {
+    ...place("Tarkwa-Nsuaem", "Western"),
+    checklist: { types: {}, hazards: { mercury: true, noise: true }, time: "", risk: "" },
+  }),
+  report("d", "2026-03-11", "Chemical use", [["Submitted", 0], ["Received", 1], ["Rejected", 2]], place("Amansie West", "Ashanti")),
+  report("e", "2026-03-12", "River dredging", [["Submitted", 0], ["Duplicate", 1]]), // merged away
+  report("f", "2026-03-12", "River dredging", [["Queued", 0]]), // never sent
+  report("g", "2026-02-20", "River dredging", [["Submitted", 0]]), // before the range
+];
+
+describe("buckets", () => {
+  it("keys weeks by their Monday and months by their first day", () => {
+    expect(bucketOf("2026-03-04T10:00:00Z", "week")).toBe("2026-03-02");
+    expect(bucketOf("2026-03-02T00:00:00Z", "week")).toBe("2026-03-02");
+    expect(bucketOf("2026-03-01T23:59:00Z", "week")).toBe("2026-02-23");
+    expect(bucketOf("2026-03-31T12:00:00Z", "month")).toBe("2026-03-01");
+    expect(bucketsIn({ from: "2026-01-15", to: "2026-03-02", bucket: "month" })).toEqual(["2026-01-01", "2026-02-01", "2026-03-01"]);
+    expect(lastDays(90, "day", new Date("2026-03-31T08:00:00Z"))).toEqual({ from: "2026-01-01", to: "2026-03-31", bucket: "day" });
+  });
+});
+
+describe("timeSeries", () => {
+  it("counts incidents in the range by category, leaving out queued reports and duplicates", () => {
+    const ts = timeSeries(reports, range, byCategory);
+    expect(ts.buckets).toEqual(["2026-02-23", "2026-03-02", "2026-03-09", "2026-03-16", "2026-03-23", "2026-03-30"]);
+    expect(ts.series.map((s) => [s.key, s.total])).toEqual([["River dredging", 3], ["Chemical use", 1]]);
+    expect(ts.series[0].counts).toEqual([0, 2, 1, 0, 0, 0]);
+  });
+
+  it("counts each ticked checklist hazard", () => {
+    const ts = timeSeries(reports, range, byHazard);
+    expect(ts.series.map((s) => s.key)).toEqual(["Chemicals / mercury", "Noise at night"]);
+    expect(timeSeriesCSV(ts).split("\r\n")[0]).toBe("bucket,Chemicals / mercury,Noise at night");
+    expect(timeSeriesCSV(ts, "Period").split("\r\n")[0]).toBe("Period,Chemicals / mercury,Noise at night");
+  });
+});
+
+describe("resolution", () => {
+  it("measures from submission to the first Resolved entry", () => {
+    expect(hoursToResolve(reports[0])).toBe(10);
+    expect(hoursToResolve(reports[2])).toBeNull();
+    expect(median([10, 30])).toBe(20);
+  });
+
+  it("answers reports per category in a period and how fast they were resolved", () => {
+    const [dredging, chemical] = resolutionBy(reports, range);
+    expect(dredging).toMatchObject({ key: "River dredging", reports: 3, resolved: 2, open: 1, medianH: 20 });
+    expect(chemical).toMatchObject({ key: "Chemical use", reports: 1, resolved: 0, open: 0, medianH: null });
+  });
+});
+
+describe("statusFunnel", () => {
+  it("counts reports that reached or passed each main-path state", () => {
+    const steps = Object.fromEntries(statusFunnel(reports).map((s) => [s.state, s.reports]));
+    expect(steps).toMatchObject({ Submitted: 5, Received: 4, "In Progress": 2, Resolved: 2, Rejected: 1, "Needs more info": 0 });
+  });
+});
+
+describe("hotspots", () => {
+  it("ranks districts by reports in the range", () => {
+    const spots = hotspots(reports, range);
+    expect(spots.map((h) => [h.area, h.region, h.reports, h.open])).toEqual([
+      ["Amansie West", "Ashanti", 3, 0],
+      ["Tarkwa-Nsuaem", "Western", 1, 1],
+    ]);
+    expect(hotspots(reports, range, "region")[0]).toMatchObject({ area: "Ashanti", reports: 3 });
+  });
+});
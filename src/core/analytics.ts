@@ -0,0 +1,149 @@
+import { STATUSES, BRANCH_STATUSES, type Report, type ReportStatus } from "./types";
+import { HAZARDS } from "./checklist";
+import { csvLine } from "./export";
+
+/**
+ * Incident analytics: pure aggregations over reports, shared by the analytics tab, its CSV exports and tests
+ * - Counts incidents: reports that reached the authority (not Queued) and weren't merged away as duplicates
+ * - Time buckets are UTC days, ISO weeks (starting Monday) or calendar months, keyed by their first day
+ * - Time to resolve runs from the first Submitted entry (else createdAt) to the first Resolved entry
+ */
+
+export type Bucket = "day" | "week" | "month";
+export type Range = { from: string; to: string; bucket: Bucket }; // inclusive days, YYYY-MM-DD
+export type Series = { key: string; counts: number[]; total: number };
+export type TimeSeries = { buckets: string[]; series: Series[] };
+export type FunnelStep = { state: ReportStatus; reports: number };
+export type ResolutionStats = { key: string; reports: number; resolved: number; open: number; medianH: number | null; p90H: number | null };
+export type Hotspot = { area: string; region: string; reports: number; open: number; resolved: number; medianH: number | null };
+
+const DAY_MS = 86400e3;
+
+export const incidents = (reports: Report[]) => reports.filter((r) => r.status !== "Queued" && r.status !== "Duplicate");
+
+/** Range of the last `days` days up to and including `now`. */
+export function lastDays(days: number, bucket: Bucket, now = new Date()): Range {
+  const to = now.toISOString().slice(0, 10);
+  const from = new Date(Date.parse(to) - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+  return { from, to, bucket };
+}
+
+export function bucketOf(iso: string, bucket: Bucket) {
+  const day = iso.slice(0, 10);
+  if (bucket === "day") return day;
+  if (bucket === "month") return `${day.slice(0, 7)}-01`;
+  const t = Date.parse(day);
+  const weekday = (new Date(t).getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(t - weekday * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function bucketsIn(range: Range) {
+  const out: string[] = [];
+  for (let t = Date.parse(bucketOf(range.from, range.bucket)); t <= Date.parse(range.to); ) {
+    const key = new Date(t).toISOString().slice(0, 10);
+    out.push(key);
+    if (range.bucket === "month") {
+      const d = new Date(t);
+      t = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+    } else t += (range.bucket === "week" ? 7 : 1) * DAY_MS;
+  }
+  return out;
+}
+
+const inRange = (r: Report, range: Range) => {
+  const day = r.createdAt.slice(0, 10);
+  return day >= range.from && day <= range.to;
+};
+
+/** Report counts per bucket for every key `keysOf` assigns (a report may count under several keys, or none). */
+export function timeSeries(reports: Report[], range: Range, keysOf: (r: Report) => string[]): TimeSeries {
+  const buckets = bucketsIn(range);
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const byKey = new Map<string, number[]>();
+  for (const r of incidents(reports)) {
+    if (!inRange(r, range)) continue;
+    const i = index.get(bucketOf(r.createdAt, range.bucket))!;
+    for (const key of keysOf(r)) {
+      if (!byKey.has(key)) byKey.set(key, buckets.map(() => 0));
+      byKey.get(key)![i]++;
+    }
+  }
+  const series = Array.from(byKey, ([key, counts]) => ({ key, counts, total: counts.reduce((a, b) => a + b, 0) }));
+  return { buckets, series: series.sort((a, b) => b.total - a.total || a.key.localeCompare(b.key)) };
+}
+
+export const byCategory = (r: Report) => [r.category];
+// hazard labels in checklist order; reports filed without a checklist have none
+export const byHazard = (r: Report) => HAZARDS.filter(([k]) => r.checklist?.hazards[k]).map(([, label]) => label);
+
+/** How many reports reached each main-path state (directly or by moving past it), then how many branched off. */
+export function statusFunnel(reports: Report[]): FunnelStep[] {
+  const rs = incidents(reports);
+  const furthest = (r: Report) => Math.max(...r.history.map((h) => (STATUSES as readonly string[]).indexOf(h.state)), (STATUSES as readonly string[]).indexOf(r.status));
+  return [
+    ...STATUSES.slice(1).map((state, i) => ({ state, reports: rs.filter((r) => furthest(r) >= i + 1).length })),
+    ...BRANCH_STATUSES.filter((s) => s !== "Duplicate").map((state) => ({ state, reports: rs.filter((r) => r.history.some((h) => h.state === state)).length })),
+  ];
+}
+
+/** Hours from submission to the first Resolved entry; null while unresolved. */
+export function hoursToResolve(r: Report): number | null {
+  const resolved = r.history.find((h) => h.state === "Resolved");
+  if (!resolved) return null;
+  const start = r.history.find((h) => h.state === "Submitted")?.at ?? r.createdAt;
+  return Math.max(0, (Date.parse(resolved.at) - Date.parse(start)) / 3600e3);
+}
+
+export function quantile(xs: number[], q: number): number | null {
+  if (!xs.length) return null;
+  const s = [...xs].sort((a, b) => a - b);
+  const pos = (s.length - 1) * q;
+  const lo = Math.floor(pos);
+  return s[lo] + (s[Math.min(lo + 1, s.length - 1)] - s[lo]) * (pos - lo);
+}
+export const median = (xs: number[]) => quantile(xs, 0.5);
+
+function resolution(key: string, rs: Report[]): ResolutionStats {
+  const hours = rs.map(hoursToResolve).filter((h): h is number => h !== null);
+  const closed = rs.filter((r) => r.status === "Resolved" || r.status === "Rejected").length;
+  return { key, reports: rs.length, resolved: hours.length, open: rs.length - closed, medianH: median(hours), p90H: quantile(hours, 0.9) };
+}
+
+/** Resolution times per key (e.g. category), for reports filed in the range; sorted by report count. */
+export function resolutionBy(reports: Report[], range: Range, keyOf: (r: Report) => string = (r) => r.category): ResolutionStats[] {
+  const groups = new Map<string, Report[]>();
+  for (const r of incidents(reports)) if (inRange(r, range)) groups.set(keyOf(r), [...(groups.get(keyOf(r)) || []), r]);
+  return Array.from(groups, ([key, rs]) => resolution(key, rs)).sort((a, b) => b.reports - a.reports || a.key.localeCompare(b.key));
+}
+
+/** Areas ranked by reports filed in the range; reports without a known place are grouped as "Unknown". */
+export function hotspots(reports: Report[], range: Range, level: "district" | "region" = "district", limit = 10): Hotspot[] {
+  const groups = new Map<string, Report[]>();
+  for (const r of incidents(reports)) {
+    if (!inRange(r, range)) continue;
+    const area = (level === "district" ? r.place?.district : r.place?.region) || "Unknown";
+    groups.set(area, [...(groups.get(area) || []), r]);
+  }
+  return Array.from(groups, ([area, rs]) => {
+    const { reports, open, resolved, medianH } = resolution(area, rs);
+    return { area, region: level === "district" ? rs.find((r) => r.place?.region)?.place?.region || "" : area, reports, open, resolved, medianH };
+  })
+    .sort((a, b) => b.reports - a.reports || b.open - a.open || a.area.localeCompare(b.area))
+    .slice(0, limit);
+}
+
+// ---- CSV ----
+// Column headers default to stable machine names; the analytics tab passes translated ones.
+const hrs = (h: number | null) => (h === null ? "" : h.toFixed(1));
+
+export const timeSeriesCSV = (ts: TimeSeries, bucketHeader = "bucket") =>
+  [csvLine([bucketHeader, ...ts.series.map((s) => s.key)]), ...ts.buckets.map((b, i) => csvLine([b, ...ts.series.map((s) => s.counts[i])]))].join("\r\n") + "\r\n";
+
+export const funnelCSV = (steps: FunnelStep[], header = ["status", "reports"]) =>
+  [csvLine(header), ...steps.map((s) => csvLine([s.state, s.reports]))].join("\r\n") + "\r\n";
+
+export const resolutionCSV = (rows: ResolutionStats[], header = ["key", "reports", "resolved", "open", "medianHours", "p90Hours"]) =>
+  [csvLine(header), ...rows.map((r) => csvLine([r.key, r.reports, r.resolved, r.open, hrs(r.medianH), hrs(r.p90H)]))].join("\r\n") + "\r\n";
+
+export const hotspotsCSV = (rows: Hotspot[], header = ["area", "region", "reports", "open", "resolved", "medianHoursToResolve"]) =>
+  [csvLine(header), ...rows.map((h) => csvLine([h.area, h.region, h.reports, h.open, h.resolved, hrs(h.medianH)]))].join("\r\n") + "\r\n";
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+// The core runs anywhere (tests, service worker, an SMS gateway): no UI framework, no browser-only storage,
+// and nothing imported from the app around it.
+const sources = import.meta.glob<string>(["./**/*.ts", "!./**/*.test.ts"], { query: "?raw", import: "default", eager: true });
+const imports = (src: string) => [...src.matchAll(/(?:from|import)\s*\(?\s*["']([^"']+)["']/g)].map((m) => m[1]);
+
+describe("core boundary", () => {
+  it("covers every core module", () => {
+    expect(Object.keys(sources)).toEqual(expect.arrayContaining(["./index.ts", "./report.ts", "./safe-upload.ts", "./store.ts"]));
+  });
+
+  it("imports nothing from the app or a UI framework", () => {
+    for (const [file, src] of Object.entries(sources)) {
+      for (const spec of imports(src)) {
+        expect(spec, `${file} imports ${spec}`).not.toMatch(/^(\.\.\/|react|leaflet)/);
+      }
+    }
+  });
+
+  it("does not touch browser-only APIs", () => {
+    for (const [file, src] of Object.entries(sources)) {
+      expect(src, file).not.toMatch(/\b(indexedDB|localStorage|document\.|window\.|navigator\.)/);
+    }
+  });
+});
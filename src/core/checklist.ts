@@ -0,0 +1,63 @@
+import type { Checklist } from "./types";
+import { translate, type Lang, type MessageKey } from "./i18n";
+
+// Report categories and the Simple Checklist Mode vocabulary.
+// Codes and list order are part of the SMS format (sms.ts): append new entries, never reorder or reuse them.
+
+// `type`: the matching checklist activity, ticked when a category is picked in a menu flow (ussd.ts).
+export const CATEGORIES: { code: string; label: string; type: string }[] = [
+  { code: "R", label: "River dredging", type: "riverDredging" },
+  { code: "E", label: "Excavator in reserve", type: "excavator" },
+  { code: "C", label: "Chemical use", type: "chemical" },
+  { code: "N", label: "Night trucking", type: "trucking" },
+  { code: "P", label: "Pit hazard near school", type: "pitHazard" },
+  { code: "O", label: "Other", type: "other" },
+];
+export const CHECKLIST_CATEGORY = { code: "K", label: "(checklist)" };
+
+export const ACTIVITY_TYPES: [key: string, label: string][] = [
+  ["riverDredging", "River dredging"],
+  ["excavator", "Excavator in reserve"],
+  ["chemical", "Chemical use"],
+  ["trucking", "Night trucking"],
+  ["pitHazard", "Pit hazard"],
+  ["other", "Other"],
+];
+export const HAZARDS: [key: string, label: string][] = [
+  ["mercury", "Chemicals / mercury"],
+  ["riverSilt", "River siltation"],
+  ["noise", "Noise at night"],
+  ["smoke", "Burning / smoke"],
+  ["publicRisk", "Open pits near public"],
+];
+export const TIMES_OF_DAY = ["Morning", "Afternoon", "Evening", "Night"];
+export const RISK_LEVELS = ["Low", "Medium", "High"];
+
+// Pictures shown next to every checklist option (and its audio prompt) for people who can't read the label.
+export const CHECKLIST_ICONS: Record<string, string> = {
+  riverDredging: "🚤", excavator: "🚜", chemical: "🧪", trucking: "🚚", pitHazard: "🕳️", other: "❓",
+  mercury: "☠️", riverSilt: "🟤", noise: "🔊", smoke: "🔥", publicRisk: "⚠️",
+  Morning: "🌅", Afternoon: "☀️", Evening: "🌇", Night: "🌙",
+  Low: "🟢", Medium: "🟠", High: "🔴",
+};
+
+// catalog keys for the checklist vocabulary (i18n.ts)
+export const typeKey = (k: string) => `type.${k}` as MessageKey;
+export const hazardKey = (k: string) => `hazard.${k}` as MessageKey;
+export const timeKey = (t: string) => `time.${t}` as MessageKey;
+export const riskKey = (r: string) => `risk.${r}` as MessageKey;
+
+export const EMPTY_CHECKLIST: Checklist = { types: {}, hazards: {}, time: "", risk: "" };
+
+/** The summary line a checklist report's description starts with, in the reporter's language. */
+export function checklistText(chk: Checklist, lang: Lang = "en") {
+  const sel = (o: Record<string, boolean>, key: (k: string) => MessageKey) =>
+    Object.keys(o).filter((k) => o[k]).map((k) => translate(lang, key(k))).join(", ") || translate(lang, "checklist.none");
+  const unspecified = translate(lang, "checklist.unspecified");
+  return translate(lang, "checklist.summary", {
+    types: sel(chk.types, typeKey),
+    hazards: sel(chk.hazards, hazardKey),
+    time: chk.time ? translate(lang, timeKey(chk.time)) : unspecified,
+    risk: chk.risk ? translate(lang, riskKey(chk.risk)) : unspecified,
+  });
+}
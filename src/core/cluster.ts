@@ -0,0 +1,34 @@
+/**
+ * Grid clustering in Web Mercator pixel space: points whose pixels fall in the same cell at a zoom level
+ * become one cluster. Pure, so it runs the same on the map and in tests.
+ */
+
+export type Cluster<T> = { lat: number; lon: number; items: T[]; bounds: [[number, number], [number, number]] };
+
+const TILE_PX = 256;
+export function toPixel(lat: number, lon: number, zoom: number) {
+  const scale = TILE_PX * 2 ** zoom;
+  const s = Math.sin((Math.max(-85.05, Math.min(85.05, lat)) * Math.PI) / 180);
+  return { x: ((lon + 180) / 360) * scale, y: (0.5 - Math.log((1 + s) / (1 - s)) / (4 * Math.PI)) * scale };
+}
+
+export function clusterPoints<T extends { lat: number; lon: number }>(points: T[], zoom: number, cellPx = 60): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+  for (const p of points) {
+    const { x, y } = toPixel(p.lat, p.lon, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(p);
+    else cells.set(key, [p]);
+  }
+  return Array.from(cells.values(), (items) => {
+    const lats = items.map((p) => p.lat);
+    const lons = items.map((p) => p.lon);
+    return {
+      lat: lats.reduce((a, b) => a + b, 0) / items.length,
+      lon: lons.reduce((a, b) => a + b, 0) / items.length,
+      items,
+      bounds: [[Math.min(...lats), Math.min(...lons)], [Math.max(...lats), Math.max(...lons)]],
+    };
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { toRad } from "./geo";
+import { EMPTY_DRAFT, buildReport } from "./report";
+import { MergeError, corroboration, findSites, mergeSite } from "./corroborate";
+import type { Media, Report } from "./types";
+
+const SITE = { lat: 6.2012, lon: -1.6913 };
+// a report `m` metres east of the site, `h` hours after the first one
+const report = (id: string, m: number, h = 0, category = "River dredging", media: Media[] = []): Report => ({
+  ...buildReport(
+    {
+      ...EMPTY_DRAFT, category, description: `${category} (${id})`, media,
+      gps: { lat: SITE.lat, lon: SITE.lon + m / (111320 * Math.cos(toRad(SITE.lat))), accuracy: 10 },
+    },
+    { id, now: new Date(Date.parse("2026-03-02T08:00:00Z") + h * 3600e3) }
+  )!,
+  status: "Received",
+});
+const photo = (id: string): Media => ({ id, type: "image", name: `${id}.jpg`, blob: new Blob([id], { type: "image/jpeg" }) });
+
+describe("same-site detection", () => {
+  it("chains nearby filings of the same activity into one site", () => {
+    // c is too far from a, but close to b
+    const rs = [report("a", 0), report("b", 350, 5), report("c", 700, 10), report("other", 100, 1, "Night trucking"), report("late", 0, 100)];
+    const sites = findSites(rs);
+    expect(sites.get("c")).toEqual({ leadId: "a", ids: ["a", "b", "c"], count: 3 });
+    expect(sites.get("a")).toBe(sites.get("c"));
+    expect(sites.has("other")).toBe(false);
+    expect(sites.has("late")).toBe(false);
+    expect(corroboration(rs[3], sites)).toBe(1);
+  });
+
+  it("leaves duplicates and rejected reports out", () => {
+    const sites = findSites([report("a", 0), { ...report("b", 50), status: "Rejected" }]);
+    expect(sites.size).toBe(0);
+  });
+});
+
+describe("mergeSite", () => {
+  const AT = "2026-03-03T09:00:00Z";
+
+  it("moves the media onto the lead and marks the others Duplicate", () => {
+    const rs = [report("a", 0, 0, "River dredging", [photo("pa")]), report("b", 200, 2, "River dredging", [photo("pb1"), photo("pb2")])];
+    const [lead, dup] = mergeSite(rs, "a", ["a", "b"], { by: "Officer A", at: AT });
+    expect(lead.media.map((m) => m.name)).toEqual(["pa.jpg", "pb1.jpg", "pb2.jpg"]);
+    expect(lead.media.slice(1).some((m) => m.id === "pb1" || m.id === "pb2")).toBe(false);
+    expect(lead.merged).toEqual([expect.objectContaining({ id: "b", description: rs[1].description, media: lead.media.slice(1).map((m) => m.id) })]);
+    expect(lead.notes?.[lead.notes.length - 1]).toMatchObject({ at: AT, by: "Officer A", text: "Merged 1 report(s) of the same site: b" });
+    expect(dup).toMatchObject({ id: "b", status: "Duplicate", duplicateOf: "a", media: [] });
+    expect(dup.history[dup.history.length - 1]).toEqual({ state: "Duplicate", at: AT, by: "Officer A", note: "Merged into a" });
+    // the merged filing still counts towards the site
+    expect(corroboration(lead, findSites([lead, dup]))).toBe(2);
+  });
+
+  it("refuses reports that can no longer become Duplicate, or whose media isn't loaded", () => {
+    const rs = [report("a", 0), { ...report("b", 100), status: "Resolved" as const }, report("c", 100, 0, "River dredging", [{ ...photo("pc"), blob: undefined }])];
+    expect(() => mergeSite(rs, "a", ["a", "b"], { by: "Officer A" })).toThrow(MergeError);
+    expect(() => mergeSite(rs, "a", ["a", "c"], { by: "Officer A" })).toThrow(/not loaded/);
+    expect(() => mergeSite(rs, "gone", ["a"], { by: "Officer A" })).toThrow(MergeError);
+  });
+});
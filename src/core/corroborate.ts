@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from "uuid";
+import type { MergedReport, Report } from "./types";
+import { haversine } from "./geo";
+import { CATEGORIES } from "./checklist";
+import { addNote, rulesFrom, transition } from "./status";
+
+/**
+ * Same-site detection and incident merging
+ * - Two reports match when their raw GPS points are within MATCH.radiusM (widened by their GPS accuracy, capped),
+ *   were filed within MATCH.windowH of each other, and share an activity (category or checklist types)
+ * - Matches chain (A~B and B~C make one site), so a long stretch of river can become one site
+ * - Corroboration counts the separate filings of a site, including reports already merged into it
+ * - Merging moves every report's media onto the lead and keeps each contributor's record (description, history,
+ *   contact) under the lead's `merged`; the others end as Duplicate with `duplicateOf`
+ */
+
+export const MATCH = { radiusM: 400, maxAccuracyM: 300, windowH: 72 };
+
+export type Site = { leadId: string; ids: string[]; count: number };
+
+export class MergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MergeError";
+  }
+}
+
+// Activities a report is about: its category's checklist type plus any ticked checklist types.
+function topics(r: Report) {
+  const out = new Set(Object.keys(r.checklist?.types || {}).filter((k) => r.checklist!.types[k]));
+  const cat = CATEGORIES.find((c) => c.label === r.category);
+  if (cat) out.add(cat.type);
+  return out;
+}
+
+const overlaps = (a: Set<string>, b: Set<string>) => {
+  for (const x of a) if (b.has(x)) return true;
+  return false;
+};
+
+export function sameSite(a: Report, b: Report, m = MATCH) {
+  const hours = Math.abs(Date.parse(a.createdAt) - Date.parse(b.createdAt)) / 3600e3;
+  if (hours > m.windowH) return false;
+  const slack = Math.min(a.gps.accuracy || 0, m.maxAccuracyM) + Math.min(b.gps.accuracy || 0, m.maxAccuracyM);
+  if (haversine(a.gps.lat, a.gps.lon, b.gps.lat, b.gps.lon) > m.radiusM + slack) return false;
+  // a report with no known activity (checklist left blank) only matches another such report, so it can't chain unrelated ones
+  const ta = topics(a), tb = topics(b);
+  return ta.size || tb.size ? overlaps(ta, tb) : true;
+}
+
+const filings = (r: Report) => 1 + (r.merged?.length || 0);
+// duplicates and rejected reports no longer stand for a site
+const eligible = (r: Report) => r.status !== "Duplicate" && r.status !== "Rejected";
+
+/** Groups reports into sites; every report that is part of a site (or has merged reports) maps to it. */
+export function findSites(reports: Report[], m = MATCH): Map<string, Site> {
+  const rs = reports.filter(eligible).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const parent = rs.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  for (let i = 0; i < rs.length; i++) {
+    const until = Date.parse(rs[i].createdAt) + m.windowH * 3600e3;
+    for (let j = i + 1; j < rs.length && Date.parse(rs[j].createdAt) <= until; j++) {
+      if (sameSite(rs[i], rs[j], m)) parent[root(j)] = root(i);
+    }
+  }
+  const groups = new Map<number, Report[]>();
+  rs.forEach((r, i) => groups.set(root(i), [...(groups.get(root(i)) || []), r]));
+
+  const out = new Map<string, Site>();
+  for (const g of groups.values()) {
+    if (g.length < 2 && !g[0].merged?.length) continue;
+    // an earlier merge's lead stays the lead; otherwise the first report filed
+    const lead = g.find((r) => r.merged?.length) || g[0];
+    const site = { leadId: lead.id, ids: g.map((r) => r.id), count: g.reduce((n, r) => n + filings(r), 0) };
+    g.forEach((r) => out.set(r.id, site));
+  }
+  return out;
+}
+
+export const corroboration = (r: Report, sites: Map<string, Site>) => sites.get(r.id)?.count ?? filings(r);
+
+/**
+ * Merges `ids` into the lead as one incident and returns the changed reports (lead first).
+ * Throws MergeError if any of them can no longer be marked Duplicate or its media isn't loaded.
+ */
+export function mergeSite(reports: Report[], leadId: string, ids: string[], opts: { by: string; at?: string }): Report[] {
+  const at = opts.at ?? new Date().toISOString();
+  const lead = reports.find((r) => r.id === leadId);
+  if (!lead) throw new MergeError("The lead report no longer exists.");
+  const others = ids.filter((id) => id !== leadId).map((id) => reports.find((r) => r.id === id)!).filter(Boolean);
+  const stuck = others.find((r) => !rulesFrom(r.status, "authority").some((x) => x.to === "Duplicate"));
+  if (stuck) throw new MergeError(`A report in status ${stuck.status} cannot be merged.`);
+  // media without its bytes loaded would be dropped by the move
+  if (others.some((r) => r.media.some((x) => !x.blob))) throw new MergeError("Some media is not loaded on this device yet, so the reports cannot be merged.");
+
+  const merged: MergedReport[] = [];
+  const media = [...lead.media];
+  const dups = others.map((r) => {
+    // fresh ids: the stored blobs move with their new owner, and the old rows go with the duplicate's media list
+    const moved = r.media.map((x) => ({ ...x, id: uuidv4() }));
+    media.push(...moved);
+    merged.push({
+      id: r.id, createdAt: r.createdAt, category: r.category, description: r.description, gps: r.gps,
+      history: r.history, anonymous: r.anonymous, contact: r.contact, rewardOptIn: r.rewardOptIn,
+      media: moved.map((x) => x.id),
+    });
+    const dup = transition(r, "Duplicate", { actor: "authority", by: opts.by, reason: `Merged into ${leadId}`, at });
+    return { ...dup, media: [], duplicateOf: leadId };
+  });
+
+  const all = [...(lead.merged || []), ...merged].sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+  const next = addNote({ ...lead, media, merged: all }, `Merged ${others.length} report(s) of the same site: ${others.map((r) => r.id).join(", ")}`, opts.by, at);
+  return [next, ...dups];
+}
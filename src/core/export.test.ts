@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { haversine } from "./geo";
+import { cellOf, CELL_LADDER_M } from "./obfuscate";
+import { EMPTY_DRAFT, buildReport } from "./report";
+import { exportReports, toCSV, toExportRecord } from "./export";
+import { readZip } from "./zip";
+import type { Report } from "./types";
+
+const BASE = cellOf(6.3, -1.98, 1);
+const report = (id: string, lat = BASE.lat, lon = BASE.lon): Report => ({
+  ...buildReport(
+    {
+      ...EMPTY_DRAFT, category: "Chemical use", description: "Mercury, \"near\" the stream", anonymous: false,
+      contact: { phone: "0244000000", email: "", wantsCallback: true, preferredTime: "" },
+      media: [{ id: `${id}-m`, type: "image", name: "site.jpg", blob: new Blob([`photo ${id}`], { type: "image/jpeg" }) }],
+      gps: { lat, lon, accuracy: 8 },
+    },
+    { id, now: new Date("2026-03-02T08:00:00Z") }
+  )!,
+  history: [{ state: "Queued", at: "2026-03-02T08:00:00Z" }, { state: "Received", at: "2026-03-02T09:00:00Z", by: "Officer A", note: "Called back" }],
+  assignee: { kind: "team", name: "Western task force" },
+  zones: ["school-1"],
+  place: { region: "Western", district: "Tarkwa-Nsuaem Municipal", near: "Tarkwa", km: 2, dir: "NE", approx: false },
+});
+
+describe("export", () => {
+  it("strips contact, media, actors and the raw point from the public profile", async () => {
+    const r = report("r1");
+    const pub = await toExportRecord(r, "public");
+    expect(pub).toEqual({
+      id: "r1", createdAt: r.createdAt, category: "Chemical use", description: r.description, status: r.status,
+      priority: "normal", region: "Western", district: "Tarkwa-Nsuaem Municipal",
+      lat: r.publicOffset.lat, lon: r.publicOffset.lon, uncertaintyM: r.blurRadius,
+      history: [{ state: "Queued", at: "2026-03-02T08:00:00Z" }, { state: "Received", at: "2026-03-02T09:00:00Z" }],
+    });
+    const priv = await toExportRecord(r, "private");
+    expect(priv).toMatchObject({ lat: r.gps.lat, lon: r.gps.lon, uncertaintyM: 8, contact: r.contact, assignee: "team: Western task force", near: "2 km NE of Tarkwa, Tarkwa-Nsuaem Municipal, Western Region" });
+    expect(priv.media).toEqual([expect.objectContaining({ mime: "image/jpeg", file: `media/${priv.media![0].sha256}.jpg` })]);
+    expect(toCSV([pub], "public").split("\r\n")[0]).not.toMatch(/phone|email|media/);
+    expect(toCSV([priv], "private")).toContain('"Mercury, ""near"" the stream"');
+  });
+
+  it("leaves out public reports too few others share an area with", async () => {
+    const far = CELL_LADDER_M[CELL_LADDER_M.length - 1] * 3 / 111320;
+    const rs = [report("a"), report("b"), report("c"), report("lone", BASE.lat + far)];
+    const { blob, filename, suppressed } = await exportReports(rs, { format: "geojson", profile: "public", bundleMedia: true });
+    expect(suppressed).toBe(1);
+    expect(filename).toMatch(/^galamsey_reports_public_\d{4}-\d{2}-\d{2}\.geojson$/);
+    const fc = JSON.parse(await blob.text());
+    expect(fc.features.map((f: any) => f.id)).toEqual(["a", "b", "c"]);
+    // the shared cell, not any report's own point
+    const [lon, lat] = fc.features[0].geometry.coordinates;
+    expect(haversine(lat, lon, BASE.lat, BASE.lon)).toBeLessThanOrEqual(fc.features[0].properties.uncertaintyM);
+    expect(fc.features[0].properties.contact).toBeUndefined();
+  });
+
+  it("bundles each private media file once, by hash", async () => {
+    const r = report("r1");
+    const twin = { ...report("r2"), media: r.media };
+    const { blob, filename } = await exportReports([r, twin], { format: "csv", profile: "private", bundleMedia: true });
+    expect(filename).toMatch(/\.zip$/);
+    const files = [...(await readZip(blob)).keys()];
+    expect(files).toHaveLength(2);
+    expect(files[1]).toMatch(/^media\/[0-9a-f]{64}\.jpg$/);
+  });
+});
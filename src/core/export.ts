@@ -0,0 +1,205 @@
+import type { Report } from "./types";
+import { sha256Hex } from "./hash";
+import { makeZip, type ZipEntry } from "./zip";
+import { zoneNames } from "./geofence";
+import { describePlace } from "./gazetteer";
+import { publicLocations, type PublicLocation } from "./obfuscate";
+
+/**
+ * Bulk export: GeoJSON FeatureCollection, KML (Google Earth) and CSV
+ * - "public": grid-snapped public point only (k-anonymous over the exported set; sparse reports are left out);
+ *   no contact, media, actors, notes or raw GPS
+ * - "private" (authorities): raw GPS + accuracy, contact, assignment, protected areas, full history, media referenced by SHA-256
+ * - Priority, region and district are in both; zone names and "near <town>" are private because they narrow the location
+ * - With `bundleMedia`, a zip carries the data file plus media/<sha256>.<ext>
+ */
+
+export type ExportFormat = "geojson" | "kml" | "csv";
+export type ExportProfile = "public" | "private";
+export type ExportOptions = { format: ExportFormat; profile: ExportProfile; bundleMedia: boolean };
+
+type MediaRef = { sha256: string; type: string; name: string; mime: string; size: number; file?: string };
+export type ExportRecord = {
+  id: string;
+  createdAt: string;
+  category: string;
+  description: string;
+  status: string;
+  priority: string;
+  region: string;
+  district: string;
+  lat: number;
+  lon: number;
+  // public profile: radius within which the true point lies; private: GPS accuracy
+  uncertaintyM: number;
+  history: { state: string; at: string; by?: string; note?: string }[];
+  contact?: Report["contact"];
+  assignee?: string;
+  zones?: string[];
+  near?: string;
+  media?: MediaRef[];
+};
+
+const EXT: Record<string, string> = {
+  "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp",
+  "video/mp4": "mp4", "video/webm": "webm", "video/quicktime": "mov",
+  "audio/mpeg": "mp3", "audio/mp4": "m4a", "audio/webm": "weba", "audio/ogg": "ogg", "audio/wav": "wav",
+};
+// media blobs are immutable, so each is hashed once per session
+const hashes = new WeakMap<Blob, Promise<string>>();
+const blobHash = (b: Blob) => {
+  if (!hashes.has(b)) hashes.set(b, sha256Hex(b));
+  return hashes.get(b)!;
+};
+const mediaFile = (m: MediaRef) => `media/${m.sha256}.${EXT[m.mime] || "bin"}`;
+
+/** `loc` is the report's public location within the exported set (see `publicLocations`); defaults to its own cell. */
+export async function toExportRecord(r: Report, profile: ExportProfile, loc?: PublicLocation): Promise<ExportRecord> {
+  const base = {
+    id: r.id, createdAt: r.createdAt, category: r.category, description: r.description, status: r.status,
+    priority: r.priority || "normal", region: r.place?.region || "", district: r.place?.district || "",
+  };
+  if (profile === "public") {
+    return {
+      ...base,
+      lat: loc?.lat ?? r.publicOffset.lat,
+      lon: loc?.lon ?? r.publicOffset.lon,
+      uncertaintyM: loc?.radiusM ?? r.blurRadius,
+      history: r.history.map(({ state, at }) => ({ state, at })),
+    };
+  }
+  const media: MediaRef[] = [];
+  for (const m of r.media) {
+    if (!m.blob) continue;
+    media.push({ sha256: await blobHash(m.blob), type: m.type, name: m.name, mime: m.blob.type, size: m.blob.size });
+  }
+  return {
+    ...base,
+    lat: r.gps.lat,
+    lon: r.gps.lon,
+    uncertaintyM: Math.round(r.gps.accuracy || 0),
+    history: r.history,
+    contact: r.contact,
+    assignee: r.assignee ? `${r.assignee.kind}: ${r.assignee.name}` : "",
+    zones: zoneNames(r.zones),
+    near: describePlace(r.place),
+    media: media.map((m) => ({ ...m, file: mediaFile(m) })),
+  };
+}
+
+// ---- Formats ----
+export function toGeoJSON(records: ExportRecord[], profile: ExportProfile) {
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      properties: { profile, exportedAt: new Date().toISOString() },
+      features: records.map(({ lat, lon, ...props }) => ({
+        type: "Feature",
+        id: props.id,
+        geometry: { type: "Point", coordinates: [lon, lat] },
+        properties: props,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const xml = (s: string) => s.replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+
+export function toKML(records: ExportRecord[], profile: ExportProfile) {
+  const placemarks = records.map((r) => {
+    const data: [string, string][] = [
+      ["id", r.id], ["status", r.status], ["priority", r.priority], ["region", r.region], ["district", r.district], ["createdAt", r.createdAt], ["uncertaintyM", String(r.uncertaintyM)],
+      ...(r.contact ? ([["phone", r.contact.phone || ""], ["email", r.contact.email || ""]] as [string, string][]) : []),
+      ...(r.assignee ? ([["assignee", r.assignee]] as [string, string][]) : []),
+      ...(r.zones?.length ? ([["zones", r.zones.join("; ")]] as [string, string][]) : []),
+      ...(r.near ? ([["near", r.near]] as [string, string][]) : []),
+      ...(r.media?.length ? ([["media", r.media.map((m) => m.file).join(" ")]] as [string, string][]) : []),
+    ];
+    return `    <Placemark>
+      <name>${xml(r.category)}</name>
+      <description>${xml(r.description)}</description>
+      <TimeStamp><when>${r.createdAt}</when></TimeStamp>
+      <ExtendedData>
+${data.map(([k, v]) => `        <Data name="${k}"><value>${xml(v)}</value></Data>`).join("\n")}
+      </ExtendedData>
+      <Point><coordinates>${r.lon},${r.lat},0</coordinates></Point>
+    </Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Galamsey reports (${profile})</name>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+const csvCell = (v: unknown) => {
+  const s = v == null ? "" : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+export const csvLine = (cells: unknown[]) => cells.map(csvCell).join(",");
+
+export function toCSV(records: ExportRecord[], profile: ExportProfile) {
+  const cols: [string, (r: ExportRecord) => unknown][] = [
+    ["id", (r) => r.id],
+    ["createdAt", (r) => r.createdAt],
+    ["category", (r) => r.category],
+    ["status", (r) => r.status],
+    ["priority", (r) => r.priority],
+    ["region", (r) => r.region],
+    ["district", (r) => r.district],
+    ["lat", (r) => r.lat.toFixed(6)],
+    ["lon", (r) => r.lon.toFixed(6)],
+    ["uncertaintyM", (r) => r.uncertaintyM],
+    ["description", (r) => r.description],
+    ...(profile === "private"
+      ? ([
+          ["phone", (r) => r.contact?.phone],
+          ["email", (r) => r.contact?.email],
+          ["assignee", (r) => r.assignee],
+          ["zones", (r) => r.zones?.join("; ")],
+          ["near", (r) => r.near],
+          ["media", (r) => r.media?.map((m) => m.sha256).join(";")],
+        ] as [string, (r: ExportRecord) => unknown][])
+      : []),
+  ];
+  const lines = [cols.map(([h]) => h).join(","), ...records.map((r) => csvLine(cols.map(([, f]) => f(r))))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+const FORMATS: Record<ExportFormat, { fn: (r: ExportRecord[], p: ExportProfile) => string; ext: string; mime: string }> = {
+  geojson: { fn: toGeoJSON, ext: "geojson", mime: "application/geo+json" },
+  kml: { fn: toKML, ext: "kml", mime: "application/vnd.google-earth.kml+xml" },
+  csv: { fn: toCSV, ext: "csv", mime: "text/csv" },
+};
+
+/**
+ * Builds the export file (or zip with media when bundling in the private profile).
+ * `suppressed` counts public-profile reports left out because too few others share their area.
+ */
+export async function exportReports(reports: Report[], opts: ExportOptions): Promise<{ blob: Blob; filename: string; suppressed: number }> {
+  const locs = opts.profile === "public" ? publicLocations(reports) : null;
+  const kept = locs ? reports.filter((r) => locs.get(r.id)) : reports;
+  const suppressed = reports.length - kept.length;
+  const records = await Promise.all(kept.map((r) => toExportRecord(r, opts.profile, locs?.get(r.id))));
+  const f = FORMATS[opts.format];
+  const stamp = new Date().toISOString().slice(0, 10);
+  const name = `galamsey_reports_${opts.profile}_${stamp}`;
+  const body = f.fn(records, opts.profile);
+  if (!(opts.bundleMedia && opts.profile === "private")) return { blob: new Blob([body], { type: f.mime }), filename: `${name}.${f.ext}`, suppressed };
+
+  const entries: ZipEntry[] = [{ name: `${name}.${f.ext}`, data: body }];
+  const seen = new Set<string>();
+  for (const r of reports) {
+    for (const m of r.media) {
+      if (!m.blob) continue;
+      const file = mediaFile({ sha256: await blobHash(m.blob), type: m.type, name: m.name, mime: m.blob.type, size: m.blob.size });
+      if (!seen.has(file)) { seen.add(file); entries.push({ name: file, data: m.blob }); }
+    }
+  }
+  return { blob: await makeZip(entries), filename: `${name}.zip`, suppressed };
+}
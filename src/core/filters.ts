@@ -0,0 +1,25 @@
+import type { Report } from "./types";
+import { ZONE_KINDS, zoneById } from "./geofence";
+
+// Shared by the report list, exports and the map; empty fields match everything. Dates are inclusive days (YYYY-MM-DD).
+// `zone`: "any" = inside any protected area, a zone kind (e.g. "forest"), or a single zone id.
+export type ReportFilter = { category: string; status: string; from: string; to: string; zone: string };
+export const NO_FILTER: ReportFilter = { category: "", status: "", from: "", to: "", zone: "" };
+
+function matchesZone(r: Report, zone: string) {
+  const ids = r.zones || [];
+  if (zone === "any") return ids.length > 0;
+  if (zone in ZONE_KINDS) return ids.some((id) => zoneById(id)?.kind === zone);
+  return ids.includes(zone);
+}
+
+export function matchesFilter(r: Report, f: ReportFilter) {
+  const day = r.createdAt.slice(0, 10);
+  return (
+    (!f.category || r.category === f.category) &&
+    (!f.status || r.status === f.status) &&
+    (!f.from || day >= f.from) &&
+    (!f.to || day <= f.to) &&
+    (!f.zone || matchesZone(r, f.zone))
+  );
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { describePlace, reverseGeocode } from "./gazetteer";
+
+describe("offline gazetteer", () => {
+  it("names the nearest town, with distance and direction", () => {
+    expect(reverseGeocode(6.688 + 0.004, -1.624)).toMatchObject({ region: "Ashanti", district: "Kumasi Metropolitan", near: "Kumasi", dir: "N", approx: true });
+    const place = reverseGeocode(6.688, -1.624 + 0.1)!;
+    expect(place).toMatchObject({ near: "Kumasi", dir: "E" });
+    expect(describePlace(place)).toBe(`${place.km} km E of Kumasi, Kumasi Metropolitan (approx.), Ashanti Region`);
+    expect(describePlace(reverseGeocode(6.688, -1.624))).toBe("In Kumasi, Kumasi Metropolitan (approx.), Ashanti Region");
+  });
+
+  it("places nothing far from every settlement", () => {
+    expect(reverseGeocode(2, -1)).toBeNull();
+    expect(describePlace(null)).toBe("");
+  });
+});
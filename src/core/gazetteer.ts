@@ -0,0 +1,61 @@
+import type { Locality, Report } from "./types";
+import { bearing, compass, haversine, pointInPolygon, type Ring } from "./geo";
+import bundled from "./data/gazetteer.json";
+
+/**
+ * Offline gazetteer
+ * - Region/district by point-in-polygon when boundary polygons are bundled (`areas`)
+ * - Otherwise the nearest settlement's district and region, flagged `approx`
+ * - "near <town>" is the closest settlement within MAX_NEAR_KM, with distance and compass direction
+ */
+
+export type Settlement = { name: string; lat: number; lon: number; district: string; region: string };
+type Area = { district?: string; region: string; polygons: Ring[][] };
+export type Gazetteer = { places: Settlement[]; areas: Area[] };
+
+export const MAX_NEAR_KM = 50;
+
+export function parseGazetteer(data: any): Gazetteer {
+  const areas: Area[] = [];
+  for (const f of data?.areas?.features || []) {
+    const g = f.geometry;
+    if (!f.properties?.region || (g?.type !== "Polygon" && g?.type !== "MultiPolygon")) continue;
+    areas.push({ district: f.properties.district, region: f.properties.region, polygons: g.type === "Polygon" ? [g.coordinates] : g.coordinates });
+  }
+  return { places: data?.places || [], areas };
+}
+
+export const GAZETTEER = parseGazetteer(bundled);
+
+export function reverseGeocode(lat: number, lon: number, gaz: Gazetteer = GAZETTEER): Locality | null {
+  let nearest: Settlement | null = null;
+  let best = Infinity;
+  for (const p of gaz.places) {
+    const d = haversine(lat, lon, p.lat, p.lon);
+    if (d < best) { best = d; nearest = p; }
+  }
+  const km = best / 1000;
+  const close = nearest && km <= MAX_NEAR_KM ? nearest : null;
+
+  const inside = (a: Area) => a.polygons.some((poly) => pointInPolygon(lat, lon, poly));
+  const district = gaz.areas.find((a) => a.district && inside(a));
+  const region = district || gaz.areas.find((a) => !a.district && inside(a));
+  if (!region && !close) return null;
+  return {
+    region: region?.region ?? close!.region,
+    district: district?.district ?? (region ? "" : close!.district),
+    near: close?.name ?? "",
+    km: close ? Math.round(km * 10) / 10 : 0,
+    dir: close ? compass(bearing(close.lat, close.lon, lat, lon)) : "",
+    approx: !district,
+  };
+}
+
+export const stampPlace = (r: Report, gaz: Gazetteer = GAZETTEER): Report => ({ ...r, place: reverseGeocode(r.gps.lat, r.gps.lon, gaz) });
+
+/** "3.2 km NE of Tarkwa, Tarkwa-Nsuaem Municipal, Western Region" */
+export function describePlace(p: Locality | null | undefined) {
+  if (!p) return "";
+  const near = !p.near ? "" : p.km < 1 ? `In ${p.near}` : `${p.km} km ${p.dir} of ${p.near}`;
+  return [near, p.district && `${p.district}${p.approx ? " (approx.)" : ""}`, `${p.region} Region`].filter(Boolean).join(", ");
+}
@@ -0,0 +1,67 @@
+// ---- Geo utilities (framework-free; shared by the page and the service worker) ----
+export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+export const km = (m: number) => (m / 1000).toFixed(2);
+export const toRad = (d: number) => (d * Math.PI) / 180;
+export const haversine = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const R = 6371e3;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// GeoJSON order: [lon, lat]. A polygon is an outer ring followed by holes.
+export type Ring = [number, number][];
+function inRing(lat: number, lon: number, ring: Ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+export const pointInPolygon = (lat: number, lon: number, poly: Ring[]) =>
+  inRing(lat, lon, poly[0]) && !poly.slice(1).some((hole) => inRing(lat, lon, hole));
+export function bearing(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const φ1 = toRad(lat1), φ2 = toRad(lat2), Δλ = toRad(lon2 - lon1);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+export const compass = (deg: number) => ["N", "NE", "E", "SE", "S", "SW", "W", "NW"][Math.round(deg / 45) % 8];
+
+// ---- Geohash ----
+const GEOHASH = "0123456789bcdefghjkmnpqrstuvwxyz";
+export function geohashEncode(lat: number, lon: number, precision = 8) {
+  const lat_ = [-90, 90], lon_ = [-180, 180];
+  let hash = "", bits = 0, ch = 0, even = true;
+  while (hash.length < precision) {
+    const [range, v] = even ? [lon_, lon] : [lat_, lat];
+    const mid = (range[0] + range[1]) / 2;
+    ch = (ch << 1) | (v >= mid ? 1 : 0);
+    if (v >= mid) range[0] = mid; else range[1] = mid;
+    even = !even;
+    if (++bits === 5) { hash += GEOHASH[ch]; bits = 0; ch = 0; }
+  }
+  return hash;
+}
+/** Cell centre plus half its height/width in degrees; null for an invalid hash. */
+export function geohashDecode(hash: string) {
+  const lat_ = [-90, 90], lon_ = [-180, 180];
+  let even = true;
+  for (const c of hash.toLowerCase()) {
+    const n = GEOHASH.indexOf(c);
+    if (n < 0) return null;
+    for (let b = 4; b >= 0; b--) {
+      const range = even ? lon_ : lat_;
+      const mid = (range[0] + range[1]) / 2;
+      if ((n >> b) & 1) range[0] = mid; else range[1] = mid;
+      even = !even;
+    }
+  }
+  if (!hash) return null;
+  return { lat: (lat_[0] + lat_[1]) / 2, lon: (lon_[0] + lon_[1]) / 2, latErr: (lat_[1] - lat_[0]) / 2, lonErr: (lon_[1] - lon_[0]) / 2 };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { priorityFor, tagZones, zonesAt, type Zone } from "./geofence";
+import type { Report } from "./types";
+
+// 0.001 degrees is about 111 m
+const names = (zs: Zone[]) => zs.map((z) => z.name);
+
+describe("protected-area geofences", () => {
+  it("finds areas, river buffers and school radii around a point", () => {
+    expect(names(zonesAt(6.2, -0.58))).toEqual(["Atewa Range Forest Reserve"]);
+    // on the River Pra line, then well outside its 100 m buffer
+    expect(names(zonesAt(6.2, -1.2))).toEqual(["River Pra buffer"]);
+    expect(zonesAt(6.2, -1.2 + 0.003)).toEqual([]);
+    expect(names(zonesAt(5.3 + 0.002, -1.99))).toEqual(["School area (sample, Tarkwa)"]);
+    expect(zonesAt(5.3 + 0.004, -1.99)).toEqual([]);
+  });
+
+  it("escalates priority by zone kind, and to urgent for mixed kinds", () => {
+    const [forest] = zonesAt(6.2, -0.58), [river] = zonesAt(6.2, -1.2), [school] = zonesAt(5.3, -1.99);
+    expect(priorityFor([])).toBe("normal");
+    expect(priorityFor([forest])).toBe("high");
+    expect(priorityFor([school])).toBe("urgent");
+    expect(priorityFor([forest, river])).toBe("urgent");
+    expect(tagZones({ gps: { lat: 6.2, lon: -1.2 } } as Report)).toMatchObject({ zones: [river.id], priority: "high" });
+  });
+});
@@ -0,0 +1,103 @@
+import type { Priority, Report, ZoneKind } from "./types";
+import { haversine, pointInPolygon, type Ring } from "./geo";
+import bundled from "./data/protected-areas.json";
+
+/**
+ * Protected-area geofences
+ * - Zones come from bundled GeoJSON: Polygon/MultiPolygon areas, LineString rivers with `bufferM`,
+ *   Point sites (schools) with `radiusM`
+ * - A report's raw `gps` is tested at submit; matching zone ids are stored on the report with an escalated priority
+ */
+
+export type Zone = {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  bbox: [number, number, number, number]; // west, south, east, north (incl. buffer)
+} & (
+  | { shape: "area"; polygons: Ring[][] }
+  | { shape: "line"; line: Ring; bufferM: number }
+  | { shape: "point"; point: [number, number]; radiusM: number }
+);
+
+export const ZONE_KINDS: Record<ZoneKind, { label: string; priority: Priority; color: string }> = {
+  forest: { label: "Forest reserve", priority: "high", color: "#15803d" },
+  river: { label: "River buffer", priority: "high", color: "#2563eb" },
+  school: { label: "School area", priority: "urgent", color: "#dc2626" },
+};
+export const PRIORITY_ORDER: Priority[] = ["normal", "high", "urgent"];
+
+const M_PER_DEG = 111320;
+const padBox = (pts: [number, number][], m: number): Zone["bbox"] => {
+  const lats = pts.map((p) => p[1]);
+  const lons = pts.map((p) => p[0]);
+  const dLat = m / M_PER_DEG;
+  const dLon = m / (M_PER_DEG * Math.cos((((Math.min(...lats) + Math.max(...lats)) / 2) * Math.PI) / 180));
+  return [Math.min(...lons) - dLon, Math.min(...lats) - dLat, Math.max(...lons) + dLon, Math.max(...lats) + dLat];
+};
+
+/** Parses a GeoJSON FeatureCollection into zones; features with unknown kinds or geometry are skipped. */
+export function parseZones(fc: any): Zone[] {
+  const zones: Zone[] = [];
+  for (const f of fc?.features || []) {
+    const p = f.properties || {};
+    if (!(p.kind in ZONE_KINDS)) continue;
+    const base = { id: String(f.id ?? p.id ?? p.name), name: p.name || String(f.id), kind: p.kind as ZoneKind };
+    const g = f.geometry;
+    if (g?.type === "Polygon" || g?.type === "MultiPolygon") {
+      const polygons: Ring[][] = g.type === "Polygon" ? [g.coordinates] : g.coordinates;
+      zones.push({ ...base, shape: "area", polygons, bbox: padBox(polygons.flatMap((poly) => poly[0]), 0) });
+    } else if (g?.type === "LineString") {
+      const bufferM = Number(p.bufferM) || 0;
+      zones.push({ ...base, shape: "line", line: g.coordinates, bufferM, bbox: padBox(g.coordinates, bufferM) });
+    } else if (g?.type === "Point") {
+      const radiusM = Number(p.radiusM) || 0;
+      zones.push({ ...base, shape: "point", point: g.coordinates, radiusM, bbox: padBox([g.coordinates], radiusM) });
+    }
+  }
+  return zones;
+}
+
+export const ZONES = parseZones(bundled);
+export const zoneById = (id: string) => ZONES.find((z) => z.id === id);
+export const zoneNames = (ids: string[] = []) => ids.map((id) => zoneById(id)?.name || id);
+
+// ---- Geometry ----
+/** Metres from a point to a polyline, using a local equirectangular projection (fine at buffer scales). */
+export function distanceToLine(lat: number, lon: number, line: Ring) {
+  const k = Math.cos((lat * Math.PI) / 180);
+  const px = lon * k, py = lat;
+  let best = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const ax = line[i - 1][0] * k, ay = line[i - 1][1];
+    const bx = line[i][0] * k, by = line[i][1];
+    const dx = bx - ax, dy = by - ay;
+    const t = dx || dy ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / (dx * dx + dy * dy))) : 0;
+    best = Math.min(best, Math.hypot(px - (ax + t * dx), py - (ay + t * dy)));
+  }
+  return best * M_PER_DEG;
+}
+
+export function zonesAt(lat: number, lon: number, zones: Zone[] = ZONES): Zone[] {
+  return zones.filter((z) => {
+    const [w, s, e, n] = z.bbox;
+    if (lon < w || lon > e || lat < s || lat > n) return false;
+    if (z.shape === "area") return z.polygons.some((poly) => pointInPolygon(lat, lon, poly));
+    if (z.shape === "line") return distanceToLine(lat, lon, z.line) <= z.bufferM;
+    return haversine(lat, lon, z.point[1], z.point[0]) <= z.radiusM;
+  });
+}
+
+/** Highest priority among the zone kinds; several different kinds at once escalate to urgent. */
+export function priorityFor(zones: Zone[]): Priority {
+  if (new Set(zones.map((z) => z.kind)).size > 1) return "urgent";
+  return zones.reduce<Priority>((p, z) => {
+    const zp = ZONE_KINDS[z.kind].priority;
+    return PRIORITY_ORDER.indexOf(zp) > PRIORITY_ORDER.indexOf(p) ? zp : p;
+  }, "normal");
+}
+
+export function tagZones(r: Report, zones: Zone[] = ZONES): Report {
+  const hits = zonesAt(r.gps.lat, r.gps.lon, zones);
+  return { ...r, zones: hits.map((z) => z.id), priority: priorityFor(hits) };
+}
@@ -0,0 +1,7 @@
+// ---- SHA-256 helpers (WebCrypto) ----
+const hex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+
+export async function sha256Hex(data: Blob | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  return hex(await crypto.subtle.digest("SHA-256", bytes));
+}
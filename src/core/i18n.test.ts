@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { LANGUAGES, translate } from "./i18n";
+import { en, type MessageKey } from "./locales/en";
+import { tw } from "./locales/tw";
+import { gaa } from "./locales/gaa";
+import { ee } from "./locales/ee";
+import { dag } from "./locales/dag";
+
+const CATALOGS = { tw, gaa, ee, dag };
+// what a reporter sees: header, report form, checklist, my reports, help and the lock screen
+const REPORTER = [
+  "app.tagline", "status.", "sync.", "tab.report", "tab.my", "tab.map", "tab.help", "tab.settings", "storage.",
+  "form.", "view.", "stealth.", "capture.", "redact.", "type.", "hazard.", "time.", "risk.", "checklist.",
+  "my.", "sms.", "import.", "export.", "filter.", "safety.", "help.", "lock.", "decoy.", "settings.language", "settings.languageNote",
+  ...["status", "ready", "locked", "release", "releaseConfirm", "manual", "noCapturePoint", "distance", "noFixYet", "progress",
+    "quietHours", "noHome", "homeNoFix", "notHome", "mobileData", "unknownConnection"].map((k) => `safe.${k}`),
+];
+const reporterKeys = (Object.keys(en) as MessageKey[]).filter((k) => REPORTER.some((p) => (p.endsWith(".") ? k.startsWith(p) : k.startsWith(p) && !/\w/.test(k[p.length] ?? ""))));
+const placeholders = (s: string) => (s.match(/\{\w+\}/g) ?? []).sort();
+
+describe("catalogs", () => {
+  it("offers every catalog", () => {
+    expect(LANGUAGES.map((l) => l.code)).toEqual(["en", ...Object.keys(CATALOGS)]);
+  });
+
+  it("translates every reporter screen", () => {
+    expect(reporterKeys).toContain("safe.unknownConnection");
+    expect(reporterKeys).not.toContain("safe.homeWifi");
+    for (const [lang, catalog] of Object.entries(CATALOGS)) {
+      expect(reporterKeys.filter((k) => !catalog[k]), lang).toEqual([]);
+    }
+  });
+
+  it("keeps the English placeholders and bold markers", () => {
+    for (const [lang, catalog] of Object.entries(CATALOGS)) {
+      for (const [k, text] of Object.entries(catalog) as [MessageKey, string][]) {
+        expect(placeholders(text), `${lang} ${k}`).toEqual(placeholders(en[k]));
+        expect(text.split("*").length, `${lang} ${k}`).toBe(en[k].split("*").length);
+      }
+    }
+  });
+
+  it("falls back to English and fills placeholders", () => {
+    expect(translate("dag", "dashboard.title")).toBe(en["dashboard.title"]);
+    expect(translate("tw", "sms.part", { n: 2, count: 3 })).toBe("Ɔfa 2/3");
+  });
+});
@@ -0,0 +1,40 @@
+import { en, type Catalog, type MessageKey } from "./locales/en";
+import { tw } from "./locales/tw";
+import { gaa } from "./locales/gaa";
+import { ee } from "./locales/ee";
+import { dag } from "./locales/dag";
+
+/**
+ * UI languages
+ * - One catalog per language in locales/; en.ts is the source and any key a catalog leaves out is shown in English
+ * - `t(key, vars)` fills `{name}` placeholders
+ * - Read-aloud prompts are played by prompts.ts in the app; LANGUAGES carries the voice tags they use
+ * - Every catalog covers the reporter's screens (header, report form, checklist, my reports, help, lock screen);
+ *   authority and settings screens may stay in English
+ */
+
+export type { MessageKey };
+export type Lang = "en" | "tw" | "gaa" | "ee" | "dag";
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+// `speech`: BCP-47 tag used to pick a synthesized voice (Twi voices usually register as Akan).
+export const LANGUAGES: { code: Lang; name: string; native: string; speech: string[] }[] = [
+  { code: "en", name: "English", native: "English", speech: ["en-GH", "en"] },
+  { code: "tw", name: "Twi", native: "Twi", speech: ["tw", "ak"] },
+  { code: "gaa", name: "Ga", native: "Gã", speech: ["gaa"] },
+  { code: "ee", name: "Ewe", native: "Eʋegbe", speech: ["ee"] },
+  { code: "dag", name: "Dagbani", native: "Dagbanli", speech: ["dag"] },
+];
+const CATALOGS: Record<Lang, Catalog> = { en, tw, gaa, ee, dag };
+
+export const isLang = (x: unknown): x is Lang => LANGUAGES.some((l) => l.code === x);
+
+export function translate(lang: Lang, key: MessageKey, vars?: Record<string, string | number>): string {
+  const text = CATALOGS[lang]?.[key] ?? en[key] ?? key;
+  return vars ? text.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m)) : text;
+}
+
+export const translator = (lang: Lang): Translate => (key, vars) => translate(lang, key, vars);
+
+/** Share of English keys a catalog translates, for the language picker. */
+export const coverage = (lang: Lang) => Object.keys(CATALOGS[lang]).length / Object.keys(en).length;
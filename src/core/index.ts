@@ -0,0 +1,32 @@
+/**
+ * Galamsey Reporter core: everything that doesn't need React or a browser page
+ * - Report model and validation, construction, status workflow, location privacy, upload-when-safe policy
+ * - SMS / USSD formats, sync engine and storage interface, corroboration, analytics and exports
+ * - The app (src/) adds the screens and the browser adapters: IndexedDB storage, capture, tiles, panic wipe
+ */
+
+export * from "./analytics";
+export * from "./checklist";
+export * from "./cluster";
+export * from "./corroborate";
+export * from "./export";
+export * from "./filters";
+export * from "./gazetteer";
+export * from "./geo";
+export * from "./geofence";
+export * from "./hash";
+export * from "./i18n";
+export * from "./obfuscate";
+export * from "./report";
+export * from "./safe-upload";
+export * from "./schema";
+export * from "./scrub";
+export * from "./sms";
+export * from "./status";
+export * from "./store";
+export * from "./sync-mock";
+export * from "./sync";
+export * from "./types";
+export * from "./ussd";
+export * from "./vault";
+export * from "./zip";
@@ -0,0 +1,204 @@
+import type { Catalog } from "./en";
+
+// Dagbani. Draft wording: to be checked with native-speaker reviewers before release.
+export const dag: Catalog = {
+  "app.tagline": "Sɔɣibu n-daŋ • Di tumdi hali intanɛt ka",
+  "status.online": "Intanɛt be",
+  "status.offline": "Intanɛt ka",
+  "sync.run": "Tim",
+  "sync.busy": "Di timdi…",
+  "tab.report": "Labaari palli",
+  "tab.my": "N labaarinima",
+  "tab.map": "Tiŋgbani naɣibu",
+  "tab.help": "Sɔŋsim mini alaafee",
+  "tab.settings": "Yɛltɔɣa ŋɔ",
+  "storage.openFailed": "Ti bi tooi yooi foonu maa binyɛra sɔŋ.",
+  "storage.saveFailed": "Ti bi tooi sɔŋ foonu maa ni. Yihimi binyɛra shɛŋa ka lahi tum.",
+  "sync.offline": "Intanɛt ka. Lahi tum saha shɛli intanɛt ni kana.",
+  "sync.incomplete": "Timbu maa bi naai: {count} bi niŋ, ti ni lahi tim li.",
+  "sync.failed": "Timbu maa bi niŋ. Labaarinima maa be foonu ŋɔ zuɣu n-guhiri.",
+
+  "form.title": "Labaari gbaŋ",
+  "form.category": "Din a ni nya",
+  "form.select": "Piimi yini…",
+  "form.gps": "Shɛli a ni be",
+  "form.useLocation": "Zaŋ n ni be shɛli",
+  "form.noLocation": "Shɛli ka na",
+  "form.description": "Wuhimi li",
+  "form.descriptionHint": "Bɔ ka a nya? Saha bɔ? Bɔ n-be di gbini?",
+  "form.checklistMode": "Zaŋ foto mini kumsa tim labaari (a yi bi karim)",
+  "form.activityType": "Tuma shɛli ka bɛ tumdi",
+  "form.hazardsSeen": "Barina shɛŋa a ni nya",
+  "form.whenRisk": "Saha mini barina",
+  "form.timeOfDay": "Saha bɔ…",
+  "form.riskLevel": "Barina maa yaɣa…",
+  "form.listen": "Wum",
+  "form.capturePrivacy": "Foto mini sɔɣibu",
+  "form.stealth": "Sɔɣibu soli (foto ku nyɛ skrin zuɣu)",
+  "form.uploadWhenSafe": "Tim li alaafee saha (chaŋmi {meters} m bee guhim miniti {mins})",
+  "form.shutterNote": "Bɔhimmi: browser ku tooi kpa kamera kumsa; mali foonu maa ka o ʒi tɛm ka a yɛn ŋmɛ sɔɣibu ni.",
+  "form.privacy": "Sɔɣibu",
+  "form.anonymous": "So ku mi a yuli",
+  "form.shareContact": "Ti a nɔmba (a yi bɔra ka bɛ boli a bee a yo)",
+  "form.phone": "Foonu nɔmba",
+  "form.email": "Email",
+  "form.callback": "Lahi boli ma",
+  "form.preferredTime": "Saha shɛli ni vɛlim a (kamani 16:00–18:00)",
+  "form.reward": "Ŋmahimmi ma yo zuɣu (kamani zaligu ni yɛli shɛm)",
+  "form.addPhoto": "Pahi foto",
+  "form.addVideo": "Pahi video",
+  "form.addVoice": "Pahi kumsa",
+  "form.recordVideo": "Ŋmɛ video",
+  "form.recordVoice": "Ŋmɛ a kumsa",
+  "form.budget": "{used} {total} puuni",
+  "form.stealthRecording": " • sɔɣibu: skrin maa ni niŋ zibsim, ŋmɛmi li buyi ka di chɛ",
+  "form.redact": "Sɔɣimi",
+  "form.remove": "Yihimi",
+  "form.locked": "bɛ pa li",
+  "form.fileTooBig": "Fael ŋɔ nyɛla {size} amaa {left} ko n-kpalim labaari ŋɔ zuɣu. Ŋmɛmi app ŋɔ ni, di mali fael maa ka di bɛla.",
+  "form.unscrubbable": "Ti ku tooi yihi shɛli mini foonu labaari fael ŋɔ ni. A ni pahi li kamaani?",
+  "form.fileFailed": "Ti bi tooi tum fael maa tuma. Zaŋmi fael bɛla.",
+  "form.recordBudget": "Ŋmɛbu maa chɛ: labaari ŋɔ binyɛra shee pali.",
+  "form.recordMaxLength": "Ŋmɛbu maa chɛ: di paai di wɔɣiligu naaba.",
+  "capture.unsupported": "Browser ŋɔ ku tooi ŋmɛ. Zaŋmi fael foonu maa ni.",
+  "capture.budget": "Labaari ŋɔ binyɛra shee pali. Yihimi yini bee a piligi labaari palli.",
+  "capture.denied": "Bɛ bi sa kamera/maekrofon maa.",
+  "capture.device": "Ti bi tooi yooi kamera bee maekrofon maa.",
+  "capture.failed": "Ŋmɛbu maa bi niŋ.",
+  "capture.recordingVideo": "Di ŋmɛri video • {time} / {max}",
+  "capture.recordingVoice": "Di ŋmɛri kumsa • {time} / {max}",
+  "capture.size": "{used} {max} puuni",
+  "capture.stop": "Chɛ",
+  "capture.stealthStop": "{time} • ŋmɛmi li buyi ka di chɛ",
+  "redact.title": "Sɔɣimi ninneesi, lɔɔri nɔmba bee binyɛr' shɛŋa din nyɛri",
+  "redact.hint": "Daamii adaka shɛli kam zuɣu. Din a ni sɔɣi maa ko ka ti ni sɔŋ.",
+  "redact.loading": "Di kanna…",
+  "redact.pixelate": "Mali li ka di bi nyɛ",
+  "redact.fill": "Adaka sabinli",
+  "redact.undo": "Labisim",
+  "redact.areas": "Shee {count}",
+  "redact.cancel": "Chɛ",
+  "redact.save": "Sɔŋmi din a ni sɔɣi",
+  "redact.asIs": "Zaŋmi li kamani di be shɛm",
+  "redact.saveFailed": "Ti bi tooi sɔŋ foto shɛli a ni sɔɣi maa.",
+  "form.stealthMedia": "Sɔɣibu soli yooya — foto ku nyɛ. Ti ni tim binyɛra maa alaafee saha.",
+  "form.blur": "Shɛli sɔɣibu (mita)",
+  "form.blurSelected": "Din a ni piigi:",
+  "form.blurNote": "Niriba zaa tiŋgbani naɣibu sɔɣiri shɛli maa n-ti paai yaɣa ŋɔ. Nam lieeriba ni tooi nya shɛli maa n-nyɛ shɛm.",
+  "form.submit": "Tim labaari maa",
+  "form.smsFallback": "SMS intanɛt yi ka",
+  "form.smsHint": "Yoomi N labaarinima → ‘SMS sabbu’ ka sabi sabbu maa.",
+  "form.smsUnset": "Chaŋmi Yɛltɔɣa ŋɔ ka sabi SMS nɔmba tuuli.",
+  "form.incomplete": "Piimi din a ni nya (bee zaŋ foto), wuhimi li, ka zaŋ shɛli a ni be.",
+  "form.preview": "Tiŋgbani naɣibu din wuhiri sɔɣibu (Niriba zaa mini Sɔɣibu)",
+  "view.current": "Din a nyɛri pumpɔŋɔ:",
+  "view.private": "Sɔɣibu (n-nyɛ shɛm)",
+  "view.public": "Niriba zaa (bɛ sɔɣi li)",
+  "view.toggle": "Taɣimi",
+  "stealth.on": "Sɔɣibu soli yooya",
+
+  "type.riverDredging": "Kulibali ni salima tuma",
+  "type.excavator": "Ekskaveta mɔɣu ni",
+  "type.chemical": "Tim bieri zaŋbu",
+  "type.trucking": "Yuŋ lɔɔri",
+  "type.pitHazard": "Vɔɣu barina",
+  "type.other": "Din pahi",
+  "hazard.mercury": "Tim bieri / mɛkuri",
+  "hazard.riverSilt": "Kulibali maa ŋmɛbu",
+  "hazard.noise": "Yuŋ kumsa",
+  "hazard.smoke": "Buɣim / zuɣu",
+  "hazard.publicRisk": "Vɔɣiri din yooi niriba sani",
+  "time.Morning": "Asiba",
+  "time.Afternoon": "Wuntaŋa",
+  "time.Evening": "Zaawuni",
+  "time.Night": "Yuŋ",
+  "risk.Low": "Bɛla",
+  "risk.Medium": "Sunsuuni",
+  "risk.High": "Pam",
+  "checklist.summary": "Foto labaari — Tuma: {types}. Barina: {hazards}. Saha: {time}. Barina yaɣa: {risk}.",
+  "checklist.none": "(shɛli ka)",
+  "checklist.unspecified": "bɛ bi wuhi",
+
+  "my.title": "N labaarinima",
+  "my.empty": "Labaari kani. Chaŋmi “Labaari palli” ka tim a tuuli labaari.",
+  "my.exportJson": "Yihimi JSON",
+  "my.locate": "Nyami li tiŋgbani naɣibu zuɣu",
+  "my.smsDraft": "SMS sabbu",
+  "my.moreInfo": "Tim labaari pahi",
+  "my.delete": "Yihimi",
+  "my.corroborated": "Shee yini mini labaari {n} shɛŋa",
+  "my.possibleDuplicate": "Di ni tooi nyɛ yini mini",
+  "my.mergedInto": "Bɛ pahi li",
+  "my.blurRadius": "Sɔɣibu {meters} m",
+  "my.protectedArea": "Shee shɛli bɛ gubiri: {names}",
+  "my.audio": "Kumsa: {name}",
+  "my.evidence": "Shɛhira binyɛra",
+  "my.evidenceFailed": "Ti bi tooi mali shɛhira binyɛra maa.",
+  "my.smsUnset": "Chaŋmi Yɛltɔɣa ŋɔ ka sabi SMS nɔmba tuuli.",
+  "my.moreInfoPrompt": "Bɔ n-lahi be ka a ni tooi yɛli nam lieeriba labaari ŋɔ zuɣu?",
+  "sms.parts": "Labaari ŋɔ bɔri sabbu {count}. Tim yini kam, di pa doli ŋɔ:",
+  "sms.part": "Pubu {n}/{count}",
+  "sms.close": "Pili",
+  "import.hint": "A taɣiri foonu bee a laɣindi sɔŋsim niriba sani? Zaŋmi JSON, GeoJSON bee shɛhira zip na.",
+  "import.button": "Zaŋ na…",
+  "import.summary": "Din a ni zaŋ na: {added} palli, {merged} bɛ pahi, {unchanged} daa be, {rejected} bɛ bi deei",
+  "import.dismiss": "Yihimi",
+  "export.kml": "KML (Google Earth)",
+  "export.public": "Niriba zaa (bɛ sɔɣi li, nɔmba mini foto ka)",
+  "export.private": "Sɔɣibu (nam lieeriba)",
+  "export.bundleMedia": "Pahi foto (zip)",
+  "export.selected": "Yihimi {count} a ni piigi",
+  "export.shown": "Yihimi {count} din nyɛri",
+  "export.clearSelection": "Yihimi din a ni piigi zaa",
+  "export.none": "Labaari kani ka a ni yihi.",
+  "export.allSuppressed": "Shɛli ka ka a ni yihi: niriba zaa shee bɔri labaari {k} shee yini, ka ŋɔ maa puuni yini ka lala.",
+  "export.someSuppressed": "Ti bi yihi labaari {count} niriba zaa zuɣu, domin labaari bɛla ko n-be bɛ shee.",
+  "export.failed": "Yihibu maa bi niŋ. Zaŋmi labaari bɛla bee di pahi foto.",
+  "filter.allCategories": "Din a ni nya zaa",
+  "filter.allStatuses": "Shɛm zaa",
+  "filter.allAreas": "Shee zaa",
+  "filter.anyZone": "Shee shɛli kam bɛ ni gubiri",
+  "filter.from": "Piligi",
+  "filter.to": "Hali ni",
+
+  "safe.status": "Alaafee timbu:",
+  "safe.ready": "Di kpaɣiya",
+  "safe.locked": "Bɛ pa li",
+  "safe.release": "Tim li pumpɔŋɔ",
+  "safe.releaseConfirm": "A ni tim labaari ŋɔ pumpɔŋɔ intanɛt yi kana? Niŋmi lala a yi yi shee maa ni ka a be alaafee ni ko.",
+  "safe.manual": "A maŋa n-ni tim li: tim li a yi be alaafee ni",
+  "safe.noCapturePoint": "Shɛli a ni ŋmɛ foto maa ka: guhim miniti {mins} pahi",
+  "safe.distance": "Chaŋmi {meters} m ka zani nimaa ({progress}), bee a guhim miniti {mins} pahi",
+  "safe.noFixYet": "shɛli maa ka na",
+  "safe.progress": "pumpɔŋɔ kamani {clear} m, {fixes} {need} puuni",
+  "safe.quietHours": "Ʒiŋ saha hali ni {until}: ti ni tim li a yi yi shee maa ni ko",
+  "safe.noHome": "Yiŋa Wi-Fi ko, amaa a bi sabi a yiŋa shee",
+  "safe.homeNoFix": "Yiŋa Wi-Fi ko: di guhiri shɛli a ni be",
+  "safe.notHome": "Yiŋa Wi-Fi ko: a ka yiŋa",
+  "safe.mobileData": "Yiŋa Wi-Fi ko: a zaŋ mobile data n-tumdi",
+  "safe.unknownConnection": "Yiŋa Wi-Fi ko: foonu ŋɔ ku tooi baŋ Wi-Fi mini mobile data",
+
+  "safety.distance": "*Di chaŋ salima tuuriba maa sani.* Zaŋmi a maŋa yi; a alaafee n-daŋ.",
+  "safety.landmarks": "Ŋmɛmi *binyɛr' shɛŋa din nyɛri* (kpalinsi, sɔhi gbɛhi) foto, ka pa ninneesi bee lɔɔri nɔmba.",
+  "safety.blur": "Zaŋmi *shɛli sɔɣibu* ka niriba zaa tiŋgbani naɣibu di wuhi shɛli maa n-nyɛ shɛm.",
+  "safety.anonymous": "*So ku mi a yuli.* Ti a nɔmba a yi bɔra ka bɛ boli a bee a yo ko.",
+  "help.title": "Alaafee mini sɔɣibu",
+  "help.geo": "*Shɛli sɔɣibu:* Niriba zaa tiŋgbani naɣibu wuhiri shee shɛŋa bɛ ni sɔɣi; nam lieeriba (dahin' shɛli) ni tooi nya shɛli maa n-nyɛ shɛm.",
+  "help.escrow": "*A yuli gubu:* A yi bɔra ka bɛ boli a bee a yo, a nɔmba be foonu ŋɔ zuɣu; di yi ti chaŋ nam lieeriba sani, di bɔri server din mali alaafee (dahin' shɛli).",
+  "help.offline": "*Intanɛt yi ka:* Labaarinima be foonu maa zuɣu ka chaŋdi a yi ŋmɛ Tim bee intanɛt kana.",
+  "help.stealth": "*Sɔɣibu saɣisi:* Sɔɣibu soli sɔɣiri foto ka guhiri ka timdi; di ku tooi kpa kamera kumsa—mali a foonu ka o ʒi tɛm.",
+
+  "settings.language": "Bɛlɛ",
+  "settings.languageNote": "Ti ni tooi karim foto gbaŋ maa binyɛra. Ti zaŋdi kumsa shɛŋa bɛ ni ŋmɛ, di yi ka, foonu kumsa.",
+
+  "lock.title": "Sabimi PIN",
+  "lock.pin": "PIN",
+  "lock.unlock": "Yoomi",
+  "lock.unlocking": "Di yooiri…",
+  "lock.wrongPin": "PIN maa bi tuhi.",
+  "lock.openFailed": "Ti bi tooi yooi foonu maa binyɛra sɔŋ.",
+  "decoy.title": "Sabbu",
+  "decoy.new": "Sabbu palli",
+  "decoy.add": "Pahi",
+  "decoy.empty": "Sabbu kani",
+};
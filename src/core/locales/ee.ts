@@ -0,0 +1,204 @@
+import type { Catalog } from "./en";
+
+// Ewe. Draft wording: to be checked with native-speaker reviewers before release.
+export const ee: Catalog = {
+  "app.tagline": "Ɣaɣla gbã • Ewɔa dɔ ne internet meli o gɔ̃ hã",
+  "status.online": "Internet li",
+  "status.offline": "Internet meli o",
+  "sync.run": "Ðoe ɖa",
+  "sync.busy": "Ele eɖom ɖa…",
+  "tab.report": "Nutsotso yeye",
+  "tab.my": "Nye nutsotsowo",
+  "tab.map": "Anyigbatata",
+  "tab.help": "Kpekpeɖeŋu kple dedienɔnɔ",
+  "tab.settings": "Ɖoɖowo",
+  "storage.openFailed": "Míete ŋu ʋu fon la ƒe nudzraɖoƒe o.",
+  "storage.saveFailed": "Míete ŋu dzra nu ɖo ɖe fon la dzi o. Ðe nu aɖewo ɖa eye nàgbugbɔ atee kpɔ.",
+  "sync.offline": "Internet meli o. Gbugbɔ tee kpɔ ne internet va.",
+  "sync.incomplete": "Ðoɖa la mewu enu o: {count} medze edzi o, míagbugbɔ aɖoe ɖa.",
+  "sync.failed": "Ðoɖa la medze edzi o. Nutsotsoawo le fon sia dzi le lalam.",
+
+  "form.title": "Nutsotso ƒe agbalẽ",
+  "form.category": "Nusi nèkpɔ",
+  "form.select": "Tia ɖeka…",
+  "form.gps": "Afisi nèle",
+  "form.useLocation": "Zã afisi mele",
+  "form.noLocation": "Afisi nèle meli haɖe o",
+  "form.description": "Ɖeɖe eme",
+  "form.descriptionHint": "Nuka nèkpɔ? Ɣekaɣi? Nuka le egbɔ?",
+  "form.checklistMode": "Zã nɔnɔmetatawo kple gbe (ne mèxlẽa nu o)",
+  "form.activityType": "Dɔ si wole wɔwɔm",
+  "form.hazardsSeen": "Afɔku siwo nèkpɔ",
+  "form.whenRisk": "Ɣeyiɣi kple afɔku",
+  "form.timeOfDay": "Ɣekaɣi…",
+  "form.riskLevel": "Afɔku la ƒe lolome…",
+  "form.listen": "Se",
+  "form.capturePrivacy": "Nɔnɔmetata kple ɣaɣla",
+  "form.stealth": "Ɣaɣla mɔ (nɔnɔmetata aɖeke madze le skrin dzi o)",
+  "form.uploadWhenSafe": "Ðoe ɖa ne dedienɔnɔ li (te ɖa {meters} m alo lala miniti {mins})",
+  "form.shutterNote": "De dzesii: browser mate ŋu atsi kamera ƒe gbe o; na fon la nazi ɖoɖoe hafi nàɖe nɔnɔmetata le ɣaɣla me.",
+  "form.privacy": "Ɣaɣla",
+  "form.anonymous": "Ame aɖeke manya wò ŋkɔ o",
+  "form.shareContact": "Na wò nɔmba (ne èdi be woayɔ wò alo aɖo eteƒe na wò)",
+  "form.phone": "Fon nɔmba",
+  "form.email": "Email",
+  "form.callback": "Gbugbɔ yɔm",
+  "form.preferredTime": "Ɣeyiɣi si dze wò (abe 16:00–18:00)",
+  "form.reward": "Bu ŋunye na fetu (le se la nu)",
+  "form.addPhoto": "Tsɔ nɔnɔmetata kpe ɖe eŋu",
+  "form.addVideo": "Tsɔ video kpe ɖe eŋu",
+  "form.addVoice": "Tsɔ gbe kpe ɖe eŋu",
+  "form.recordVideo": "Ðe video",
+  "form.recordVoice": "Lé wò gbe ɖi",
+  "form.budget": "{used} le {total} me",
+  "form.stealthRecording": " • ɣaɣla: skrin la ado viviti, ƒo edzi zi eve nàtsi",
+  "form.redact": "Tsyɔ edzi",
+  "form.remove": "Ðee ɖa",
+  "form.locked": "wotui",
+  "form.fileTooBig": "File sia nye {size} gake {left} koe susɔ na nutsotso sia. Ðee le app sia me boŋ, ewɔnɛ be file la nasue.",
+  "form.unscrubbable": "Míate ŋu aɖe afisi kple fon ƒe nyatakakawo ɖa le file sia me o. Àtsɔe akpe ɖe eŋu kokoko?",
+  "form.fileFailed": "Míete ŋu wɔ dɔ ɖe file la ŋu o. Tsɔ file sue aɖe.",
+  "form.recordBudget": "Ðeɖe la tɔ: nutsotso sia ƒe nuwo ƒe teƒe yɔ.",
+  "form.recordMaxLength": "Ðeɖe la tɔ: eɖo eƒe didime nuwuwu.",
+  "capture.unsupported": "Browser sia mate ŋu aɖe o. Tsɔ file tso fon la dzi boŋ.",
+  "capture.budget": "Nutsotso sia ƒe nuwo ƒe teƒe yɔ. Ðe ɖeka ɖa alo dze nutsotso yeye gɔme.",
+  "capture.denied": "Womeɖe mɔ na kamera/microphone la o.",
+  "capture.device": "Míete ŋu ʋu kamera alo microphone la o.",
+  "capture.failed": "Ðeɖe la medze edzi o.",
+  "capture.recordingVideo": "Ele video ɖem • {time} / {max}",
+  "capture.recordingVoice": "Ele gbe lém ɖi • {time} / {max}",
+  "capture.size": "{used} le {max} me",
+  "capture.stop": "Tsi",
+  "capture.stealthStop": "{time} • ƒo edzi zi eve nàtsi",
+  "redact.title": "Tsyɔ amewo ƒe mo, ʋu ƒe nɔmba alo nu siwo klẽna dzi",
+  "redact.hint": "He aɖaka ɖe teƒe ɖesiaɖe dzi. Nusi nètsyɔ dzi la ɖeɖe koe míadzra ɖo.",
+  "redact.loading": "Ele gbɔgbɔm…",
+  "redact.pixelate": "Na wòagblẽ",
+  "redact.fill": "Aɖaka yibɔ",
+  "redact.undo": "Trɔe",
+  "redact.areas": "Teƒe {count}",
+  "redact.cancel": "Tsi",
+  "redact.save": "Dzra esi nètsyɔ dzi ɖo",
+  "redact.asIs": "Zãe nenema",
+  "redact.saveFailed": "Míete ŋu dzra nɔnɔmetata si nètsyɔ dzi ɖo o.",
+  "form.stealthMedia": "Ɣaɣla mɔ le ʋuʋu — nɔnɔmetatawo medzena o. Míaɖo nuawo ɖa ne dedienɔnɔ li.",
+  "form.blur": "Afisi tsyɔtsyɔ (meter)",
+  "form.blurSelected": "Esi nètia:",
+  "form.blurNote": "Dukɔ ƒe anyigbatata la tsyɔa afisi tututu dzi kple didime sia. Dziɖuɖumegãwo ate ŋu akpɔ afisi tututu.",
+  "form.submit": "Ɖo nutsotso ɖa",
+  "form.smsFallback": "SMS ne internet meli o",
+  "form.smsHint": "Ʋu Nye nutsotsowo → ‘SMS ŋɔŋlɔ’ nàŋlɔ agbalẽ la.",
+  "form.smsUnset": "Yi Ɖoɖowo me nàŋlɔ SMS nɔmba gbã.",
+  "form.incomplete": "Tia nusi nèkpɔ (alo zã nɔnɔmetatawo), ɖe eme, eye nàtsɔ afisi nèle.",
+  "form.preview": "Anyigbatata si ɖea tsyɔtsyɔ fiana (Dukɔ kple Ɣaɣla)",
+  "view.current": "Esi nèle kpɔkpɔm fifia:",
+  "view.private": "Ɣaɣla (tututu)",
+  "view.public": "Dukɔ (wotsyɔ edzi)",
+  "view.toggle": "Trɔe",
+  "stealth.on": "Ɣaɣla mɔ le ʋuʋu",
+
+  "type.riverDredging": "Tɔsisi me sikaɖeɖe",
+  "type.excavator": "Ekskavetɔ le ave me",
+  "type.chemical": "Atike vɔ̃wo zazã",
+  "type.trucking": "Zã me keke",
+  "type.pitHazard": "Do ƒe afɔku",
+  "type.other": "Bubu",
+  "hazard.mercury": "Atike vɔ̃wo / mercury",
+  "hazard.riverSilt": "Tɔsisi la ƒo ke",
+  "hazard.noise": "Zã me hoowɔwɔ",
+  "hazard.smoke": "Dzo / dzudzɔ",
+  "hazard.publicRisk": "Do ʋuʋuwo le amewo gbɔ",
+  "time.Morning": "Ŋdi",
+  "time.Afternoon": "Ŋdɔ",
+  "time.Evening": "Fiẽ",
+  "time.Night": "Zã",
+  "risk.Low": "Sue",
+  "risk.Medium": "Titina",
+  "risk.High": "Gã",
+  "checklist.summary": "Nɔnɔmetata nutsotso — Dɔ: {types}. Afɔku: {hazards}. Ɣeyiɣi: {time}. Afɔku ƒe lolome: {risk}.",
+  "checklist.none": "(naneke o)",
+  "checklist.unspecified": "womegblɔe o",
+
+  "my.title": "Nye nutsotsowo",
+  "my.empty": "Nutsotso aɖeke meli haɖe o. Yi “Nutsotso yeye” nàɖo gbãtɔ ɖa.",
+  "my.exportJson": "Ðe JSON",
+  "my.locate": "Kpɔe le anyigbatata dzi",
+  "my.smsDraft": "SMS ŋɔŋlɔ",
+  "my.moreInfo": "Ðo nyatakaka bubuwo ɖa",
+  "my.delete": "Tutui",
+  "my.corroborated": "Teƒe ɖeka kple nutsotso bubu {n}",
+  "my.possibleDuplicate": "Ðewohĩ ewɔ ɖeka kple",
+  "my.mergedInto": "Wotsɔe kpe ɖe",
+  "my.blurRadius": "Tsyɔtsyɔ {meters} m",
+  "my.protectedArea": "Teƒe si wokpɔa ta na: {names}",
+  "my.audio": "Gbe: {name}",
+  "my.evidence": "Kpeɖodzi ƒe aɖaka",
+  "my.evidenceFailed": "Míete ŋu wɔ kpeɖodzi ƒe aɖaka la o.",
+  "my.smsUnset": "Yi Ɖoɖowo me nàŋlɔ SMS nɔmba gbã.",
+  "my.moreInfoPrompt": "Nu bubu kae nàte ŋu agblɔ na dziɖuɖumegãwo tso nutsotso sia ŋu?",
+  "sms.parts": "Nutsotso sia hiã agbalẽ {count}. Ðo ɖesiaɖe ɖa, ɖoɖo aɖeke mehiã o:",
+  "sms.part": "Akpa {n}/{count}",
+  "sms.close": "Tui",
+  "import.hint": "Èle fon ɖɔlim alo nèle nu ƒom tso kpeɖeŋutɔwo gbɔ? Tsɔ JSON, GeoJSON alo kpeɖodzi zip va.",
+  "import.button": "Tsɔe va…",
+  "import.summary": "Esi nètsɔ va: {added} yeye, {merged} wotsɔ kpe ɖe eŋu, {unchanged} li xoxo, {rejected} womexɔ o",
+  "import.dismiss": "Ðee ɖa",
+  "export.kml": "KML (Google Earth)",
+  "export.public": "Dukɔ (wotsyɔ edzi, nɔmba kple nɔnɔmetata meli o)",
+  "export.private": "Ɣaɣla (dziɖuɖumegãwo)",
+  "export.bundleMedia": "Tsɔ nɔnɔmetatawo kpe ɖe eŋu (zip)",
+  "export.selected": "Ðe {count} siwo nètia",
+  "export.shown": "Ðe {count} siwo dze",
+  "export.clearSelection": "Ðe esiwo nètia ɖa",
+  "export.none": "Nutsotso aɖeke meli nàɖe o.",
+  "export.allSuppressed": "Naneke meli nàɖe o: dukɔ ƒe afisiwo hiã nutsotso {k} le teƒe ɖeka, eye esiawo dometɔ aɖeke meɖo ema haɖe o.",
+  "export.someSuppressed": "Womeɖe nutsotso {count} na dukɔ o, elabena nutsotso ʋɛ aɖewo koe le woƒe teƒe.",
+  "export.failed": "Ðeɖe la medze edzi o. Tsɔ nutsotso ʋɛ aɖewo alo mègatsɔ nɔnɔmetatawo kpe ɖe eŋu o.",
+  "filter.allCategories": "Nusi nèkpɔ katã",
+  "filter.allStatuses": "Nɔnɔmewo katã",
+  "filter.allAreas": "Teƒewo katã",
+  "filter.anyZone": "Teƒe ɖesiaɖe si wokpɔa ta na",
+  "filter.from": "Tso",
+  "filter.to": "Va se ɖe",
+
+  "safe.status": "Ðoɖa le dedienɔnɔ me:",
+  "safe.ready": "Ele klalo",
+  "safe.locked": "Wotui",
+  "safe.release": "Ðoe ɖa fifia",
+  "safe.releaseConfirm": "Àɖo nutsotso sia ɖa enumake ne internet va? Wɔe ne èdzo le teƒe la eye nèle dedie ko.",
+  "safe.manual": "Wò ŋutɔ àɖoe ɖa: ɖoe ɖa ne èle dedie",
+  "safe.noCapturePoint": "Afisi nèɖe nɔnɔmetata la meli o: lala miniti {mins} bubu",
+  "safe.distance": "Te ɖa {meters} m eye nànɔ afima ({progress}), alo lala miniti {mins} bubu",
+  "safe.noFixYet": "afisi tututu meli haɖe o",
+  "safe.progress": "fifia abe {clear} m ene, {fixes} le {need} me",
+  "safe.quietHours": "Ðoɖoenɔɣi va se ɖe {until}: míaɖoe ɖa ne èdzo le teƒe la ko",
+  "safe.noHome": "Aƒeme Wi-Fi ko, gake mèŋlɔ wò aƒeme ƒe teƒe o",
+  "safe.homeNoFix": "Aƒeme Wi-Fi ko: ele afisi nèle lalam",
+  "safe.notHome": "Aƒeme Wi-Fi ko: mèle aƒeme o",
+  "safe.mobileData": "Aƒeme Wi-Fi ko: èle mobile data zãm",
+  "safe.unknownConnection": "Aƒeme Wi-Fi ko: fon sia mate ŋu ade vovototo Wi-Fi kple mobile data dome o",
+
+  "safety.distance": "*Mègado ŋusẽ sikaɖelawo o.* Ðe ɖokuiwò ɖa; wò dedienɔnɔ gbã.",
+  "safety.landmarks": "Ðe *dzesi siwo dzena* (ʋɔtruwo, mɔ ƒe trɔƒewo) ƒe nɔnɔmetata, ke menye amewo ƒe mo alo ʋu ƒe nɔmba o.",
+  "safety.blur": "Zã *afisi tsyɔtsyɔ* be dukɔ ƒe anyigbatata nagaɖe afisi tututu afia o.",
+  "safety.anonymous": "*Ame aɖeke manya wò ŋkɔ o.* Na wò nɔmba ne èdi be woayɔ wò alo aɖo eteƒe na wò ko.",
+  "help.title": "Dedienɔnɔ kple ɣaɣla",
+  "help.geo": "*Afisi ƒe ɣaɣla:* Dukɔ ƒe anyigbatatawo ɖea teƒe siwo dzi wotsyɔ fiana; dziɖuɖumegãwo (emegbe) ate ŋu akpɔ afisi tututu.",
+  "help.escrow": "*Wò ŋkɔ ƒe takpɔkpɔ:* Ne èdi be woayɔ wò alo aɖo eteƒe na wò la, wò nɔmba le fon sia dzi; be wòayi dziɖuɖumegãwo gbɔ la, ehiã server si me dedienɔnɔ le (emegbe).",
+  "help.offline": "*Ne internet meli o:* Nutsotsowo nɔa fon la dzi eye woyina ne èƒo Ðoe ɖa dzi alo internet va.",
+  "help.stealth": "*Ɣaɣla ƒe aɖaŋuɖoɖo:* Ɣaɣla mɔ ɣlaa nɔnɔmetatawo eye wòlalana hafi ɖonɛ ɖa; mate ŋu atsi kamera ƒe gbe o—na wò fon nazi ɖoɖoe.",
+
+  "settings.language": "Gbe",
+  "settings.languageNote": "Míate ŋu axlẽ nɔnɔmetata agbalẽ la dzi nuwo. Míezãa gbe siwo wolé ɖi, ne meli o la, fon la ƒe gbe.",
+
+  "lock.title": "Ŋlɔ PIN la",
+  "lock.pin": "PIN",
+  "lock.unlock": "Ʋui",
+  "lock.unlocking": "Ele eʋum…",
+  "lock.wrongPin": "PIN la mesɔ o.",
+  "lock.openFailed": "Míete ŋu ʋu fon la ƒe nudzraɖoƒe o.",
+  "decoy.title": "Nuŋlɔɖiwo",
+  "decoy.new": "Nuŋlɔɖi yeye",
+  "decoy.add": "Tsɔ kpe ɖe eŋu",
+  "decoy.empty": "Nuŋlɔɖi aɖeke meli o",
+};
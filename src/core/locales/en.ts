@@ -0,0 +1,472 @@
+// English source catalog. Every key lives here; other catalogs may leave keys out and fall back to these.
+// `{name}` placeholders are filled in by `t(key, { name })`; `*text*` is shown in bold.
+export const en = {
+  // header & navigation
+  "app.title": "Galamsey Reporter (MVP++)",
+  "app.tagline": "Privacy-by-design • Offline-first",
+  "status.online": "Online",
+  "status.offline": "Offline",
+  "sync.run": "Sync",
+  "sync.busy": "Syncing…",
+  "tab.report": "New Report",
+  "tab.my": "My Reports",
+  "tab.map": "Map",
+  "tab.dashboard": "Dashboard",
+  "tab.analytics": "Analytics",
+  "tab.help": "Help & Safety",
+  "tab.settings": "Settings",
+  "quarantine.notice": "{count} saved record(s) could not be read and were set aside. Nothing was deleted.",
+  "quarantine.review": "Review",
+  "quarantine.title": "Quarantined Records",
+  "quarantine.readFailed": "Could not read the quarantine.",
+  "quarantine.discardConfirm": "Delete {count} quarantined record(s) for good? Download them first if they may still be needed.",
+  "quarantine.discardFailed": "Could not delete from device storage.",
+  "quarantine.empty": "No records are in quarantine.",
+  "quarantine.note": "These records could not be read safely, so they were set aside instead of being loaded. Media of reports saved on this device stays until the record is discarded.",
+  "quarantine.downloadAll": "Download all (JSON)",
+  "quarantine.discardAll": "Discard all",
+  "quarantine.download": "Download",
+  "quarantine.discard": "Discard",
+  "quarantine.source.storage": "Saved on this device",
+  "quarantine.source.import": "Import",
+  "quarantine.source.sync": "Sync server",
+  "quarantine.source.settings": "Settings",
+  "storage.openFailed": "Could not open device storage.",
+  "storage.saveFailed": "Could not save to device storage. Free up space and try again.",
+  "sync.offline": "You are offline. Try again when connected.",
+  "sync.incomplete": "Sync incomplete: {count} item(s) failed and will be retried.",
+  "sync.failed": "Sync failed. Reports stay queued on this device.",
+
+  // report form
+  "form.title": "Reporting Form",
+  "form.category": "Category",
+  "form.select": "Select…",
+  "form.gps": "GPS Location",
+  "form.useLocation": "Use My Location",
+  "form.noLocation": "No location yet",
+  "form.description": "Description",
+  "form.descriptionHint": "What did you see? When? Any landmarks?",
+  "form.checklistMode": "Use Simple Checklist Mode (low literacy)",
+  "form.activityType": "Activity type",
+  "form.hazardsSeen": "Hazards seen",
+  "form.whenRisk": "When & risk",
+  "form.timeOfDay": "Time of day…",
+  "form.riskLevel": "Risk level…",
+  "form.listen": "Listen",
+  "form.capturePrivacy": "Capture & privacy",
+  "form.stealth": "Stealth mode (no on-screen previews)",
+  "form.uploadWhenSafe": "Upload when safe (move >= {meters} m or wait {mins} mins)",
+  "form.shutterNote": "Note: Browsers cannot disable the hardware shutter sound; please silence your device for stealth.",
+  "form.privacy": "Privacy",
+  "form.anonymous": "Anonymous (default)",
+  "form.shareContact": "Share contact (optional follow-up/reward)",
+  "form.phone": "Phone",
+  "form.email": "Email",
+  "form.callback": "Request callback",
+  "form.preferredTime": "Preferred time (e.g., 16:00–18:00)",
+  "form.reward": "Consider me for reward (policy-dependent)",
+  "form.addPhoto": "Add Photo",
+  "form.addVideo": "Add Video",
+  "form.addVoice": "Add Voice Note",
+  "form.recordVideo": "Record Video",
+  "form.recordVoice": "Record Voice Note",
+  "form.budget": "{used} of {total} used",
+  "form.stealthRecording": " • stealth: screen goes dark, double-tap to stop",
+  "form.redact": "Redact",
+  "form.remove": "Remove",
+  "form.locked": "locked",
+  "form.fileTooBig": "This file is {size} but only {left} is left for this report. Record in-app instead, which keeps files small.",
+  "form.unscrubbable": "Location and device details can't be removed from this file type. Attach it anyway?",
+  "form.fileFailed": "Could not process file. Try a smaller file.",
+  "form.recordBudget": "Recording stopped: this report's media budget is full.",
+  "form.recordMaxLength": "Recording stopped at the maximum length.",
+  "capture.unsupported": "Recording is not supported in this browser. Use the file picker instead.",
+  "capture.budget": "This report's media budget is used up. Remove an item or start a new report.",
+  "capture.denied": "Camera/microphone permission was denied.",
+  "capture.device": "Could not open the camera or microphone.",
+  "capture.failed": "Recording failed.",
+  "capture.recordingVideo": "Recording video • {time} / {max}",
+  "capture.recordingVoice": "Recording voice note • {time} / {max}",
+  "capture.size": "{used} of {max}",
+  "capture.stop": "Stop",
+  "capture.stealthStop": "{time} • double-tap to stop",
+  "redact.title": "Hide faces, number plates or reflections",
+  "redact.hint": "Drag a box over each area. Only the redacted copy is kept.",
+  "redact.loading": "Loading…",
+  "redact.pixelate": "Pixelate",
+  "redact.fill": "Black box",
+  "redact.undo": "Undo",
+  "redact.areas": "{count} area(s)",
+  "redact.cancel": "Cancel",
+  "redact.save": "Save redacted",
+  "redact.asIs": "Use as is",
+  "redact.saveFailed": "Could not save the redacted photo.",
+  "form.stealthMedia": "Stealth is ON — previews are hidden. Media will queue for safe upload.",
+  "form.blur": "Geo-Privacy Blur Radius (meters)",
+  "form.blurSelected": "Selected:",
+  "form.blurNote": "Public map hides the exact point within roughly this radius. Authorities can view raw coordinates.",
+  "form.submit": "Submit Report",
+  "form.smsFallback": "SMS Fallback",
+  "form.smsHint": "Open My Reports → ‘SMS Draft’ to create a message.",
+  "form.smsUnset": "Set an SMS number in Settings first.",
+  "form.incomplete": "Please choose a category (or use Checklist), add a description, and capture GPS.",
+  "form.preview": "Blur Preview Map (Public vs Private)",
+  "view.current": "Current view:",
+  "view.private": "Private (raw)",
+  "view.public": "Public (blurred)",
+  "view.toggle": "Toggle View",
+  "stealth.on": "Stealth mode is ON",
+
+  // checklist vocabulary (keys from checklist.ts)
+  "type.riverDredging": "River dredging",
+  "type.excavator": "Excavator in reserve",
+  "type.chemical": "Chemical use",
+  "type.trucking": "Night trucking",
+  "type.pitHazard": "Pit hazard",
+  "type.other": "Other",
+  "hazard.mercury": "Chemicals / mercury",
+  "hazard.riverSilt": "River siltation",
+  "hazard.noise": "Noise at night",
+  "hazard.smoke": "Burning / smoke",
+  "hazard.publicRisk": "Open pits near public",
+  "time.Morning": "Morning",
+  "time.Afternoon": "Afternoon",
+  "time.Evening": "Evening",
+  "time.Night": "Night",
+  "risk.Low": "Low",
+  "risk.Medium": "Medium",
+  "risk.High": "High",
+  "checklist.summary": "Checklist report — Types: {types}. Hazards: {hazards}. Time: {time}. Risk: {risk}.",
+  "checklist.none": "(none)",
+  "checklist.unspecified": "unspecified",
+
+  // my reports
+  "my.title": "My Reports",
+  "my.empty": "No reports yet. Submit your first report from the New Report tab.",
+  "my.exportJson": "Export JSON",
+  "my.locate": "Locate on Map",
+  "my.smsDraft": "SMS Draft",
+  "my.moreInfo": "Send More Info",
+  "my.delete": "Delete",
+  "my.corroborated": "Same site as {n} other report(s)",
+  "my.possibleDuplicate": "Possible duplicate of",
+  "my.mergedInto": "Merged into",
+  "my.blurRadius": "Blur {meters} m",
+  "my.protectedArea": "Protected area: {names}",
+  "my.audio": "Audio: {name}",
+  "my.evidence": "Evidence Package",
+  "my.evidenceFailed": "Could not build the evidence package.",
+  "my.smsUnset": "Set an SMS number in Settings first.",
+  "my.moreInfoPrompt": "What more can you tell the authorities about this report?",
+  "sms.parts": "This report needs {count} messages. Send each one, in any order:",
+  "sms.part": "Part {n}/{count}",
+  "sms.close": "Close",
+  "import.hint": "Moving phones or collecting from volunteers? Import JSON, GeoJSON or evidence zips.",
+  "import.button": "Import…",
+  "import.summary": "Import: {added} added, {merged} merged, {unchanged} already up to date, {rejected} rejected",
+  "import.dismiss": "Dismiss",
+  "export.kml": "KML (Google Earth)",
+  "export.public": "Public (blurred, no contact/media)",
+  "export.private": "Private (authorities)",
+  "export.bundleMedia": "Bundle media (zip)",
+  "export.selected": "Export {count} selected",
+  "export.shown": "Export {count} shown",
+  "export.clearSelection": "Clear selection",
+  "export.none": "No reports to export.",
+  "export.allSuppressed": "Nothing to export: public locations need at least {k} reports in the same area, and none of these have that yet.",
+  "export.someSuppressed": "{count} report(s) were left out of the public export because too few reports share their area.",
+  "export.failed": "Export failed. Try fewer reports or without media.",
+  "filter.allCategories": "All categories",
+  "filter.allStatuses": "All statuses",
+  "filter.allAreas": "All areas",
+  "filter.anyZone": "Any protected area",
+  "filter.from": "From",
+  "filter.to": "To",
+
+  // map
+  "map.title": "Map & Distance Tools",
+  "map.locateMe": "Locate Me",
+  "map.pins": "Pins",
+  "map.heat": "Heatmap",
+  "map.zones": "Protected areas",
+  "map.count": "{shown} of {total} report(s)",
+  "map.hidden": "{count} hidden in public view (fewer than {k} reports nearby)",
+  "map.selected": "Selected:",
+  "map.distance": "Distance from you:",
+  "map.offlinePacks": "Offline Map Packs",
+
+  // authority tabs
+  "dashboard.title": "Authority Dashboard",
+  "dashboard.verify": "Verify Evidence Package",
+  "dashboard.smsInbox": "SMS Inbox",
+  "verify.checking": "Checking {name}…",
+  "verify.ok": "Verified",
+  "verify.untrusted": "Signature valid, signer not trusted",
+  "verify.failed": "Verification failed",
+  "verify.signature": "Signature:",
+  "verify.valid": "valid",
+  "verify.invalid": "invalid",
+  "verify.key": "key {id}",
+  "verify.signedBy": "signed by {name}",
+  "verify.unknownSigner": "unknown signer",
+  "verify.untrustedNote": "Anyone can sign a package with a new key, so this does not show who packaged it.",
+  "verify.trust": "Trust this signer…",
+  "verify.trustPrompt": "Only trust key {id} if the sender confirmed this key id to you another way (in person or by phone).\n\nName for this signer:",
+  "verify.trustFailed": "Could not trust this key.",
+  "verify.report": "Report",
+  "verify.created": "created {at}",
+  "verify.packaged": "Packaged {at} with app v{version}",
+  "verify.hashDiffers": "(hash differs)",
+  "verify.missing": "(missing)",
+  "verify.hashedLate": "hashed when packaged, not at capture",
+  "verify.captured": "captured {at}",
+  "verify.trusted": "Trusted signers",
+  "verify.importKey": "Import key…",
+  "verify.labelPrompt": "Name for this signer (e.g. the officer or device it belongs to):",
+  "verify.imported": "Trusted key {id}.",
+  "verify.importFailed": "Could not import the key.",
+  "verify.ownKey": "This device's own key is always trusted.",
+  "verify.remove": "Remove",
+  "verify.removeConfirm": "Stop trusting {name} ({id})?",
+  "verify.keyId": "Key id:",
+  "verify.keyNote": "Evidence packages from this device are signed with this key. Give the key file, or read the id out, to whoever verifies them.",
+  "verify.downloadKey": "Download public key",
+  "verify.keyFailed": "Could not read the signing key.",
+  "dashboard.needsAction": "Needs action",
+  "dashboard.all": "All",
+  "dashboard.count": "{count} report(s)",
+  "dashboard.empty": "Inbox is empty.",
+  "dashboard.sameSiteTitle": "Reports of the same site",
+  "dashboard.assigned": "Assigned: {name}",
+  "dashboard.unassigned": "Unassigned",
+  "dashboard.rawGps": "Raw GPS:",
+  "dashboard.contact": "Contact: {contact}",
+  "dashboard.inside": "Inside: {names}",
+  "dashboard.officerUnset": "Set your officer name in Settings before taking action.",
+  "dashboard.mergedInto": "Merged into",
+  "dashboard.sameSite": "Same site — {count} reports",
+  "dashboard.merge": "Merge {count} into this report",
+  "dashboard.mergeFailed": "Could not merge.",
+  "dashboard.merged": "Merged reports ({count})",
+  "dashboard.media": "{count} media",
+  "dashboard.status": "Status",
+  "dashboard.waiting": "Waiting for the reporter.",
+  "dashboard.final": "No further changes allowed.",
+  "dashboard.reasonHint": "Reason / note (required where marked *)",
+  "dashboard.notAllowed": "Action not allowed.",
+  "dashboard.assignment": "Assignment",
+  "dashboard.team": "District team",
+  "dashboard.officer": "Officer",
+  "dashboard.name": "Name",
+  "dashboard.assign": "Assign",
+  "dashboard.unassign": "Unassign",
+  "dashboard.history": "History",
+  "dashboard.by": "by {name}",
+  "dashboard.notes": "Internal notes",
+  "dashboard.noteHint": "Add a note (not visible to the reporter)",
+  "dashboard.addNote": "Add",
+  "analytics.title": "Incident Analytics",
+  "analytics.lastDays": "Last {days} days",
+  "analytics.daily": "Daily",
+  "analytics.weekly": "Weekly",
+  "analytics.monthly": "Monthly",
+  "analytics.range": "{from} – {to} • merged duplicates count once",
+  "analytics.resolution": "Resolution by category",
+  "analytics.empty": "No reports in this period.",
+  "analytics.category": "Category",
+  "analytics.reports": "Reports",
+  "analytics.resolved": "Resolved",
+  "analytics.open": "Open",
+  "analytics.median": "Median to resolve",
+  "analytics.p90": "90th percentile",
+  "analytics.overTime": "Reports over time by",
+  "analytics.byCategory": "category",
+  "analytics.byHazard": "checklist hazard",
+  "analytics.funnel": "Status funnel (all time)",
+  "analytics.hotspots": "Hotspots by",
+  "analytics.byDistrict": "district",
+  "analytics.byRegion": "region",
+  "analytics.openCount": "{count} open",
+  "analytics.hours": "{n} h",
+  "analytics.days": "{n} d",
+  "analytics.csv": "CSV",
+  "analytics.period": "Period",
+  "analytics.status": "Status",
+  "analytics.area": "Area",
+  "analytics.region": "Region",
+  "analytics.medianHours": "Median hours to resolve",
+  "analytics.p90Hours": "90th percentile hours",
+
+  // upload when safe: report card
+  "safe.status": "Safe upload:",
+  "safe.ready": "Ready",
+  "safe.locked": "Locked",
+  "safe.release": "Release now",
+  "safe.releaseConfirm": "Send this report as soon as there is a connection? Only do this if you are away from the site and safe.",
+  "safe.manual": "Manual release is on: release it yourself when you are safe",
+  "safe.noCapturePoint": "No capture point recorded: wait {mins} more min",
+  "safe.distance": "Move at least {meters} m away and stay there ({progress}), or wait {mins} more min",
+  "safe.noFixYet": "no accurate location fix yet",
+  "safe.progress": "now about {clear} m clear, {fixes} of {need} fixes",
+  "safe.quietHours": "Quiet hours until {until}: only released once you are away from the site",
+  "safe.noHome": "Home Wi-Fi only, but no home location is set",
+  "safe.homeNoFix": "Home Wi-Fi only: waiting for a location fix",
+  "safe.notHome": "Home Wi-Fi only: you are not at home",
+  "safe.mobileData": "Home Wi-Fi only: on mobile data",
+  "safe.unknownConnection": "Home Wi-Fi only: this device can't tell Wi-Fi from mobile data",
+  // upload when safe: settings
+  "safe.minMeters": "Minimum move distance (meters)",
+  "safe.maxWaitMins": "Max wait time (minutes)",
+  "safe.minFixes": "Location fixes in a row",
+  "safe.sustainSecs": "Stay away for at least (seconds)",
+  "safe.maxAccuracyM": "Ignore fixes less accurate than (meters)",
+  "safe.rule": "A report unlocks once several accurate location fixes in a row, over the time above, are all at least this distance from where it was captured (GPS accuracy is subtracted), or after waiting the maximum time.",
+  "safe.quietToggle": "Quiet hours: don't release near the site",
+  "safe.quietTo": "to",
+  "safe.quietNote": "During these hours the waiting time doesn't release anything; only moving away does.",
+  "safe.homeWifi": "Only upload on home Wi-Fi",
+  "safe.homeSet": "Home location set.",
+  "safe.homeUnset": "No home location yet.",
+  "safe.setHome": "Set home to my current location",
+  "safe.homeWifiNote": "Needs a browser that reports the connection type (Chrome on Android). Elsewhere reports stay locked until you release them.",
+  "safe.manualToggle": "Manual release only: nothing is sent until I press \"{release}\" on the report",
+
+  // safety & help
+  "safety.distance": "*Do not confront miners.* Keep your distance; your safety is first.",
+  "safety.landmarks": "Capture *landmarks* (bridges, bends) rather than faces/plates.",
+  "safety.blur": "Use a *blur radius* so the public map hides exact points.",
+  "safety.anonymous": "You are *anonymous by default*. Share contact only if you want follow-up/reward.",
+  "help.title": "Safety & Privacy",
+  "help.geo": "*Geo-privacy:* Public maps show blurred pins; authorized dashboards (future phase) can access exact coordinates.",
+  "help.escrow": "*Identity escrow:* If you opt for follow-up/reward, your contact is stored locally here; sharing to authorities would require a secure backend (future phase).",
+  "help.offline": "*Offline-first:* Reports save locally and sync when you tap Sync or regain data.",
+  "help.stealth": "*Stealth tips:* Stealth hides previews and queues upload; it can’t mute the hardware shutter—please silence your phone.",
+
+  // settings
+  "settings.language": "Language",
+  "settings.languageNote": "Checklist items can be read aloud. Recorded prompts are used where available, otherwise the phone’s voice.",
+  "settings.role": "Role",
+  "settings.reporter": "Reporter",
+  "settings.authority": "Authority officer",
+  "settings.officerName": "Officer name",
+  "settings.officerNameHint": "Recorded on every change you make",
+  "settings.team": "District team",
+  "settings.teamHint": "e.g., Amansie West task force",
+  "settings.contacts": "Authority Contacts (SMS/USSD Fallback)",
+  "settings.smsNumber": "SMS Number",
+  "settings.smsNumberHint": "e.g., 190 or +233XXXXXXXXX",
+  "settings.ussdCode": "USSD Code",
+  "settings.ussdCodeHint": "e.g., *920#",
+  "settings.contactsNote": "These are stored only on your device and used to open your SMS app or dialer.",
+  "settings.sync": "Sync Server",
+  "settings.endpoint": "Endpoint URL",
+  "settings.endpointHint": "e.g., https://reports.example.gov.gh/api",
+  "settings.endpointNote": "Leave empty to use the built-in demo server: reports are marked received but never leave this device.",
+  "settings.safeUpload": "Upload-When-Safe Policy",
+  "settings.vault": "PIN Vault (encrypt reports on this device)",
+  "settings.panic": "Panic Wipe & Duress PIN",
+  "settings.signingKey": "Evidence Signing Key",
+  "settings.ussdDial": "USSD Quick Dial",
+  "settings.ussdDialButton": "Dial USSD",
+  "settings.ussdUnset": "Set a USSD code first in Settings.",
+  "settings.ussdNote": "Note: Some devices/browsers restrict USSD links. Copy & dial manually if needed.",
+  "settings.ussdSimulator": "USSD Menu Simulator",
+
+  // lock screen, PIN vault & panic wipe
+  "lock.title": "Enter PIN",
+  "lock.pin": "PIN",
+  "lock.unlock": "Unlock",
+  "lock.unlocking": "Unlocking…",
+  "lock.wrongPin": "Wrong PIN.",
+  "lock.openFailed": "Could not open device storage.",
+  "vault.newPin": "New PIN",
+  "vault.confirmPin": "Confirm PIN",
+  "vault.pinHint": "At least {digits} digits",
+  "vault.repeatPin": "Repeat PIN",
+  "vault.enable": "Enable PIN vault",
+  "vault.encrypting": "Encrypting…",
+  "vault.enabled": "Vault enabled. Reports are now encrypted.",
+  "vault.note": "Encrypts reports, contact details and media on this device. A forgotten PIN cannot be recovered.",
+  "vault.lockNow": "Lock now",
+  "vault.autoLock": "Auto-lock after",
+  "vault.autoLockUnit": "mins idle",
+  "vault.currentPin": "Current PIN",
+  "vault.confirmNewPin": "Confirm new PIN",
+  "vault.repeatNewPin": "Repeat new PIN",
+  "vault.change": "Change PIN",
+  "vault.changed": "PIN changed. Reports were re-encrypted.",
+  "vault.sameAsDuress": "New PIN must differ from your duress PIN.",
+  "vault.wrongPin": "Current PIN is wrong.",
+  "vault.disable": "Disable vault",
+  "vault.disabled": "Vault disabled. Reports are stored unencrypted.",
+  "vault.updateFailed": "Could not update device storage.",
+  "panic.duressPin": "Duress PIN",
+  "panic.needsVault": "Enable the PIN vault first. Entering the duress PIN on the lock screen wipes everything.",
+  "panic.duressSet": "Duress PIN is set.",
+  "panic.remove": "Remove",
+  "panic.duressHint": "Different from your PIN",
+  "panic.set": "Set",
+  "panic.sameAsVault": "Duress PIN must differ from your vault PIN.",
+  "panic.gesture": "Panic gesture: tap the app title 5 times quickly to wipe",
+  "panic.uploadFirst": "If online, send reports that are safe to upload before wiping (adds a few seconds)",
+  "panic.wipe": "Wipe everything now",
+  "panic.wipeConfirm": "Erase all reports, media, contact info and settings from this device?",
+  "panic.note": "After a wipe the app shows an empty notes screen. Nothing can be recovered.",
+  // the decoy shown after a wipe: an ordinary notes pad
+  "decoy.title": "Notes",
+  "decoy.new": "New note",
+  "decoy.add": "Add",
+  "decoy.empty": "No notes",
+
+  // offline maps
+  "tiles.intro": "Download map tiles for an area so the map works without signal. Packs expire after {days} days; expired tiles are still shown offline and refreshed automatically when you are online.",
+  "tiles.area": "Area",
+  "tiles.custom": "Custom…",
+  "tiles.name": "Pack name",
+  "tiles.north": "North",
+  "tiles.south": "South",
+  "tiles.west": "West",
+  "tiles.east": "East",
+  "tiles.zoomFrom": "Zoom from",
+  "tiles.zoomTo": "to",
+  "tiles.count": "{tiles} tiles (~{size})",
+  "tiles.tooBig": " — over the {max} tile limit",
+  "tiles.download": "Download",
+  "tiles.offline": "Connect to download.",
+  "tiles.cancel": "Cancel",
+  "tiles.packs": "Downloaded packs",
+  "tiles.none": "None yet.",
+  "tiles.packInfo": "z{min}–{max} • {tiles} tiles • {size}",
+  "tiles.expired": "Expired {date}",
+  "tiles.expires": "Expires {date}",
+  "tiles.missing": " • {count} missing",
+  "tiles.refresh": "Refresh",
+  "tiles.refreshing": "Refreshing {name}",
+  "tiles.delete": "Delete",
+  "tiles.usage": "Storage used by this app:",
+  "tiles.quota": " of {size} available",
+  "tiles.failed": "{count} tile(s) could not be downloaded. Refresh the pack later to fill the gaps.",
+  "tiles.downloadFailed": "Download failed.",
+
+  // SMS inbox & USSD simulator
+  "smsInbox.decode": "Decode & add",
+  "smsInbox.summary": "{added} added, {known} already received, {waiting} waiting for parts, {rejected} rejected",
+  "smsInbox.partial": "{ref}: {have} of {total} parts (kept above)",
+  "ussd.dialled": "Dialled {code}",
+  "ussd.noCode": "(no code set)",
+  "ussd.send": "Send",
+  "ussd.dialAgain": "Dial again",
+  "ussd.hangUp": "Hang up",
+  "ussd.input": "Gateway input:",
+  "ussd.empty": "(empty)",
+  "ussd.reply": "Reply:",
+  "ussd.keys": "0 goes back, 98 shows more of a long list, 00 returns to the main menu.",
+  "ussd.at": "At {lat}, {lon} (±{accuracy} m)",
+  "ussd.add": "Add to reports",
+  "ussd.added": "Added",
+
+  "footer": "Demo only • All data stored locally in your browser • Built for AAMUSTED project",
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Partial<Record<MessageKey, string>>;
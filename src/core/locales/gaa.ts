@@ -0,0 +1,204 @@
+import type { Catalog } from "./en";
+
+// Ga. Draft wording: to be checked with native-speaker reviewers before release.
+export const gaa: Catalog = {
+  "app.tagline": "Teemɔŋ saji klɛŋklɛŋ • Etsuɔ nii kɛ́ intanɛt bɛ po",
+  "status.online": "Intanɛt yɛ",
+  "status.offline": "Intanɛt bɛ",
+  "sync.run": "Ha",
+  "sync.busy": "Miiha…",
+  "tab.report": "Amanieɔ hee",
+  "tab.my": "Mi amanieɔi",
+  "tab.map": "Shikpɔŋ mfoniri",
+  "tab.help": "Yelikɛbuamɔ",
+  "tab.settings": "Toomɔi",
+  "storage.openFailed": "Wanyɛɛ wɔgbele foni lɛ mli toohe lɛ.",
+  "storage.saveFailed": "Wanyɛɛ wɔto yɛ foni lɛ mli. Jiemɔ nibii komɛi kɛjɛ nɔ ni oka ekoŋŋ.",
+  "sync.offline": "Intanɛt bɛ. Ka ekoŋŋ kɛ́ intanɛt ba.",
+  "sync.incomplete": "Hamɔ lɛ efeee naa: {count} enyɛɛɛ, wɔbaaha ekoŋŋ.",
+  "sync.failed": "Hamɔ lɛ enyɛɛɛ. Amanieɔi lɛ yɛ foni nɛɛ nɔ amɛmiimɛ.",
+
+  "form.title": "Amanieɔ wolo",
+  "form.category": "Nɔ ni onaa",
+  "form.select": "Hala ekome…",
+  "form.gps": "He ni oyɔɔ",
+  "form.useLocation": "Kɛ he ni miyɔɔ",
+  "form.noLocation": "He lɛ bɛ kɛbashi ŋmɛnɛ",
+  "form.description": "Tsɔɔmɔ",
+  "form.descriptionHint": "Mɛni onaa? Mɛɛ be? Mɛni bɛŋkɛ jɛmɛ?",
+  "form.checklistMode": "Kɛ mfonirii kɛ gbee ha amanieɔ (kɛji okaneee nɔ)",
+  "form.activityType": "Nitsumɔ ni amɛfeɔ",
+  "form.hazardsSeen": "Oshara ni onaa",
+  "form.whenRisk": "Be kɛ oshara",
+  "form.timeOfDay": "Mɛɛ be…",
+  "form.riskLevel": "Oshara lɛ wulu…",
+  "form.listen": "Bo toi",
+  "form.capturePrivacy": "Mfoniri shɛmɔ kɛ teemɔŋ saji",
+  "form.stealth": "Teemɔŋ gbɛ (mfoniri ko jeee kpo yɛ skrin lɛ nɔ)",
+  "form.uploadWhenSafe": "Ha kɛ́ toiŋjɔlɛ yɛ (tsi ofa {meters} m loo mɛ miniti {mins})",
+  "form.shutterNote": "Kaimɔ: browser nyɛŋ egbe kamera lɛ gbee; ha foni lɛ adamɔ dioo dani oshɛ yɛ teemɔŋ.",
+  "form.privacy": "Teemɔŋ saji",
+  "form.anonymous": "Mɔ ko leee bo gbɛi",
+  "form.shareContact": "Ha bo namba (kɛ́ oosumɔ ni atsɛ bo loo nyɔmɔwoo)",
+  "form.phone": "Foni namba",
+  "form.email": "Email",
+  "form.callback": "Atsɛ mi ekoŋŋ",
+  "form.preferredTime": "Be ni hi kɛha bo (tamɔ 16:00–18:00)",
+  "form.reward": "Kwɛmɔ mi kɛha nyɔmɔwoo (taakɛ mla lɛ tsɔɔ)",
+  "form.addPhoto": "Kɛ mfoniri fata he",
+  "form.addVideo": "Kɛ sini fata he",
+  "form.addVoice": "Kɛ gbee fata he",
+  "form.recordVideo": "Shɛ sini",
+  "form.recordVoice": "Shɛ bo gbee",
+  "form.budget": "{used} kɛjɛ {total} mli",
+  "form.stealthRecording": " • teemɔŋ: skrin lɛ baaduŋ, ŋmɛ nɔ shii enyɔ ni okpa",
+  "form.redact": "Ha nɔ",
+  "form.remove": "Jiemɔ",
+  "form.locked": "ashwie naa",
+  "form.fileTooBig": "Fael nɛɛ ji {size} shi {left} pɛ shwɛ kɛha amanieɔ nɛɛ. Shɛ yɛ app nɛɛ mli moŋ, ehaa fael lɛ feɔ bibioo.",
+  "form.unscrubbable": "Wɔnyɛŋ wɔjie he lɛ kɛ foni lɛ he saji kɛjɛ fael nɛɛ mli. Okɛ baafata he nakai?",
+  "form.fileFailed": "Wanyɛɛ wɔtsu fael lɛ he nii. Kɛ fael bibioo ko.",
+  "form.recordBudget": "Shɛmɔ lɛ etee: amanieɔ nɛɛ nibii he eyi.",
+  "form.recordMaxLength": "Shɛmɔ lɛ etee: eshɛ elɛŋ naa.",
+  "capture.unsupported": "Browser nɛɛ nyɛŋ eshɛ. Kɛ fael kɛjɛ foni lɛ nɔ moŋ.",
+  "capture.budget": "Amanieɔ nɛɛ nibii he eyi. Jiemɔ ekome loo ojɛ amanieɔ hee shishi.",
+  "capture.denied": "Akpɛlɛɛɛ ni kamera/maekrofon lɛ atsu nii.",
+  "capture.device": "Wanyɛɛ wɔgbele kamera loo maekrofon lɛ.",
+  "capture.failed": "Shɛmɔ lɛ enyɛɛɛ.",
+  "capture.recordingVideo": "Miishɛ sini • {time} / {max}",
+  "capture.recordingVoice": "Miishɛ gbee • {time} / {max}",
+  "capture.size": "{used} kɛjɛ {max} mli",
+  "capture.stop": "Kpa",
+  "capture.stealthStop": "{time} • ŋmɛ nɔ shii enyɔ ni okpa",
+  "redact.title": "Ha gbɔmɛi ahiɛ, lɔle namba loo nibii ni kpɛɔ anɔ",
+  "redact.hint": "Gbala adeka yɛ he fɛɛ he nɔ. Nɔ ni oha nɔ lɛ pɛ wɔbaato.",
+  "redact.loading": "Miiba…",
+  "redact.pixelate": "Ha efee kpɔtɔɔ",
+  "redact.fill": "Adeka diŋ",
+  "redact.undo": "Tsimɔ sɛɛ",
+  "redact.areas": "He {count}",
+  "redact.cancel": "Kpa",
+  "redact.save": "To nɔ ni oha nɔ lɛ",
+  "redact.asIs": "Kɛ taakɛ eyɔɔ",
+  "redact.saveFailed": "Wanyɛɛ wɔto mfoniri ni oha nɔ lɛ.",
+  "form.stealthMedia": "Teemɔŋ gbɛ lɛ egbele — mfonirii jeee kpo. Wɔbaaha nibii lɛ kɛ́ toiŋjɔlɛ yɛ.",
+  "form.blur": "He lɛ hamɔ nɔ (mita)",
+  "form.blurSelected": "Nɔ ni ohala:",
+  "form.blurNote": "Maŋ shikpɔŋ mfoniri lɛ haa he lɛ diɛŋtsɛ nɔ aaafee nakai. Nɔyelɔi baanyɛ ana he diɛŋtsɛ lɛ.",
+  "form.submit": "Ha amanieɔ lɛ",
+  "form.smsFallback": "SMS kɛ́ intanɛt bɛ",
+  "form.smsHint": "Gbele Mi amanieɔi → ‘SMS wolo’ ni oŋma wolo lɛ.",
+  "form.smsUnset": "Ya Toomɔi ni owo SMS namba klɛŋklɛŋ.",
+  "form.incomplete": "Hala nɔ ni onaa (loo kɛ mfonirii), ŋmala mli, ni okɛ he ni oyɔɔ.",
+  "form.preview": "Shikpɔŋ mfoniri ni tsɔɔ hamɔ nɔ (Maŋ kɛ Teemɔŋ)",
+  "view.current": "Nɔ ni okwɛɔ ŋmɛnɛ:",
+  "view.private": "Teemɔŋ (diɛŋtsɛ)",
+  "view.public": "Maŋ (aha nɔ)",
+  "view.toggle": "Tsake",
+  "stealth.on": "Teemɔŋ gbɛ lɛ egbele",
+
+  "type.riverDredging": "Faa mli shika tsumɔ",
+  "type.excavator": "Ekskaveta yɛ koo lɛ mli",
+  "type.chemical": "Tsofa fɔŋ ni amɛkɛtsuɔ nii",
+  "type.trucking": "Nyɔɔŋ lɔle",
+  "type.pitHazard": "Bu ni ji oshara",
+  "type.other": "Ekrokomɛ",
+  "hazard.mercury": "Tsofa fɔŋ / mɛkuri",
+  "hazard.riverSilt": "Faa lɛ etse",
+  "hazard.noise": "Nyɔɔŋ gbɛɛmɔ",
+  "hazard.smoke": "La / lasu",
+  "hazard.publicRisk": "Bui ni egbele yɛ gbɔmɛi ahe",
+  "time.Morning": "Leebi",
+  "time.Afternoon": "Shwane",
+  "time.Evening": "Gbɛkɛ",
+  "time.Night": "Nyɔɔŋ",
+  "risk.Low": "Bibioo",
+  "risk.Medium": "Teŋ",
+  "risk.High": "Wulu",
+  "checklist.summary": "Mfoniri amanieɔ — Nitsumɔ: {types}. Oshara: {hazards}. Be: {time}. Oshara wulu: {risk}.",
+  "checklist.none": "(eko bɛ)",
+  "checklist.unspecified": "atsɔɔɔ",
+
+  "my.title": "Mi amanieɔi",
+  "my.empty": "Amanieɔ ko bɛ kɛbashi ŋmɛnɛ. Ya “Amanieɔ hee” ni oha klɛŋklɛŋ lɛ.",
+  "my.exportJson": "Jie JSON",
+  "my.locate": "Kwɛ yɛ shikpɔŋ mfoniri lɛ nɔ",
+  "my.smsDraft": "SMS wolo",
+  "my.moreInfo": "Ha saji krokomɛi",
+  "my.delete": "Ŋmɛ",
+  "my.corroborated": "He kome too kɛ amanieɔi {n} krokomɛi",
+  "my.possibleDuplicate": "Ekolɛ eji ekome kɛ",
+  "my.mergedInto": "Akɛfata",
+  "my.blurRadius": "Hamɔ nɔ {meters} m",
+  "my.protectedArea": "He ni abuɔ he: {names}",
+  "my.audio": "Gbee: {name}",
+  "my.evidence": "Odasefeemɔ kotoku",
+  "my.evidenceFailed": "Wanyɛɛ wɔfee odasefeemɔ kotoku lɛ.",
+  "my.smsUnset": "Ya Toomɔi ni owo SMS namba klɛŋklɛŋ.",
+  "my.moreInfoPrompt": "Mɛni ekoŋŋ obaanyɛ okɛɛ nɔyelɔi yɛ amanieɔ nɛɛ he?",
+  "sms.parts": "Amanieɔ nɛɛ taoɔ woji {count}. Ha ekome fɛɛ, etsɛŋ gbɛjianɔtoo:",
+  "sms.part": "Fã {n}/{count}",
+  "sms.close": "Ŋa",
+  "import.hint": "Oootsake foni loo oobua kɛjɛ yelikɛbualɔi aŋɔɔ? Kɛ JSON, GeoJSON loo odasefeemɔ zip ba.",
+  "import.button": "Kɛba…",
+  "import.summary": "Nɔ ni okɛba: {added} hee, {merged} akɛfata, {unchanged} yɛ momo, {rejected} akpɛlɛɛɛ",
+  "import.dismiss": "Jiemɔ",
+  "export.kml": "KML (Google Earth)",
+  "export.public": "Maŋ (aha nɔ, namba kɛ mfonirii bɛ)",
+  "export.private": "Teemɔŋ (nɔyelɔi)",
+  "export.bundleMedia": "Kɛ mfonirii fata he (zip)",
+  "export.selected": "Jie {count} ni ohala",
+  "export.shown": "Jie {count} ni jeɔ kpo",
+  "export.clearSelection": "Jiemɔ nɔ ni ohala fɛɛ",
+  "export.none": "Amanieɔ ko bɛ ni obaajie.",
+  "export.allSuppressed": "Eko bɛ ni obaajie: maŋ he taoɔ amanieɔi {k} yɛ he kome, ni enɛɛmɛi ateŋ ekome kwraa eshɛko nakai.",
+  "export.someSuppressed": "Wɔjieee amanieɔi {count} kɛha maŋ, ejaakɛ amanieɔi fioo pɛ yɛ amɛhe.",
+  "export.failed": "Jiemɔ lɛ enyɛɛɛ. Kɛ amanieɔi fioo loo okɛ mfonirii afataaa he.",
+  "filter.allCategories": "Nɔ ni onaa fɛɛ",
+  "filter.allStatuses": "Shihilɛi fɛɛ",
+  "filter.allAreas": "Hei fɛɛ",
+  "filter.anyZone": "He fɛɛ he ni abuɔ he",
+  "filter.from": "Kɛjɛ",
+  "filter.to": "Kɛyashi",
+
+  "safe.status": "Hamɔ ni toiŋjɔlɛ yɛ mli:",
+  "safe.ready": "Esaa",
+  "safe.locked": "Ashwie naa",
+  "safe.release": "Ha ŋmɛnɛ",
+  "safe.releaseConfirm": "Oha amanieɔ nɛɛ amrɔ nɔŋŋ kɛ́ intanɛt ba? Fee enɛ kɛ́ ojɛ he lɛ ni toiŋjɔlɛ yɛ bo pɛ.",
+  "safe.manual": "Bo diɛŋtsɛ obaaha: ha kɛ́ toiŋjɔlɛ yɛ bo",
+  "safe.noCapturePoint": "He ni oshɛ lɛ bɛ: mɛ miniti {mins} ekoŋŋ",
+  "safe.distance": "Tsi ofa {meters} m ni ohi jɛmɛ ({progress}), loo mɛ miniti {mins} ekoŋŋ",
+  "safe.noFixYet": "he diɛŋtsɛ bɛ kɛbashi ŋmɛnɛ",
+  "safe.progress": "ŋmɛnɛ aaafee {clear} m, {fixes} kɛjɛ {need} mli",
+  "safe.quietHours": "Dioo be kɛyashi {until}: wɔbaaha kɛ́ ojɛ he lɛ pɛ",
+  "safe.noHome": "Shia Wi-Fi pɛ, shi owoko bo shia he",
+  "safe.homeNoFix": "Shia Wi-Fi pɛ: miimɛ he lɛ",
+  "safe.notHome": "Shia Wi-Fi pɛ: oyɛŋ shia",
+  "safe.mobileData": "Shia Wi-Fi pɛ: okɛ mobile data tsuɔ nii",
+  "safe.unknownConnection": "Shia Wi-Fi pɛ: foni nɛɛ leee Wi-Fi kɛ mobile data teŋ",
+
+  "safety.distance": "*Kaatawo shika tsulɔi lɛ.* Ha ofa; bo hewalɛ ji nɔ klɛŋklɛŋ.",
+  "safety.landmarks": "Shɛ *nibii ni ajeɔ kpo* (tɛtɛi, gbɛ kɔji) mfoniri, jeee gbɔmɛi ahiɛ loo lɔle namba.",
+  "safety.blur": "Kɛ *hamɔ nɔ* tsu nii koni maŋ shikpɔŋ mfoniri lɛ akatsɔɔ he diɛŋtsɛ.",
+  "safety.anonymous": "*Mɔ ko leee bo gbɛi.* Ha bo namba kɛ́ oosumɔ ni atsɛ bo loo nyɔmɔwoo pɛ.",
+  "help.title": "Toiŋjɔlɛ kɛ teemɔŋ saji",
+  "help.geo": "*He teemɔŋ saji:* Maŋ shikpɔŋ mfonirii tsɔɔ he ni aha nɔ; nɔyelɔi (wɔsɛɛ) baanyɛ ana he diɛŋtsɛ.",
+  "help.escrow": "*Bo gbɛi he bulɛ:* Kɛ́ oosumɔ ni atsɛ bo loo nyɔmɔwoo lɛ, bo namba yɛ foni nɛɛ nɔ; kɛ́ ebaaya nɔyelɔi aŋɔɔ lɛ, ehe server ni toiŋjɔlɛ yɛ mli (wɔsɛɛ).",
+  "help.offline": "*Kɛ́ intanɛt bɛ:* Amanieɔi yɛ foni lɛ nɔ ni amɛyaa kɛ́ oŋmɛ Ha nɔ loo intanɛt ba.",
+  "help.stealth": "*Teemɔŋ ŋaawoo:* Teemɔŋ gbɛ haa mfonirii anɔ ni emɛɔ dani eha; enyɛŋ egbe kamera gbee—ha bo foni adamɔ dioo.",
+
+  "settings.language": "Wiemɔ",
+  "settings.languageNote": "Abaanyɛ akane mfoniri wolo lɛ nɔ nibii. Wɔkɛ gbee ni ashɛ tsuɔ nii, kɛ́ ebɛ lɛ, foni lɛ gbee.",
+
+  "lock.title": "Wo PIN lɛ",
+  "lock.pin": "PIN",
+  "lock.unlock": "Gbele",
+  "lock.unlocking": "Miigbele…",
+  "lock.wrongPin": "PIN lɛ jaaa.",
+  "lock.openFailed": "Wanyɛɛ wɔgbele foni lɛ mli toohe lɛ.",
+  "decoy.title": "Niŋmai",
+  "decoy.new": "Niŋmaa hee",
+  "decoy.add": "Fata he",
+  "decoy.empty": "Niŋmaa ko bɛ",
+};
@@ -0,0 +1,205 @@
+import type { Catalog } from "./en";
+
+// Akan / Twi (Asante). Draft wording: to be checked with native-speaker reviewers before release.
+export const tw: Catalog = {
+  "app.tagline": "Kokoamsɛm di kan • Ɛyɛ adwuma a intanɛt nni hɔ mpo",
+  "status.online": "Intanɛt wɔ hɔ",
+  "status.offline": "Intanɛt nni hɔ",
+  "sync.run": "Soma",
+  "sync.busy": "Ɛresoma…",
+  "tab.report": "Amanneɛbɔ foforɔ",
+  "tab.my": "Me amanneɛbɔ",
+  "tab.map": "Asase mfonini",
+  "tab.help": "Mmoa ne ahobammɔ",
+  "tab.settings": "Nhyehyɛeɛ",
+  "storage.openFailed": "Yɛantumi ammue fon no so akoraeɛ.",
+  "storage.saveFailed": "Yɛantumi ankora wɔ fon no so. Yi nneɛma bi firi so na bɔ mmɔden bio.",
+  "sync.offline": "Intanɛt nni hɔ. Bɔ mmɔden bio sɛ intanɛt ba a.",
+  "sync.incomplete": "Soma no anwie: {count} ammɔ yie, yɛbɛsan asoma bio.",
+  "sync.failed": "Soma no ammɔ yie. Amanneɛbɔ no da fon yi so retwɛn.",
+
+  "form.title": "Amanneɛbɔ krataa",
+  "form.category": "Deɛ wohunuiɛ",
+  "form.select": "Yi baako…",
+  "form.gps": "Beaeɛ",
+  "form.useLocation": "Fa me beaeɛ",
+  "form.noLocation": "Beaeɛ nni hɔ da",
+  "form.description": "Kyerɛkyerɛ mu",
+  "form.descriptionHint": "Ɛdeɛn na wohunuiɛ? Ɛberɛ bɛn? Dɛn na ɛbɛn hɔ?",
+  "form.checklistMode": "Fa mfonini ne nne yɛ amanneɛbɔ (sɛ wontumi nkenkan a)",
+  "form.activityType": "Adwuma a wɔreyɛ",
+  "form.hazardsSeen": "Asiane a wohunuiɛ",
+  "form.whenRisk": "Ɛberɛ ne asiane",
+  "form.timeOfDay": "Ɛberɛ bɛn…",
+  "form.riskLevel": "Asiane no kɛseɛ…",
+  "form.listen": "Tie",
+  "form.capturePrivacy": "Mfonini twa ne kokoamsɛm",
+  "form.stealth": "Kokoam kwan (mfonini biara nna adi wɔ skrin so)",
+  "form.uploadWhenSafe": "Soma sɛ ahobammɔ wɔ hɔ a (tu kɔ {meters} m anaa twɛn simma {mins})",
+  "form.shutterNote": "Hyɛ no nsow: browser ntumi nnum kamera no nne; yɛ wo fon no komm ansa na woatwa kokoam.",
+  "form.privacy": "Kokoamsɛm",
+  "form.anonymous": "Obi nnhu wo din",
+  "form.shareContact": "Ma wo nɔma (sɛ wɔbɛfrɛ wo anaa akatua)",
+  "form.phone": "Fon nɔma",
+  "form.email": "Email",
+  "form.callback": "Frɛ me bio",
+  "form.preferredTime": "Ɛberɛ a ɛyɛ ma wo (sɛ 16:00–18:00)",
+  "form.reward": "Hwɛ me ma akatua (sɛdeɛ mmara no teɛ)",
+  "form.addPhoto": "Fa mfonini ka ho",
+  "form.addVideo": "Fa sini ka ho",
+  "form.addVoice": "Fa nne ka ho",
+  "form.recordVideo": "Twa sini",
+  "form.recordVoice": "Kyere wo nne",
+  "form.budget": "{used} firi {total} mu",
+  "form.stealthRecording": " • kokoam: skrin no bɛyɛ sum, bɔ so mprenu na gyae",
+  "form.redact": "Kata so",
+  "form.remove": "Yi firi mu",
+  "form.locked": "ato mu",
+  "form.fileTooBig": "Fael yi yɛ {size} nanso {left} pɛ na aka ma amanneɛbɔ yi. Twa wɔ app yi mu mmom, ɛma fael no yɛ ketewa.",
+  "form.unscrubbable": "Yɛrentumi nyi beaeɛ ne fon ho nsɛm mfiri fael yi mu. Wode bɛka ho ara?",
+  "form.fileFailed": "Yɛantumi anyɛ fael no ho hwee. Fa fael ketewa bi.",
+  "form.recordBudget": "Twa no agyae: amanneɛbɔ yi nneɛma kwan ayɛ ma.",
+  "form.recordMaxLength": "Twa no agyae: ɛduru ne tenten ano.",
+  "capture.unsupported": "Browser yi ntumi ntwa. Fa fael firi fon no so mmom.",
+  "capture.budget": "Amanneɛbɔ yi nneɛma kwan ayɛ ma. Yi biako firi mu anaa fi amanneɛbɔ foforɔ ase.",
+  "capture.denied": "Wɔampene sɛ kamera/maekrofon no nyɛ adwuma.",
+  "capture.device": "Yɛantumi ammue kamera anaa maekrofon no.",
+  "capture.failed": "Twa no ammɔ yie.",
+  "capture.recordingVideo": "Ɛretwa sini • {time} / {max}",
+  "capture.recordingVoice": "Ɛrekyere nne • {time} / {max}",
+  "capture.size": "{used} firi {max} mu",
+  "capture.stop": "Gyae",
+  "capture.stealthStop": "{time} • bɔ so mprenu na gyae",
+  "redact.title": "Kata nnipa anim, kaa nɔma anaa nneɛma a ɛhyerɛn so",
+  "redact.hint": "Twe adaka kata beaeɛ biara so. Deɛ woakata so no nko ara na yɛbɛkora.",
+  "redact.loading": "Ɛreba…",
+  "redact.pixelate": "Yɛ no kusuu",
+  "redact.fill": "Adaka tuntum",
+  "redact.undo": "San no",
+  "redact.areas": "Beaeɛ {count}",
+  "redact.cancel": "Gyae",
+  "redact.save": "Kora deɛ woakata so",
+  "redact.asIs": "Fa no sɛdeɛ ɛte",
+  "redact.saveFailed": "Yɛantumi ankora mfonini a woakata so no.",
+  "form.stealthMedia": "Kokoam kwan abue — mfonini nna adi. Yɛbɛsoma nneɛma no sɛ ahobammɔ wɔ hɔ a.",
+  "form.blur": "Beaeɛ kata (mita)",
+  "form.blurSelected": "Deɛ woayi:",
+  "form.blurNote": "Ɔmanfoɔ asase mfonini no kata beaeɛ pɔtee no so bɛyɛ saa kwansini yi. Aban adwumayɛfoɔ tumi hunu beaeɛ pɔtee no.",
+  "form.submit": "Soma amanneɛbɔ no",
+  "form.smsFallback": "SMS sɛ intanɛt nni hɔ a",
+  "form.smsHint": "Bue Me amanneɛbɔ → ‘SMS nkrato’ na kyerɛw nkrato no.",
+  "form.smsUnset": "Kɔ Nhyehyɛeɛ na fa SMS nɔma hyɛ mu kane.",
+  "form.incomplete": "Yi deɛ wohunuiɛ (anaa fa mfonini no), kyerɛkyerɛ mu, na fa wo beaeɛ.",
+  "form.preview": "Asase mfonini a ɛkyerɛ kata (Ɔmanfoɔ ne Kokoam)",
+  "view.current": "Deɛ wohwɛ seesei:",
+  "view.private": "Kokoam (pɔtee)",
+  "view.public": "Ɔmanfoɔ (akata so)",
+  "view.toggle": "Sesa",
+  "stealth.on": "Kokoam kwan no abue",
+
+  "type.riverDredging": "Asubɔnten mu sika tuo",
+  "type.excavator": "Ɛkskavetɔ wɔ kwaeɛ mu",
+  "type.chemical": "Nnuro bɔne a wɔde di dwuma",
+  "type.trucking": "Anadwo lɔre",
+  "type.pitHazard": "Amena a ɛyɛ hu",
+  "type.other": "Ɛfoforɔ",
+  "hazard.mercury": "Nnuro bɔne / mɛkuri",
+  "hazard.riverSilt": "Nsuo no ayɛ dɔteɛ",
+  "hazard.noise": "Anadwo dede",
+  "hazard.smoke": "Ogya / wusiw",
+  "hazard.publicRisk": "Amena a ɛbue bɛn nnipa",
+  "time.Morning": "Anɔpa",
+  "time.Afternoon": "Awia",
+  "time.Evening": "Anwummerɛ",
+  "time.Night": "Anadwo",
+  "risk.Low": "Ketewa",
+  "risk.Medium": "Ntam",
+  "risk.High": "Kɛseɛ",
+  "checklist.summary": "Mfonini amanneɛbɔ — Adwuma: {types}. Asiane: {hazards}. Ɛberɛ: {time}. Asiane kɛseɛ: {risk}.",
+  "checklist.none": "(hwee)",
+  "checklist.unspecified": "wɔnkyerɛeɛ",
+
+  "my.title": "Me amanneɛbɔ",
+  "my.empty": "Amanneɛbɔ biara nni hɔ da. Kɔ “Amanneɛbɔ foforɔ” na bɔ deɛ ɛdi kan.",
+  "my.exportJson": "Yi JSON",
+  "my.locate": "Hwɛ wɔ asase mfonini so",
+  "my.smsDraft": "SMS nkrato",
+  "my.moreInfo": "Soma nsɛm foforɔ",
+  "my.delete": "Popa",
+  "my.corroborated": "Beaeɛ korɔ no ara sɛ amanneɛbɔ {n} foforɔ",
+  "my.possibleDuplicate": "Ebia ɛyɛ pɛ sɛ",
+  "my.mergedInto": "Wɔde aka",
+  "my.blurRadius": "Kata {meters} m",
+  "my.protectedArea": "Beaeɛ a wɔbɔ ho ban: {names}",
+  "my.audio": "Nne: {name}",
+  "my.evidence": "Adanseɛ kotokuo",
+  "my.evidenceFailed": "Yɛantumi anyɛ adanseɛ kotokuo no.",
+  "my.smsUnset": "Kɔ Nhyehyɛeɛ na fa SMS nɔma hyɛ mu kane.",
+  "my.moreInfoPrompt": "Dɛn bio na wobɛtumi aka akyerɛ aban adwumayɛfoɔ fa amanneɛbɔ yi ho?",
+  "sms.parts": "Amanneɛbɔ yi hia nkrato {count}. Soma biara, ɛnhia sɛ ɛdi ɔtoatoa so:",
+  "sms.part": "Ɔfa {n}/{count}",
+  "sms.close": "To mu",
+  "import.hint": "Woresesa fon anaa wokyekyere firi boafoɔ hɔ? Fa JSON, GeoJSON anaa adanseɛ zip bra.",
+  "import.button": "Fa bra…",
+  "import.summary": "Deɛ wode aba: {added} foforɔ, {merged} aka ho, {unchanged} na ɛwɔ hɔ dada, {rejected} wɔanngye",
+  "import.dismiss": "Yi firi hɔ",
+  "export.kml": "KML (Google Earth)",
+  "export.public": "Ɔmanfoɔ (akata so, nɔma ne mfonini nni mu)",
+  "export.private": "Kokoam (aban adwumayɛfoɔ)",
+  "export.bundleMedia": "Fa mfonini ka ho (zip)",
+  "export.selected": "Yi {count} a woayi",
+  "export.shown": "Yi {count} a ɛda adi",
+  "export.clearSelection": "Yi deɛ woayi nyinaa",
+  "export.none": "Amanneɛbɔ biara nni hɔ a wobɛyi.",
+  "export.allSuppressed": "Hwee nni hɔ a wobɛyi: ɔmanfoɔ beaeɛ hia amanneɛbɔ {k} wɔ beaeɛ korɔ, na eyinom mu biara nnya nnuruu saa.",
+  "export.someSuppressed": "Yɛannyi amanneɛbɔ {count} amma ɔmanfoɔ, ɛfiri sɛ amanneɛbɔ kakraa bi na ɛwɔ wɔn beaeɛ.",
+  "export.failed": "Yi no ammɔ yie. Fa amanneɛbɔ kakraa bi anaa nnfa mfonini nka ho.",
+  "filter.allCategories": "Deɛ wohunuiɛ nyinaa",
+  "filter.allStatuses": "Tebea nyinaa",
+  "filter.allAreas": "Beaeɛ nyinaa",
+  "filter.anyZone": "Beaeɛ biara a wɔbɔ ho ban",
+  "filter.from": "Firi",
+  "filter.to": "Kɔsi",
+
+  "safe.status": "Soma a ahobammɔ wɔ mu:",
+  "safe.ready": "Ayɛ krado",
+  "safe.locked": "Ato mu",
+  "safe.release": "Soma seesei",
+  "safe.releaseConfirm": "Soma amanneɛbɔ yi ntɛm ara sɛ intanɛt ba a? Yɛ eyi sɛ woafiri beaeɛ no na wo ho tɔ wo a nko ara.",
+  "safe.manual": "Wo ara na wobɛsoma: soma no sɛ wo ho tɔ wo a",
+  "safe.noCapturePoint": "Beaeɛ a wotwaa no nni hɔ: twɛn simma {mins} bio",
+  "safe.distance": "Tu kɔ {meters} m na tena hɔ ({progress}), anaa twɛn simma {mins} bio",
+  "safe.noFixYet": "beaeɛ pɔtee nni hɔ da",
+  "safe.progress": "seesei bɛyɛ {clear} m, {fixes} firi {need} mu",
+  "safe.quietHours": "Ɛberɛ a ɛyɛ komm kɔsi {until}: yɛbɛsoma sɛ woafiri beaeɛ no a nko ara",
+  "safe.noHome": "Fie Wi-Fi nko ara, nanso wonhyɛɛ wo fie beaeɛ",
+  "safe.homeNoFix": "Fie Wi-Fi nko ara: ɛretwɛn beaeɛ",
+  "safe.notHome": "Fie Wi-Fi nko ara: wonni fie",
+  "safe.mobileData": "Fie Wi-Fi nko ara: wode mobile data na ɛredi dwuma",
+  "safe.unknownConnection": "Fie Wi-Fi nko ara: fon yi nhunu Wi-Fi ne mobile data ntam nsonsonoeɛ",
+
+  "safety.distance": "*Mfa wo ho nkɔhyia sika tuofoɔ no.* Twe wo ho; wo ahobammɔ na ɛdi kan.",
+  "safety.landmarks": "Twa *nneɛma a ɛda adi* (nsɛmfoɔ, kwan ntwea) mfonini, ɛnyɛ nnipa anim anaa kaa nɔma.",
+  "safety.blur": "Fa *beaeɛ kata* di dwuma na ɔmanfoɔ asase mfonini no ankyerɛ beaeɛ pɔtee.",
+  "safety.anonymous": "*Obi nnhu wo din.* Fa wo nɔma ma sɛ wopɛ sɛ wɔfrɛ wo anaa wɔma wo akatua nko ara.",
+  "help.title": "Ahobammɔ ne kokoamsɛm",
+  "help.geo": "*Beaeɛ kokoamsɛm:* Ɔmanfoɔ asase mfonini kyerɛ beaeɛ a wɔakata so; aban adwumayɛfoɔ (daakye) bɛtumi ahunu beaeɛ pɔtee.",
+  "help.escrow": "*Wo din ho banbɔ:* Sɛ wopɛ sɛ wɔfrɛ wo anaa akatua a, wo nɔma da fon yi so; sɛ ɛbɛkɔ aban hɔ a, ɛhia server a ahobammɔ wɔ mu (daakye).",
+  "help.offline": "*Intanɛt nni hɔ a:* Amanneɛbɔ da fon no so na ɛkɔ sɛ wobɔ Soma so anaa intanɛt ba a.",
+  "help.stealth": "*Kokoam afotuo:* Kokoam kwan kata mfonini na ɛtwɛn ansa na asoma; ɛntumi nnum kamera nne—yɛ wo fon no komm.",
+
+  "settings.language": "Kasa",
+  "settings.languageNote": "Yɛbɛtumi akenkan mfonini krataa no so nneɛma. Yɛde nne a yɛakyere ka, sɛ ɛnni hɔ a, fon no nne.",
+  "settings.role": "Wo dwumadie",
+
+  "lock.title": "Hyɛ PIN no",
+  "lock.pin": "PIN",
+  "lock.unlock": "Bue",
+  "lock.unlocking": "Ɛrebue…",
+  "lock.wrongPin": "PIN no nteɛ.",
+  "lock.openFailed": "Yɛantumi ammue fon no so akoraeɛ.",
+  "decoy.title": "Nkyerɛwee",
+  "decoy.new": "Nkyerɛwee foforɔ",
+  "decoy.add": "Fa ka ho",
+  "decoy.empty": "Nkyerɛwee biara nni hɔ",
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { Report } from "./types";
+import { haversine, toRad } from "./geo";
+import { CELL_LADDER_M, cellOf, obfuscate, publicLocations } from "./obfuscate";
+
+// seeded PRNG so failures reproduce
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const M_PER_DEG = 111320;
+const move = (lat: number, lon: number, northM: number, eastM: number) => ({
+  lat: lat + northM / M_PER_DEG,
+  lon: lon + eastM / (M_PER_DEG * Math.cos(toRad(lat))),
+});
+const mean = (pts: { lat: number; lon: number }[]) => ({
+  lat: pts.reduce((s, p) => s + p.lat, 0) / pts.length,
+  lon: pts.reduce((s, p) => s + p.lon, 0) / pts.length,
+});
+const report = (id: string, lat: number, lon: number, blurRadius = 300) =>
+  ({ id, gps: { lat, lon }, blurRadius } as Report);
+
+// the offset scheme this module replaces: a fresh uniform point in a ring around the truth
+const randomRing = (rand: () => number, lat: number, lon: number, maxM: number) => {
+  const b = rand() * 2 * Math.PI;
+  const d = maxM * (0.5 + rand() * 0.5);
+  return move(lat, lon, d * Math.cos(b), d * Math.sin(b));
+};
+
+describe("obfuscate", () => {
+  it("is deterministic and shared by everything in the same cell", () => {
+    const a = obfuscate(6.3001, -1.9802, 300);
+    expect(obfuscate(6.3001, -1.9802, 300)).toEqual(a);
+    const c = cellOf(6.3001, -1.9802, a.level);
+    const near = move(c.lat, c.lon, 40, -40);
+    expect(obfuscate(near.lat, near.lon, 300)).toEqual(a);
+  });
+
+  it("never publishes the raw point and always covers it with the blur circle", () => {
+    const rand = mulberry32(1);
+    for (let i = 0; i < 2000; i++) {
+      const lat = 4.7 + rand() * 6.5, lon = -3.2 + rand() * 4.4; // Ghana
+      const blur = Math.round(rand() * 2000);
+      const p = obfuscate(lat, lon, blur);
+      expect(p.radiusM).toBeGreaterThanOrEqual(blur);
+      expect(haversine(lat, lon, p.lat, p.lon)).toBeLessThanOrEqual(p.radiusM * 1.01);
+      expect(p.lat === lat && p.lon === lon).toBe(false);
+    }
+  });
+});
+
+describe("repeated reports of one site", () => {
+  const rand = mulberry32(2);
+  // a site well away from its cell centre, reported 500 times with ~20 m of GPS noise
+  const centre = cellOf(6.3, -1.98, obfuscate(6.3, -1.98, 300).level);
+  const site = move(centre.lat, centre.lon, 150, 150);
+  const fixes = Array.from({ length: 500 }, () => move(site.lat, site.lon, (rand() - 0.5) * 40, (rand() - 0.5) * 40));
+
+  it("do not converge on the real point when averaged", () => {
+    const avg = mean(fixes.map((f) => obfuscate(f.lat, f.lon, 300)));
+    expect(haversine(site.lat, site.lon, avg.lat, avg.lon)).toBeGreaterThan(150);
+  });
+
+  it("would converge with independent random offsets", () => {
+    const avg = mean(fixes.map((f) => randomRing(rand, f.lat, f.lon, 300)));
+    expect(haversine(site.lat, site.lon, avg.lat, avg.lon)).toBeLessThan(30);
+  });
+});
+
+describe("publicLocations", () => {
+  const base = cellOf(6.3, -1.98, 1);
+
+  it("publishes a cell once k reports share it", () => {
+    const rs = [0, 1, 2].map((i) => report(`r${i}`, base.lat + i * 1e-5, base.lon));
+    const locs = publicLocations(rs, 3);
+    for (const r of rs) expect(locs.get(r.id)).toMatchObject({ lat: base.lat, lon: base.lon, level: 1 });
+  });
+
+  it("coarsens sparse reports until they share a larger cell", () => {
+    const far = move(base.lat, base.lon, 0, 700);
+    const rs = [report("a", base.lat, base.lon), report("b", base.lat, base.lon), report("c", far.lat, far.lon)];
+    const locs = publicLocations(rs, 3);
+    const c = locs.get("c")!;
+    expect(c.level).toBeGreaterThan(1);
+    expect(locs.get("a")).toEqual(c);
+    expect(haversine(far.lat, far.lon, c.lat, c.lon)).toBeLessThanOrEqual(c.radiusM * 1.01);
+  });
+
+  it("suppresses a report with too few others even in the largest cell", () => {
+    const away = move(base.lat, base.lon, CELL_LADDER_M[CELL_LADDER_M.length - 1] * 3, 0);
+    const rs = [report("a", base.lat, base.lon), report("b", base.lat, base.lon), report("c", base.lat, base.lon), report("lone", away.lat, away.lon)];
+    const locs = publicLocations(rs, 3);
+    expect(locs.get("lone")).toBeNull();
+    expect(locs.get("a")).not.toBeNull();
+  });
+});
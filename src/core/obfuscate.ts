@@ -0,0 +1,75 @@
+import type { Report } from "./types";
+
+/**
+ * Public location obfuscation
+ * - Raw GPS is snapped to the centre of a fixed metric grid cell, so every report of the same site gets the
+ *   same public point: averaging repeated reports can't converge on the real location
+ * - Cell sizes form a ladder; a report starts at the smallest cell whose radius covers its blur radius
+ * - k-anonymity: a point is only published once its cell holds at least k reports; sparse cells are coarsened
+ *   up the ladder and, past the largest cell, suppressed
+ * - The blur circle for a public point is centred on it with the cell radius, so it always contains the true point
+ */
+
+const M_PER_DEG_LAT = 111320;
+// Cell edge lengths (m). Radius (centre to corner) = edge / √2.
+export const CELL_LADDER_M = [250, 500, 1000, 2000, 4000, 8000, 16000, 32000];
+export const K_ANON = 3;
+
+export type PublicLocation = { lat: number; lon: number; radiusM: number; level: number };
+
+export const cellRadius = (level: number) => Math.round(CELL_LADDER_M[level] / Math.SQRT2);
+export const baseLevel = (blurRadiusM: number) => {
+  const i = CELL_LADDER_M.findIndex((_, l) => cellRadius(l) >= blurRadiusM);
+  return i < 0 ? CELL_LADDER_M.length - 1 : i;
+};
+
+/** Grid cell of a point at a ladder level: a stable key plus the cell centre. */
+export function cellOf(lat: number, lon: number, level: number) {
+  const edge = CELL_LADDER_M[level];
+  const dLat = edge / M_PER_DEG_LAT;
+  const row = Math.floor(lat / dLat);
+  const centreLat = (row + 0.5) * dLat;
+  // longitude step is fixed per row, so cells in a row stay square at that row's latitude
+  const dLon = edge / (M_PER_DEG_LAT * Math.cos((centreLat * Math.PI) / 180));
+  const col = Math.floor(lon / dLon);
+  return { key: `${level}:${row}:${col}`, lat: centreLat, lon: (col + 0.5) * dLon };
+}
+
+/** Deterministic public point for one report (no k-anonymity; see `publicLocations`). */
+export function obfuscate(lat: number, lon: number, blurRadiusM: number): PublicLocation {
+  const level = baseLevel(blurRadiusM);
+  const c = cellOf(lat, lon, level);
+  return { lat: c.lat, lon: c.lon, radiusM: cellRadius(level), level };
+}
+/** The stored `publicOffset` of a report. */
+export const publicPoint = (gps: { lat: number; lon: number }, blurRadiusM: number) => {
+  const { lat, lon } = obfuscate(gps.lat, gps.lon, blurRadiusM);
+  return { lat, lon };
+};
+
+/**
+ * Public locations for a set of reports that will be shown or published together.
+ * `null` = suppressed: fewer than `k` reports share even the largest cell.
+ */
+export function publicLocations(reports: Report[], k = K_ANON): Map<string, PublicLocation | null> {
+  const out = new Map<string, PublicLocation | null>();
+  const counts = new Map<string, number>();
+  const count = (key: string) => counts.get(key) ?? 0;
+  for (const r of reports) {
+    for (let l = 0; l < CELL_LADDER_M.length; l++) {
+      const key = cellOf(r.gps.lat, r.gps.lon, l).key;
+      counts.set(key, count(key) + 1);
+    }
+  }
+  for (const r of reports) {
+    out.set(r.id, null);
+    for (let l = baseLevel(r.blurRadius); l < CELL_LADDER_M.length; l++) {
+      const c = cellOf(r.gps.lat, r.gps.lon, l);
+      if (count(c.key) >= k) {
+        out.set(r.id, { lat: c.lat, lon: c.lon, radiusM: cellRadius(l), level: l });
+        break;
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { haversine, toRad } from "./geo";
+import { baseLevel, cellRadius } from "./obfuscate";
+import { CHECKLIST_CATEGORY, checklistText } from "./checklist";
+import { EMPTY_DRAFT, MAX_BLUR_M, buildReport, type ReportDraft } from "./report";
+
+const NOW = new Date("2026-03-02T08:00:00Z");
+const SITE = { lat: 6.2012, lon: -1.6913, accuracy: 12 };
+const draft = (d: Partial<ReportDraft> = {}): ReportDraft => ({ ...EMPTY_DRAFT, category: "River dredging", description: "Dredger on the river", gps: SITE, ...d });
+const build = (d: Partial<ReportDraft> = {}) => buildReport(draft(d), { id: "r1", now: NOW })!;
+
+// evenly spread points around a site, so the sweep is the same on every run
+const ring = (n: number, m: number) =>
+  Array.from({ length: n }, (_, i) => {
+    const b = (2 * Math.PI * i) / n;
+    return { lat: SITE.lat + (m * Math.cos(b)) / 111320, lon: SITE.lon + (m * Math.sin(b)) / (111320 * Math.cos(toRad(SITE.lat))) };
+  });
+
+describe("buildReport", () => {
+  it("returns null until the draft has a category, description and location", () => {
+    expect(buildReport(draft({ category: "" }), { id: "r1", now: NOW })).toBeNull();
+    expect(buildReport(draft({ description: "" }), { id: "r1", now: NOW })).toBeNull();
+    expect(buildReport(draft({ gps: null }), { id: "r1", now: NOW })).toBeNull();
+    // checklist answers stand in for the category and the description
+    const checklist = { types: { chemical: true }, hazards: {}, time: "Night", risk: "High" };
+    const chk = buildReport(draft({ category: "", description: "", checklistMode: true, checklist }), { id: "r1", now: NOW });
+    expect(chk).toMatchObject({ category: CHECKLIST_CATEGORY.label, description: checklistText(checklist), checklist });
+  });
+
+  it("starts Queued at the given time", () => {
+    const r = build();
+    expect(r).toMatchObject({ id: "r1", createdAt: NOW.toISOString(), status: "Queued", history: [{ state: "Queued", at: NOW.toISOString() }] });
+  });
+
+  it("drops contact details from an anonymous report", () => {
+    const contact = { phone: "0244000000", email: "", wantsCallback: true, preferredTime: "" };
+    expect(build({ anonymous: true, contact, rewardOptIn: true })).toMatchObject({ contact: null, rewardOptIn: false });
+    expect(build({ anonymous: false, contact }).contact).toEqual({ phone: "0244000000", email: null, wantsCallback: true, preferredTime: null });
+  });
+
+  it("holds stealth captures for a safe upload even when upload-when-safe is off", () => {
+    expect(build({ uploadWhenSafe: false }).safeUpload).toEqual({ required: false, ready: true });
+    expect(build({ uploadWhenSafe: false, stealth: true }).safeUpload).toEqual({
+      required: true, ready: false, captureLoc: { lat: SITE.lat, lon: SITE.lon }, createdAt: NOW.toISOString(),
+    });
+  });
+});
+
+describe("public offset distance", () => {
+  const blurs = [0, 50, 100, 300, 500, 1000, 2000];
+
+  it("stays within the published radius, which covers the chosen blur", () => {
+    for (const blur of blurs) {
+      for (const gps of ring(24, 120)) {
+        const r = build({ gps, blurRadius: blur });
+        const radius = cellRadius(baseLevel(r.blurRadius));
+        expect(radius).toBeGreaterThanOrEqual(blur);
+        expect(haversine(gps.lat, gps.lon, r.publicOffset.lat, r.publicOffset.lon)).toBeLessThanOrEqual(radius * 1.01);
+      }
+    }
+  });
+
+  it("is never the raw point", () => {
+    for (const gps of ring(24, 120)) {
+      const r = build({ gps, blurRadius: 0 });
+      expect(r.publicOffset).not.toEqual({ lat: gps.lat, lon: gps.lon });
+    }
+  });
+
+  it("clamps the blur to the form's range", () => {
+    expect(build({ blurRadius: 50000 }).blurRadius).toBe(MAX_BLUR_M);
+    expect(build({ blurRadius: -5 }).blurRadius).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import type { Checklist, Media, Report } from "./types";
+import { clamp } from "./geo";
+import { publicPoint } from "./obfuscate";
+import { tagZones } from "./geofence";
+import { stampPlace } from "./gazetteer";
+import { CHECKLIST_CATEGORY, EMPTY_CHECKLIST, checklistText } from "./checklist";
+import type { Lang } from "./i18n";
+
+/**
+ * Report construction: turns what the reporter filled in into a `Report`
+ * - The public point is fixed here, from the raw GPS and the chosen blur (see obfuscate.ts)
+ * - Stealth capture always waits for a safe upload; an anonymous report never carries contact details
+ * - Zones and locality are derived from the raw GPS once, at construction or on first load/import of older records
+ */
+
+export const MAX_BLUR_M = 2000;
+
+// Form state; contact fields are kept as typed so the form can be edited back and forth.
+export type ReportDraft = {
+  category: string;
+  description: string;
+  gps: null | { lat: number; lon: number; accuracy?: number };
+  blurRadius: number;
+  anonymous: boolean;
+  contact: { phone: string; email: string; wantsCallback: boolean; preferredTime: string };
+  rewardOptIn: boolean;
+  media: Media[];
+  stealth: boolean;
+  uploadWhenSafe: boolean;
+  checklistMode: boolean;
+  checklist: Checklist;
+};
+
+export const EMPTY_DRAFT: ReportDraft = {
+  category: "",
+  description: "",
+  gps: null,
+  blurRadius: 300,
+  anonymous: true,
+  contact: { phone: "", email: "", wantsCallback: false, preferredTime: "" },
+  rewardOptIn: false,
+  media: [],
+  stealth: false,
+  uploadWhenSafe: true,
+  checklistMode: false,
+  checklist: EMPTY_CHECKLIST,
+};
+
+/** Description as filed: the checklist summary (in the reporter's language) followed by the free text. */
+export const draftDescription = (d: ReportDraft, lang: Lang = "en") =>
+  [d.checklistMode ? checklistText(d.checklist, lang) : "", d.description].filter(Boolean).join("\n");
+
+/** A draft can be filed once it has a category (or checklist answers), a description and a location. */
+export const isComplete = (d: ReportDraft, lang: Lang = "en") => !!((d.category || d.checklistMode) && draftDescription(d, lang) && d.gps);
+
+/** Builds a Queued report from a complete draft; returns null while the draft is incomplete. */
+export function buildReport(d: ReportDraft, opts: { id: string; now: Date; lang?: Lang }): Report | null {
+  if (!isComplete(d, opts.lang)) return null;
+  const { lat, lon } = d.gps!;
+  const blurRadius = clamp(Number(d.blurRadius || 0), 0, MAX_BLUR_M);
+  const at = opts.now.toISOString();
+  return {
+    id: opts.id,
+    createdAt: at,
+    category: d.category || CHECKLIST_CATEGORY.label,
+    description: draftDescription(d, opts.lang),
+    gps: d.gps!,
+    blurRadius,
+    publicOffset: publicPoint({ lat, lon }, blurRadius),
+    media: d.media,
+    anonymous: d.anonymous,
+    contact: d.anonymous
+      ? null
+      : {
+          phone: d.contact.phone || null,
+          email: d.contact.email || null,
+          wantsCallback: !!d.contact.wantsCallback,
+          preferredTime: d.contact.preferredTime || null,
+        },
+    rewardOptIn: !d.anonymous && !!d.rewardOptIn,
+    status: "Queued",
+    history: [{ state: "Queued", at }],
+    safeUpload: d.uploadWhenSafe || d.stealth
+      ? { required: true, ready: false, captureLoc: { lat, lon }, createdAt: at }
+      : { required: false, ready: true },
+    ...(d.checklistMode ? { checklist: d.checklist } : {}),
+  };
+}
+
+/** Tags protected areas and locality from the raw GPS, unless the report already has them. */
+export const withLocation = (r: Report) => {
+  const tagged = r.zones ? r : tagZones(r);
+  return tagged.place === undefined ? stampPlace(tagged) : tagged;
+};
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Report } from "./types";
+import { toRad } from "./geo";
+import { DEFAULT_SAFE, HOME_RADIUS_M, checkSafeUpload, isSafeToUpload, type Fix, type SafeContext, type SafeSettings } from "./safe-upload";
+
+// local time, so quiet hours read the same in every time zone
+const CAPTURED = new Date(2026, 2, 2, 8, 0).getTime();
+const CAPTURE_LOC = { lat: 6.2012, lon: -1.6913 };
+const report = (safeUpload: Report["safeUpload"], accuracy = 10) =>
+  ({ createdAt: new Date(CAPTURED).toISOString(), gps: { ...CAPTURE_LOC, accuracy }, safeUpload } as Report);
+const held = report({ required: true, ready: false, captureLoc: CAPTURE_LOC, createdAt: new Date(CAPTURED).toISOString() });
+// a fake location `m` metres due east of where the report was captured
+const east = (m: number) => ({ lat: CAPTURE_LOC.lat, lon: CAPTURE_LOC.lon + m / (111320 * Math.cos(toRad(CAPTURE_LOC.lat))) });
+const minutes = (n: number) => n * 60 * 1000;
+
+// fake location fixes: each is taken at the fake clock's time, then the clock moves on
+let fixes: Fix[];
+const fix = (m: number, accuracy = 10, thenSecs = 60) => {
+  fixes.push({ ...east(m), accuracy, at: Date.now() });
+  vi.advanceTimersByTime(thenSecs * 1000);
+};
+const ctx = (extra: Partial<SafeContext> = {}): SafeContext => ({ fixes, now: Date.now(), ...extra });
+const check = (safe: Partial<SafeSettings> = {}, extra?: Partial<SafeContext>) => checkSafeUpload(held, { ...DEFAULT_SAFE, ...safe }, ctx(extra));
+
+describe("upload-when-safe policy", () => {
+  beforeEach(() => {
+    fixes = [];
+    vi.useFakeTimers();
+    vi.setSystemTime(CAPTURED);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("sends reports that never needed to wait, or were released", () => {
+    expect(isSafeToUpload(report({ required: false, ready: true }), DEFAULT_SAFE, ctx())).toBe(true);
+    expect(isSafeToUpload({ ...held, safeUpload: { ...held.safeUpload, ready: true } }, { ...DEFAULT_SAFE, manual: true }, ctx())).toBe(true);
+  });
+
+  it("holds a report until the wait is over", () => {
+    vi.advanceTimersByTime(minutes(DEFAULT_SAFE.maxWaitMins) - 1);
+    expect(check()).toEqual({ safe: false, reasons: [{ code: "distance", minMeters: 1000, clearM: null, fixes: 0, minFixes: 3, waitMins: 1 }] });
+    vi.advanceTimersByTime(1);
+    expect(check()).toEqual({ safe: true, reasons: [] });
+  });
+
+  it("does not release on a single GPS jump", () => {
+    fix(0); fix(5); fix(3000); fix(10);
+    expect(check().safe).toBe(false);
+    fix(3000);
+    expect(check().reasons[0]).toMatchObject({ code: "distance", fixes: 1, minFixes: 3 });
+  });
+
+  it("releases once the reporter has stayed away across several fixes", () => {
+    fix(1200); fix(1300);
+    expect(check().reasons[0]).toMatchObject({ code: "distance", fixes: 2, minFixes: 3 });
+    fix(1500, 10, 0);
+    expect(check()).toEqual({ safe: true, reasons: [] });
+  });
+
+  it("needs the run of fixes to last long enough", () => {
+    fix(1200, 10, 10); fix(1300, 10, 10); fix(1400, 10, 0);
+    expect(check().safe).toBe(false);
+    expect(check({ sustainSecs: 20 }).safe).toBe(true);
+  });
+
+  it("subtracts accuracy and skips fixes that are too vague", () => {
+    // 1050 m out, but either end could be 60 m closer
+    fix(1050, 50); fix(1050, 50); fix(1050, 50, 0);
+    expect(check().safe).toBe(false);
+    fixes = [];
+    fix(1200); fix(1200, 500); fix(1200); fix(1200, 10, 0);
+    expect(check().safe).toBe(true);
+  });
+
+  it("counts only fixes taken after the capture", () => {
+    fixes.push({ ...east(2000), accuracy: 10, at: CAPTURED - minutes(10) }, { ...east(2000), accuracy: 10, at: CAPTURED - minutes(5) });
+    fix(2000, 10, 0);
+    expect(check().safe).toBe(false);
+  });
+
+  it("keeps quiet hours near the site, across midnight", () => {
+    const night = { quietHours: { from: 19, to: 6 } };
+    vi.setSystemTime(new Date(2026, 2, 2, 23, 0));
+    expect(check(night)).toEqual({ safe: false, reasons: [{ code: "quietHours", until: 6 }] });
+    vi.setSystemTime(new Date(2026, 2, 3, 6, 0));
+    expect(check(night).safe).toBe(true);
+    // being away still counts at night
+    vi.setSystemTime(new Date(2026, 2, 2, 21, 0));
+    fix(1500); fix(1500); fix(1500, 10, 0);
+    expect(check(night).safe).toBe(true);
+  });
+
+  it("waits for Wi-Fi at home when asked to", () => {
+    const home = east(8000);
+    const wifi = { network: "homeWifi" as const, home };
+    vi.advanceTimersByTime(minutes(DEFAULT_SAFE.maxWaitMins));
+    expect(check({ ...wifi, home: null }, { connection: "wifi" }).reasons).toEqual([{ code: "noHome" }]);
+    fix(1500, 10, 0);
+    expect(check(wifi, { connection: "wifi" }).reasons).toEqual([{ code: "notHome" }]);
+    fix(8000 - HOME_RADIUS_M + 20, 10, 0);
+    expect(check(wifi, { connection: "cellular" }).reasons).toEqual([{ code: "mobileData" }]);
+    expect(check(wifi, { connection: "unknown" }).reasons).toEqual([{ code: "unknownConnection" }]);
+    expect(check(wifi, { connection: "wifi" }).safe).toBe(true);
+  });
+
+  it("checks home Wi-Fi again on every send, unless released by hand", () => {
+    const home = east(8000);
+    const wifi = { ...DEFAULT_SAFE, network: "homeWifi" as const, home };
+    fix(8000, 10, 0);
+    const released = { ...held, safeUpload: { ...held.safeUpload, ready: true } };
+    expect(checkSafeUpload(released, wifi, ctx({ connection: "wifi" })).safe).toBe(true);
+    expect(checkSafeUpload(released, wifi, ctx({ connection: "cellular" })).reasons).toEqual([{ code: "mobileData" }]);
+    const byHand = { ...held, safeUpload: { ...held.safeUpload, ready: true, byHand: true } };
+    expect(checkSafeUpload(byHand, wifi, ctx({ connection: "cellular" })).safe).toBe(true);
+  });
+
+  it("only releases by hand in manual mode", () => {
+    vi.advanceTimersByTime(minutes(600));
+    fix(5000); fix(5000); fix(5000, 10, 0);
+    expect(check({ manual: true })).toEqual({ safe: false, reasons: [{ code: "manual" }] });
+  });
+});
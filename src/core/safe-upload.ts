@@ -0,0 +1,117 @@
+import type { Report } from "./types";
+import { haversine } from "./geo";
+
+/**
+ * Upload-when-safe policy (shared by the page and the service worker)
+ * - A held report is released once the reporter has been away from the capture point for a while, or the wait is over
+ * - "Away" needs `minFixes` location fixes in a row, spanning `sustainSecs`, each at least `minMeters` out after
+ *   subtracting both accuracy radii; fixes worse than `maxAccuracyM` are ignored, so one GPS jump can't release anything
+ * - Quiet hours (device time) hold reports unless the reporter is confirmed away, e.g. no uploads at night near the site
+ * - "Home Wi-Fi" also requires a Wi-Fi connection near the saved home point, checked on every send, also after the release,
+ *   unless the user released the report by hand; "manual" only releases on the user's say-so
+ * - `checkSafeUpload` lists every reason a report is still held, as codes with their numbers; the report card words them
+ */
+
+export type SafeSettings = {
+  minMeters: number;
+  maxWaitMins: number;
+  minFixes: number;
+  sustainSecs: number;
+  maxAccuracyM: number;
+  /** Local hours [from, to) with no release near the site; wraps past midnight when from > to. */
+  quietHours: null | { from: number; to: number };
+  network: "any" | "homeWifi";
+  home: null | { lat: number; lon: number };
+  manual: boolean;
+};
+export const DEFAULT_SAFE: SafeSettings = {
+  minMeters: 1000,
+  maxWaitMins: 30,
+  minFixes: 3,
+  sustainSecs: 120,
+  maxAccuracyM: 100,
+  quietHours: null,
+  network: "any",
+  home: null,
+  manual: false,
+};
+// How close to the saved home point counts as home (on top of the fix's accuracy).
+export const HOME_RADIUS_M = 150;
+
+export type Fix = { lat: number; lon: number; accuracy?: number; at: number };
+export type Connection = "wifi" | "cellular" | "unknown";
+/** What the device knows right now: recent location fixes (oldest first), the time and the connection type. */
+export type SafeContext = { fixes: Fix[]; now: number; connection?: Connection };
+/** Why a held report isn't sent yet. `clearM` is null until there is an accurate fix; `until` is an hour of the day. */
+export type HoldReason =
+  | { code: "manual" }
+  | { code: "noCapturePoint"; waitMins: number }
+  | { code: "distance"; minMeters: number; clearM: number | null; fixes: number; minFixes: number; waitMins: number }
+  | { code: "quietHours"; until: number }
+  | { code: "noHome" }
+  | { code: "homeNoFix" }
+  | { code: "notHome" }
+  | { code: "mobileData" }
+  | { code: "unknownConnection" };
+export type SafeCheck = { safe: boolean; reasons: HoldReason[] };
+
+const inQuietHours = (q: SafeSettings["quietHours"], now: number) => {
+  if (!q || q.from === q.to) return false;
+  const h = new Date(now).getHours();
+  return q.from < q.to ? h >= q.from && h < q.to : h >= q.from || h < q.to;
+};
+
+// Fixes good enough to judge position by, taken after the capture.
+const usable = (fixes: Fix[], since: number, safe: SafeSettings) =>
+  fixes.filter((f) => f.at >= since && (f.accuracy ?? 0) <= safe.maxAccuracyM);
+
+/** Sustained-distance rule: the newest usable fixes, back to the last one that wasn't clearly away. */
+function awayFromSite(r: Report, safe: SafeSettings, fixes: Fix[]) {
+  const site = r.safeUpload.captureLoc!;
+  const margin = (f: Fix) => haversine(f.lat, f.lon, site.lat, site.lon) - (f.accuracy ?? 0) - (r.gps?.accuracy ?? 0);
+  const good = usable(fixes, new Date(r.createdAt).getTime(), safe);
+  const run: Fix[] = [];
+  for (let i = good.length - 1; i >= 0 && margin(good[i]) >= safe.minMeters; i--) run.push(good[i]);
+  const span = run.length ? run[0].at - run[run.length - 1].at : 0;
+  return {
+    away: run.length >= safe.minFixes && span >= safe.sustainSecs * 1000,
+    run: run.length,
+    latest: good.length ? Math.max(0, Math.round(margin(good[good.length - 1]))) : null,
+  };
+}
+
+/** Whether a held report may be sent now and, if not, every reason it is still held. */
+export function checkSafeUpload(r: Report, safe: SafeSettings = DEFAULT_SAFE, ctx: SafeContext = { fixes: [], now: Date.now() }): SafeCheck {
+  if (!r.safeUpload?.required) return { safe: true, reasons: [] };
+  const reasons = r.safeUpload.ready ? [] : releaseReasons(r, safe, ctx);
+  if (reasons[0]?.code === "manual") return { safe: false, reasons };
+  if (safe.network === "homeWifi" && !r.safeUpload.byHand) {
+    const here = usable(ctx.fixes, 0, safe).pop();
+    if (!safe.home) reasons.push({ code: "noHome" });
+    else if (!here) reasons.push({ code: "homeNoFix" });
+    else if (haversine(here.lat, here.lon, safe.home.lat, safe.home.lon) - (here.accuracy ?? 0) > HOME_RADIUS_M) reasons.push({ code: "notHome" });
+    if (ctx.connection !== "wifi") reasons.push({ code: ctx.connection === "cellular" ? "mobileData" : "unknownConnection" });
+  }
+  return { safe: reasons.length === 0, reasons };
+}
+
+/** The one-time release from the site: manual mode, the sustained-distance rule, the wait and quiet hours. */
+function releaseReasons(r: Report, safe: SafeSettings, ctx: SafeContext): HoldReason[] {
+  if (safe.manual) return [{ code: "manual" }];
+  const reasons: HoldReason[] = [];
+
+  const left = safe.maxWaitMins * 60 * 1000 - (ctx.now - new Date(r.createdAt).getTime());
+  const site = r.safeUpload.captureLoc ? awayFromSite(r, safe, ctx.fixes) : null;
+  if (!site?.away && left > 0) {
+    const waitMins = Math.ceil(left / 60000);
+    if (!site) reasons.push({ code: "noCapturePoint", waitMins });
+    else {
+      const fixes = Math.min(site.run, safe.minFixes);
+      reasons.push({ code: "distance", minMeters: safe.minMeters, clearM: site.latest, fixes, minFixes: safe.minFixes, waitMins });
+    }
+  }
+  if (!site?.away && inQuietHours(safe.quietHours, ctx.now)) reasons.push({ code: "quietHours", until: safe.quietHours!.to });
+  return reasons;
+}
+
+export const isSafeToUpload = (r: Report, safe: SafeSettings = DEFAULT_SAFE, ctx?: SafeContext) => checkSafeUpload(r, safe, ctx).safe;
@@ -0,0 +1,314 @@
+import type {
+  Assignee, Checklist, Contact, HistoryEntry, InternalNote, Locality, Media, MergedReport, Priority, Report, SafeUpload,
+} from "./types";
+import type { StatusChange } from "./sync";
+import type { VaultParams } from "./vault";
+import { isStatus } from "./status";
+import { publicPoint } from "./obfuscate";
+import { isLang, type Lang } from "./i18n";
+import { DEFAULT_SAFE, type SafeSettings } from "./safe-upload";
+
+/**
+ * Runtime schemas for everything read back from storage, files or the network
+ * - `normalizeReport` (and the Media, Contact, SafeUpload, Checklist parts) fills fields that are missing with
+ *   their defaults and throws SchemaError naming the first field that is present but wrong, so nothing is
+ *   silently dropped; unknown fields are kept as they are
+ * - `normalizeSettings` never throws: a bad setting falls back to its default and is listed in `problems`
+ * - Callers put what fails into the quarantine (storage.ts) instead of crashing or dropping it
+ */
+
+export class SchemaError extends Error {
+  constructor(public path: string, problem: string) {
+    super(`${path}: ${problem}`);
+    this.name = "SchemaError";
+  }
+}
+
+/** A record that failed validation, waiting in the quarantine for the user to export or discard it. */
+export type Quarantined = { source: "storage" | "import" | "sync" | "settings"; ref: string; reason: string; raw: unknown };
+
+// Blur given to points that arrive without one (same default as the report form).
+export const DEFAULT_BLUR_M = 300;
+
+// ---- Primitives ----
+const isObject = (x: unknown): x is Record<string, any> => !!x && typeof x === "object" && !Array.isArray(x);
+export const isDate = (s: unknown): s is string => typeof s === "string" && !isNaN(Date.parse(s));
+export const isLatLon = (p: any): p is { lat: number; lon: number } =>
+  isObject(p) && Number.isFinite(p.lat) && Number.isFinite(p.lon) && Math.abs(p.lat) <= 90 && Math.abs(p.lon) <= 180;
+
+function need<T>(ok: (x: unknown) => x is T, x: unknown, path: string, problem: string): T {
+  if (!ok(x)) throw new SchemaError(path, problem);
+  return x;
+}
+const str = (x: unknown): x is string => typeof x === "string";
+const bool = (x: unknown): x is boolean => typeof x === "boolean";
+const num = (x: unknown): x is number => Number.isFinite(x);
+const obj = (x: unknown): x is Record<string, any> => isObject(x);
+const arr = (x: unknown): x is unknown[] => Array.isArray(x);
+const oneOf = <T extends string>(values: readonly T[]) => (x: unknown): x is T => values.includes(x as T);
+
+// Missing (undefined) takes the default; anything else must pass the check.
+const opt = <T>(ok: (x: unknown) => x is T, x: unknown, path: string, problem: string, fallback: T): T =>
+  x === undefined ? fallback : need(ok, x, path, problem);
+// Optional fields stay absent when missing, so normalizing doesn't add keys that weren't there.
+const maybe = <K extends string, T>(key: K, ok: (x: unknown) => x is T, x: unknown, path: string, problem: string) =>
+  (x === undefined ? {} : { [key]: need(ok, x, path, problem) }) as Partial<Record<K, T>>;
+const list = <T>(x: unknown, path: string, each: (item: unknown, path: string) => T): T[] =>
+  need(arr, x, path, "expected a list").map((item, i) => each(item, `${path}[${i}]`));
+const flags = (x: unknown, path: string): Record<string, boolean> => {
+  const o = opt(obj, x, path, "expected an object", {});
+  Object.entries(o).forEach(([k, v]) => need(bool, v, `${path}.${k}`, "expected true/false"));
+  return o;
+};
+
+// ---- Report parts ----
+function gps(x: unknown, path: string): Report["gps"] {
+  if (!isLatLon(x)) throw new SchemaError(path, "missing or invalid coordinates");
+  return { lat: x.lat, lon: x.lon, ...maybe("accuracy", num, (x as any).accuracy, `${path}.accuracy`, "expected a number") };
+}
+
+export function normalizeMedia(x: unknown, path = "media"): Media {
+  const m = need(obj, x, path, "expected an object");
+  return {
+    ...m,
+    id: need(str, m.id, `${path}.id`, "missing id"),
+    type: need(oneOf(["image", "video", "audio"] as const), m.type, `${path}.type`, `unknown media type "${m.type}"`),
+    name: opt(str, m.name, `${path}.name`, "expected text", ""),
+    ...maybe("locked", bool, m.locked, `${path}.locked`, "expected true/false"),
+    ...maybe("capturedAt", isDate, m.capturedAt, `${path}.capturedAt`, "invalid date"),
+    ...maybe("sha256", str, m.sha256, `${path}.sha256`, "expected text"),
+    ...maybe("originalSha256", str, m.originalSha256, `${path}.originalSha256`, "expected text"),
+  };
+}
+
+const textOrNull = (x: unknown): x is string | null => x === null || typeof x === "string";
+
+export function normalizeContact(x: unknown, path = "contact"): Contact {
+  if (x === null || x === undefined) return null;
+  const c = need(obj, x, path, "expected an object or null");
+  return {
+    phone: opt(textOrNull, c.phone, `${path}.phone`, "expected text", null) || null,
+    email: opt(textOrNull, c.email, `${path}.email`, "expected text", null) || null,
+    wantsCallback: opt(bool, c.wantsCallback, `${path}.wantsCallback`, "expected true/false", false),
+    preferredTime: opt(textOrNull, c.preferredTime, `${path}.preferredTime`, "expected text", null) || null,
+  };
+}
+
+export function normalizeSafeUpload(x: unknown, path = "safeUpload"): SafeUpload {
+  if (x === undefined) return { required: false, ready: true };
+  const s = need(obj, x, path, "expected an object");
+  return {
+    required: opt(bool, s.required, `${path}.required`, "expected true/false", false),
+    ready: opt(bool, s.ready, `${path}.ready`, "expected true/false", true),
+    ...maybe("byHand", bool, s.byHand, `${path}.byHand`, "expected true/false"),
+    ...maybe("captureLoc", isLatLon, s.captureLoc, `${path}.captureLoc`, "invalid coordinates"),
+    ...maybe("createdAt", isDate, s.createdAt, `${path}.createdAt`, "invalid date"),
+  };
+}
+
+export function normalizeChecklist(x: unknown, path = "checklist"): Checklist {
+  const c = need(obj, x, path, "expected an object");
+  return {
+    types: flags(c.types, `${path}.types`),
+    hazards: flags(c.hazards, `${path}.hazards`),
+    time: opt(str, c.time, `${path}.time`, "expected text", ""),
+    risk: opt(str, c.risk, `${path}.risk`, "expected text", ""),
+  };
+}
+
+function historyEntry(x: unknown, path: string): HistoryEntry {
+  const h = need(obj, x, path, "expected an object");
+  return {
+    state: need(isStatus, h.state, `${path}.state`, `unknown status "${h.state}"`),
+    at: need(isDate, h.at, `${path}.at`, "invalid date"),
+    ...maybe("by", str, h.by, `${path}.by`, "expected text"),
+    ...maybe("note", str, h.note, `${path}.note`, "expected text"),
+  };
+}
+
+function note(x: unknown, path: string): InternalNote {
+  const n = need(obj, x, path, "expected an object");
+  return { at: need(isDate, n.at, `${path}.at`, "invalid date"), by: opt(str, n.by, `${path}.by`, "expected text", ""), text: need(str, n.text, `${path}.text`, "expected text") };
+}
+
+function assignee(x: unknown, path: string): Assignee | null {
+  if (x === null) return null;
+  const a = need(obj, x, path, "expected an object or null");
+  return { kind: need(oneOf(["officer", "team"] as const), a.kind, `${path}.kind`, "expected officer or team"), name: need(str, a.name, `${path}.name`, "expected text") };
+}
+
+function place(x: unknown, path: string): Locality | null {
+  if (x === null) return null;
+  const p = need(obj, x, path, "expected an object or null");
+  return {
+    region: need(str, p.region, `${path}.region`, "expected text"),
+    district: need(str, p.district, `${path}.district`, "expected text"),
+    near: opt(str, p.near, `${path}.near`, "expected text", ""),
+    km: opt(num, p.km, `${path}.km`, "expected a number", 0),
+    dir: opt(str, p.dir, `${path}.dir`, "expected text", ""),
+    approx: opt(bool, p.approx, `${path}.approx`, "expected true/false", false),
+  };
+}
+
+function mergedReport(x: unknown, path: string): MergedReport {
+  const m = need(obj, x, path, "expected an object");
+  const contact = normalizeContact(m.contact, `${path}.contact`);
+  return {
+    id: need(str, m.id, `${path}.id`, "missing id"),
+    createdAt: need(isDate, m.createdAt, `${path}.createdAt`, "invalid date"),
+    category: need(str, m.category, `${path}.category`, "expected text"),
+    description: need(str, m.description, `${path}.description`, "expected text"),
+    gps: gps(m.gps, `${path}.gps`),
+    history: list(m.history ?? [], `${path}.history`, historyEntry),
+    anonymous: opt(bool, m.anonymous, `${path}.anonymous`, "expected true/false", !contact),
+    contact,
+    rewardOptIn: opt(bool, m.rewardOptIn, `${path}.rewardOptIn`, "expected true/false", false),
+    media: list(m.media ?? [], `${path}.media`, (id, p) => need(str, id, p, "expected a media id")),
+  };
+}
+
+// ---- Report ----
+/** Checks a report (stored, imported or decoded) and fills what can be defaulted; throws SchemaError otherwise. */
+export function normalizeReport(x: unknown): Report {
+  const r = need(obj, x, "report", "expected an object");
+  const id = need(str, r.id, "id", "missing id");
+  if (!id) throw new SchemaError("id", "missing id");
+  const createdAt = need(isDate, r.createdAt, "createdAt", "missing or invalid date");
+  const status = need(isStatus, r.status, "status", `unknown status "${r.status}"`);
+  const point = gps(r.gps, "gps");
+  const blurRadius = opt((b): b is number => num(b) && b >= 0, r.blurRadius, "blurRadius", "expected a distance in metres", DEFAULT_BLUR_M);
+  const contact = normalizeContact(r.contact);
+  return {
+    ...r,
+    id,
+    createdAt,
+    category: need(str, r.category, "category", "missing category"),
+    description: need(str, r.description, "description", "missing description"),
+    gps: point,
+    blurRadius,
+    publicOffset: r.publicOffset === undefined ? publicPoint(point, blurRadius) : need(isLatLon, r.publicOffset, "publicOffset", "invalid coordinates"),
+    media: list(r.media ?? [], "media", normalizeMedia),
+    anonymous: opt(bool, r.anonymous, "anonymous", "expected true/false", !contact),
+    contact,
+    rewardOptIn: opt(bool, r.rewardOptIn, "rewardOptIn", "expected true/false", false),
+    status,
+    // records from before status history start with their current state
+    history: r.history === undefined ? [{ state: status, at: createdAt }] : list(r.history, "history", historyEntry),
+    safeUpload: normalizeSafeUpload(r.safeUpload),
+    ...maybe("syncedAt", isDate, r.syncedAt, "syncedAt", "invalid date"),
+    ...(r.assignee === undefined ? {} : { assignee: assignee(r.assignee, "assignee") }),
+    ...(r.notes === undefined ? {} : { notes: list(r.notes, "notes", note) }),
+    ...(r.zones === undefined ? {} : { zones: list(r.zones, "zones", (z, p) => need(str, z, p, "expected a zone id")) }),
+    ...maybe("priority", oneOf<Priority>(["normal", "high", "urgent"]), r.priority, "priority", `unknown priority "${r.priority}"`),
+    ...(r.place === undefined ? {} : { place: place(r.place, "place") }),
+    ...(r.checklist === undefined ? {} : { checklist: normalizeChecklist(r.checklist) }),
+    ...maybe("duplicateOf", str, r.duplicateOf, "duplicateOf", "expected a report id"),
+    ...(r.merged === undefined ? {} : { merged: list(r.merged, "merged", mergedReport) }),
+  };
+}
+
+/** Status change pulled from the server; unknown states pass (they're ignored when applied), malformed ones don't. */
+export function normalizeStatusChange(x: unknown): StatusChange {
+  const c = need(obj, x, "change", "expected an object");
+  return {
+    id: need(str, c.id, "id", "missing report id"),
+    state: need(str, c.state, "state", "missing state"),
+    at: need(isDate, c.at, "at", "missing or invalid date"),
+    ...maybe("note", str, c.note, "note", "expected text"),
+  };
+}
+
+// ---- Settings ----
+export type DuressSettings = VaultParams & { digest: string };
+export type PanicSettings = { duress?: DuressSettings; gesture: boolean; uploadFirst: boolean };
+export type Settings = {
+  lang?: Lang;
+  role?: "reporter" | "authority";
+  officer?: { name: string; team: string };
+  authority: { sms: string; ussd: string };
+  sync?: { endpoint: string };
+  safe: SafeSettings;
+  vault?: VaultParams & { autoLockMins: number };
+  panic?: PanicSettings;
+};
+
+export const DEFAULT_SETTINGS: Settings = { authority: { sms: "", ussd: "" }, safe: DEFAULT_SAFE };
+
+const isVaultParams = (x: any): x is VaultParams =>
+  isObject(x) && typeof x.salt === "string" && isObject(x.kdf) && x.kdf.name === "PBKDF2" && x.kdf.hash === "SHA-256" && num(x.kdf.iterations);
+const isHour = (h: unknown) => Number.isInteger(h) && (h as number) >= 0 && (h as number) <= 23;
+const isQuietHours = (x: any): x is SafeSettings["quietHours"] => isObject(x) && isHour(x.from) && isHour(x.to);
+const isDuress = (x: any): x is DuressSettings => isVaultParams(x) && typeof (x as any).digest === "string";
+
+/** Settings with every invalid field reset to its default; `problems` names the fields that were reset. */
+export function normalizeSettings(x: unknown): { settings: Settings; problems: string[] } {
+  const problems: string[] = [];
+  if (!isObject(x)) return { settings: DEFAULT_SETTINGS, problems: x === null || x === undefined ? [] : ["settings: expected an object"] };
+  // each field is checked on its own so one bad value doesn't reset the rest
+  const field = <T>(key: string, read: () => T | undefined): Partial<Record<string, T>> => {
+    if (x[key] === undefined) return {};
+    try {
+      const v = read();
+      return v === undefined ? {} : { [key]: v };
+    } catch (e: any) {
+      problems.push(e instanceof SchemaError ? e.message : `${key}: invalid`);
+      return {};
+    }
+  };
+  // a part of a field that falls back to its own default, so one bad part doesn't reset the whole field
+  const part = <T>(path: string, read: () => T, fallback: T): T => {
+    try {
+      return read();
+    } catch (e: any) {
+      problems.push(e instanceof SchemaError ? e.message : `${path}: invalid`);
+      return fallback;
+    }
+  };
+  const text = (o: any, k: string, path: string) => opt(str, o?.[k], `${path}.${k}`, "expected text", "");
+  const positive = (o: any, k: string, path: string, fallback: number) =>
+    opt((n): n is number => num(n) && n > 0, o?.[k], `${path}.${k}`, "expected a positive number", fallback);
+
+  const s = {
+    ...DEFAULT_SETTINGS,
+    ...field("lang", () => need(isLang, x.lang, "lang", `unknown language "${x.lang}"`)),
+    ...field("role", () => need(oneOf(["reporter", "authority"] as const), x.role, "role", `unknown role "${x.role}"`)),
+    ...field("officer", () => {
+      const o = need(obj, x.officer, "officer", "expected an object");
+      return { name: text(o, "name", "officer"), team: text(o, "team", "officer") };
+    }),
+    ...field("authority", () => {
+      const a = need(obj, x.authority, "authority", "expected an object");
+      return { sms: text(a, "sms", "authority"), ussd: text(a, "ussd", "authority") };
+    }),
+    ...field("sync", () => ({ endpoint: text(need(obj, x.sync, "sync", "expected an object"), "endpoint", "sync") })),
+    ...field("safe", () => {
+      const o = need(obj, x.safe, "safe", "expected an object");
+      const d = DEFAULT_SAFE;
+      const safe = <K extends keyof SafeSettings>(k: K, read: () => SafeSettings[K]) => part(`safe.${k}`, read, d[k]);
+      return {
+        minMeters: safe("minMeters", () => positive(o, "minMeters", "safe", d.minMeters)),
+        maxWaitMins: safe("maxWaitMins", () => positive(o, "maxWaitMins", "safe", d.maxWaitMins)),
+        minFixes: safe("minFixes", () => positive(o, "minFixes", "safe", d.minFixes)),
+        sustainSecs: safe("sustainSecs", () => opt((n): n is number => num(n) && n >= 0, o.sustainSecs, "safe.sustainSecs", "expected seconds", d.sustainSecs)),
+        maxAccuracyM: safe("maxAccuracyM", () => positive(o, "maxAccuracyM", "safe", d.maxAccuracyM)),
+        quietHours: safe("quietHours", () => (o.quietHours == null ? null : need(isQuietHours, o.quietHours, "safe.quietHours", "expected hours from 0 to 23"))),
+        network: safe("network", () => opt(oneOf(["any", "homeWifi"] as const), o.network, "safe.network", `unknown network rule "${o.network}"`, d.network)),
+        home: safe("home", () => (o.home == null ? null : need(isLatLon, o.home, "safe.home", "invalid coordinates"))),
+        manual: safe("manual", () => opt(bool, o.manual, "safe.manual", "expected true/false", d.manual)),
+      };
+    }),
+    ...field("vault", () => {
+      const v = need(isVaultParams, x.vault, "vault", "invalid vault parameters");
+      return { ...v, autoLockMins: positive(v, "autoLockMins", "vault", 5) };
+    }),
+    ...field("panic", () => {
+      const p = need(obj, x.panic, "panic", "expected an object");
+      return {
+        gesture: opt(bool, p.gesture, "panic.gesture", "expected true/false", false),
+        uploadFirst: opt(bool, p.uploadFirst, "panic.uploadFirst", "expected true/false", false),
+        ...maybe("duress", isDuress, p.duress, "panic.duress", "invalid duress PIN parameters"),
+      };
+    }),
+  } as Settings;
+  return { settings: s, problems };
+}
@@ -0,0 +1,222 @@
+/**
+ * Container metadata scrubbing for video and audio (images are re-encoded instead; see sanitizeImage in App)
+ * - MP4 / MOV / M4A: udta, meta and XMP uuid boxes become `free`, creation/modification times are zeroed,
+ *   and timed-metadata tracks (GPS telemetry) have their samples zeroed before the track is dropped
+ * - WebM / Matroska: Tags, Attachments, DateUTC, Title and track names become Void; muxer/writer app strings are blanked
+ * - MP3: ID3v2 / ID3v1 tags are cut off
+ * MP4 and WebM are patched in place, so sizes and sample offsets don't change and players need no index rewrite.
+ */
+
+export type ScrubResult = { blob: Blob; scrubbed: boolean };
+
+const ascii = (b: Uint8Array, p: number, n: number) => String.fromCharCode(...b.subarray(p, p + n));
+
+/** Returns a copy without identifying metadata; `scrubbed: false` means the format isn't recognised and the blob is returned as-is. */
+export async function scrubMetadata(blob: Blob): Promise<ScrubResult> {
+  const b = new Uint8Array(await blob.arrayBuffer());
+  const type = blob.type;
+  if (isMP4(b)) return { blob: new Blob([scrubMP4(b)], { type }), scrubbed: true };
+  if (isWebM(b)) return { blob: new Blob([scrubWebM(b)], { type }), scrubbed: true };
+  if (isMP3(b)) return { blob: new Blob([scrubMP3(b)], { type }), scrubbed: true };
+  return { blob, scrubbed: false };
+}
+
+// ---- MP4 (ISO BMFF / QuickTime) ----
+const MP4_FIRST = new Set(["ftyp", "moov", "mdat", "free", "skip", "wide"]);
+const MP4_CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl", "edts", "moof", "traf"]);
+const MP4_DROP = new Set(["udta", "meta", "uuid", "XMP_"]);
+const MP4_TIMES = new Set(["mvhd", "tkhd", "mdhd"]);
+
+export const isMP4 = (b: Uint8Array) => b.length >= 8 && MP4_FIRST.has(ascii(b, 4, 4));
+
+type Box = { type: string; start: number; body: number; end: number };
+function boxes(b: Uint8Array, start: number, end: number): Box[] {
+  const dv = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const out: Box[] = [];
+  for (let p = start; p + 8 <= end; ) {
+    let size = dv.getUint32(p);
+    let header = 8;
+    if (size === 1) {
+      if (p + 16 > end) break;
+      size = Number(dv.getBigUint64(p + 8));
+      header = 16;
+    } else if (size === 0) size = end - p; // runs to the end of the file
+    if (size < header || p + size > end) break; // truncated or corrupt: leave the rest alone
+    out.push({ type: ascii(b, p + 4, 4), start: p, body: p + header, end: p + size });
+    p += size;
+  }
+  return out;
+}
+
+const toFree = (b: Uint8Array, box: Box) => {
+  b.set([0x66, 0x72, 0x65, 0x65], box.start + 4); // "free"
+  b.fill(0, box.body, box.end);
+};
+
+// Byte ranges of every sample in a track, from its sample table (stsz + stsc + stco/co64).
+function sampleRanges(b: Uint8Array, stbl: Box): [number, number][] {
+  const dv = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const kids = boxes(b, stbl.body, stbl.end);
+  const stsz = kids.find((k) => k.type === "stsz");
+  const stsc = kids.find((k) => k.type === "stsc");
+  const stco = kids.find((k) => k.type === "stco" || k.type === "co64");
+  if (!stsz || !stsc || !stco) return [];
+
+  const fixedSize = dv.getUint32(stsz.body + 4);
+  const sampleCount = dv.getUint32(stsz.body + 8);
+  const sizeOf = (i: number) => (fixedSize || dv.getUint32(stsz.body + 12 + 4 * i));
+  const runs = Array.from({ length: dv.getUint32(stsc.body + 4) }, (_, i) => ({
+    firstChunk: dv.getUint32(stsc.body + 8 + 12 * i),
+    perChunk: dv.getUint32(stsc.body + 12 + 12 * i),
+  }));
+  const wide = stco.type === "co64";
+  const chunks = dv.getUint32(stco.body + 4);
+
+  const ranges: [number, number][] = [];
+  let sample = 0;
+  for (let c = 1, run = 0; c <= chunks && sample < sampleCount; c++) {
+    while (run + 1 < runs.length && runs[run + 1].firstChunk <= c) run++;
+    let off = wide ? Number(dv.getBigUint64(stco.body + 8 + 8 * (c - 1))) : dv.getUint32(stco.body + 8 + 4 * (c - 1));
+    for (let k = 0; k < (runs[run]?.perChunk || 0) && sample < sampleCount; k++, sample++) {
+      const len = sizeOf(sample);
+      ranges.push([off, off + len]);
+      off += len;
+    }
+  }
+  return ranges;
+}
+
+// handler type from mdia/hdlr: "vide", "soun", "meta" (timed metadata such as GPS telemetry), ...
+const handlerOf = (b: Uint8Array, trak: Box) => {
+  const mdia = boxes(b, trak.body, trak.end).find((k) => k.type === "mdia");
+  const hdlr = mdia && boxes(b, mdia.body, mdia.end).find((k) => k.type === "hdlr");
+  return hdlr ? ascii(b, hdlr.body + 8, 4) : "";
+};
+const find = (b: Uint8Array, parent: Box, ...path: string[]): Box | undefined =>
+  path.reduce<Box | undefined>((box, t) => box && boxes(b, box.body, box.end).find((k) => k.type === t), parent);
+
+function scrubMP4(b: Uint8Array<ArrayBuffer>) {
+  const walk = (start: number, end: number) => {
+    for (const box of boxes(b, start, end)) {
+      if (MP4_DROP.has(box.type)) toFree(b, box);
+      else if (MP4_TIMES.has(box.type)) b.fill(0, box.body + 4, box.body + 4 + (b[box.body] === 1 ? 16 : 8));
+      else if (box.type === "trak" && handlerOf(b, box) === "meta") {
+        const stbl = find(b, box, "mdia", "minf", "stbl");
+        if (stbl) for (const [s, e] of sampleRanges(b, stbl)) if (e <= b.length) b.fill(0, s, e);
+        toFree(b, box);
+      } else if (MP4_CONTAINERS.has(box.type)) walk(box.body, box.end);
+    }
+  };
+  walk(0, b.length);
+  return b;
+}
+
+// ---- WebM / Matroska (EBML) ----
+const EBML = 0x1a45dfa3, SEGMENT = 0x18538067, VOID = 0xec;
+const SEGMENT_CHILDREN = new Set([0x114d9b74, 0x1549a966, 0x1654ae6b, 0x1c53bb6b, 0x1f43b675, 0x1254c367, 0x1941a469, 0x1043a770]);
+const INFO = 0x1549a966, TRACKS = 0x1654ae6b, TRACK_ENTRY = 0xae;
+const VOID_IDS = new Set([0x1254c367 /* Tags */, 0x1941a469 /* Attachments */, 0x4461 /* DateUTC */, 0x7ba9 /* Title */, 0x536e /* track Name */]);
+const BLANK_IDS = new Set([0x4d80 /* MuxingApp */, 0x5741 /* WritingApp */]); // mandatory, so emptied rather than removed
+
+export const isWebM = (b: Uint8Array) => b.length >= 4 && ((b[0] << 24) | (b[1] << 16) | (b[2] << 8) | b[3]) >>> 0 === EBML;
+
+const vintLength = (first: number) => {
+  for (let n = 1, mask = 0x80; n <= 8; n++, mask >>= 1) if (first & mask) return n;
+  return 9;
+};
+type Element = { id: number; start: number; data: number; end: number | null }; // end null = unknown size
+function readElement(b: Uint8Array, p: number): Element | null {
+  if (p >= b.length) return null;
+  const idLen = vintLength(b[p]);
+  if (idLen > 4 || p + idLen >= b.length) return null;
+  let id = 0;
+  for (let i = 0; i < idLen; i++) id = id * 256 + b[p + i];
+  const q = p + idLen;
+  const sizeLen = vintLength(b[q]);
+  if (sizeLen > 8 || q + sizeLen > b.length) return null;
+  let size = b[q] & (0xff >> sizeLen);
+  let unknown = size === 0xff >> sizeLen;
+  for (let i = 1; i < sizeLen; i++) {
+    size = size * 256 + b[q + i];
+    if (b[q + i] !== 0xff) unknown = false;
+  }
+  const data = q + sizeLen;
+  return { id, start: p, data, end: unknown ? null : Math.min(data + size, b.length) };
+}
+
+// Overwrites an element with a Void element of exactly the same length.
+function toVoid(b: Uint8Array, el: Element) {
+  const n = el.end! - el.start;
+  b.fill(0, el.start, el.end!);
+  b[el.start] = VOID;
+  if (n - 1 >= 9) {
+    // 8-byte size: 0x01 marker then 7 bytes of length
+    let len = n - 9;
+    b[el.start + 1] = 0x01;
+    for (let i = 8; i >= 2; i--, len = Math.floor(len / 256)) b[el.start + i] = len & 0xff;
+  } else b[el.start + 1] = 0x80 | (n - 2);
+}
+
+function children(b: Uint8Array, start: number, end: number, stopAt?: Set<number>) {
+  const out: Element[] = [];
+  for (let p = start; p < end; ) {
+    const el = readElement(b, p);
+    if (!el || (stopAt && stopAt.has(el.id))) break;
+    out.push(el);
+    if (el.end === null) break; // only clusters use unknown sizes; the caller resumes after them
+    p = el.end;
+  }
+  return out;
+}
+
+function scrubWebM(b: Uint8Array<ArrayBuffer>) {
+  const scrubIn = (start: number, end: number) => {
+    for (const el of children(b, start, end)) {
+      if (VOID_IDS.has(el.id)) toVoid(b, el);
+      else if (BLANK_IDS.has(el.id)) b.fill(0, el.data, el.end!);
+      else if (el.id === TRACK_ENTRY) scrubIn(el.data, el.end!);
+    }
+  };
+  for (let p = 0; p < b.length; ) {
+    const top = readElement(b, p);
+    if (!top) break;
+    if (top.id !== SEGMENT) {
+      if (top.end === null) break;
+      p = top.end;
+      continue;
+    }
+    // live recordings (MediaRecorder) leave the segment and its clusters with unknown sizes
+    const segEnd = top.end ?? b.length;
+    for (let q = top.data; q < segEnd; ) {
+      const el = readElement(b, q);
+      if (!el) break;
+      if (el.end === null) {
+        // skip an unknown-size cluster: it ends where the next segment-level element starts
+        const inner = children(b, el.data, segEnd, SEGMENT_CHILDREN);
+        const last = inner[inner.length - 1];
+        q = last ? (last.end ?? segEnd) : el.data;
+        if (last?.end === null) break;
+        continue;
+      }
+      if (VOID_IDS.has(el.id)) toVoid(b, el);
+      else if (el.id === INFO || el.id === TRACKS) scrubIn(el.data, el.end);
+      q = el.end;
+    }
+    p = segEnd;
+  }
+  return b;
+}
+
+// ---- MP3 ----
+export const isMP3 = (b: Uint8Array) => ascii(b, 0, 3) === "ID3" || (b.length > 2 && b[0] === 0xff && (b[1] & 0xe0) === 0xe0);
+
+function scrubMP3(b: Uint8Array<ArrayBuffer>) {
+  let start = 0, end = b.length;
+  // ID3v2 may be repeated; sizes are "syncsafe" (7 bits per byte)
+  while (ascii(b, start, 3) === "ID3" && start + 10 <= end) {
+    const size = (b[start + 6] << 21) | (b[start + 7] << 14) | (b[start + 8] << 7) | b[start + 9];
+    start += 10 + size + (b[start + 5] & 0x10 ? 10 : 0);
+  }
+  if (end - start >= 128 && ascii(b, end - 128, 3) === "TAG") end -= 128;
+  return b.slice(Math.min(start, end), end);
+}
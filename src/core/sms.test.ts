@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { haversine } from "./geo";
+import { EMPTY_DRAFT, buildReport } from "./report";
+import { SmsDecodeError, decodeSMS, encodeSMS, ingestSMS } from "./sms";
+
+const NOW = new Date("2026-03-02T08:00:00Z");
+const RECEIVED = new Date("2026-03-02T08:05:00Z");
+const report = (description: string) =>
+  buildReport(
+    { ...EMPTY_DRAFT, category: "Chemical use", description, gps: { lat: 6.2012, lon: -1.6913, accuracy: 12 } },
+    { id: "3f9a1c2e-0000-4000-8000-000000000000", now: NOW }
+  )!;
+
+describe("SMS format", () => {
+  it("round-trips a report through its parts, in any order", () => {
+    const r = report("Mercury being poured near the stream; boats at night. ".repeat(4).trim());
+    const parts = encodeSMS(r);
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((p) => expect(p.length).toBeLessThanOrEqual(160));
+    const back = decodeSMS([...parts].reverse(), RECEIVED);
+    expect(back).toMatchObject({ id: "sms-3f9a1c2e", category: "Chemical use", description: r.description, createdAt: NOW.toISOString(), status: "Received" });
+    expect(haversine(back.gps.lat, back.gps.lon, r.gps.lat, r.gps.lon)).toBeLessThan(back.gps.accuracy!);
+  });
+
+  it("rejects altered or incomplete messages", () => {
+    const parts = encodeSMS(report("Excavators in the forest reserve, three of them, working since Monday morning without stopping. ".repeat(3)));
+    const tampered = parts.map((p, i) => (i === 0 ? p.replace(/.$/, (c) => (c === "x" ? "y" : "x")) : p));
+    expect(() => decodeSMS(tampered)).toThrow(SmsDecodeError);
+    expect(() => decodeSMS(parts.slice(1))).toThrow(/missing part/);
+  });
+
+  it("keeps incomplete sets aside when ingesting a batch", () => {
+    const a = encodeSMS(report("Dredger on the river"));
+    const b = encodeSMS({ ...report("x ".repeat(120)), id: "77aa0000-0000-4000-8000-000000000000" });
+    const res = ingestSMS([...a, b[0]], RECEIVED);
+    expect(res.reports.map((r) => r.id)).toEqual(["sms-3f9a1c2e"]);
+    expect(res.incomplete).toEqual([{ ref: "77aa0000", have: 1, total: b.length }]);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Checklist, Report } from "./types";
+import { geohashDecode, geohashEncode, haversine } from "./geo";
+import { crc32 } from "./zip";
+import { publicPoint } from "./obfuscate";
+import { LANGUAGES } from "./i18n";
+import { ACTIVITY_TYPES, CATEGORIES, CHECKLIST_CATEGORY, HAZARDS, RISK_LEVELS, TIMES_OF_DAY, checklistText } from "./checklist";
+
+/**
+ * Compact SMS format, v1 (fallback channel to the authority, so the location is the raw GPS)
+ * - Payload `cat;geohash;acc;time;flags;text;crc`:
+ *   cat      category code (checklist.ts)
+ *   geohash  8 characters, a ~38 × 19 m cell
+ *   acc      GPS accuracy in metres
+ *   time     createdAt in minutes since the epoch, base 36
+ *   flags    checklist as `types.hazards.TR` (bitmasks in base 32, time-of-day and risk as 1-based digits); empty without one
+ *   text     free text on one line; a checklist's summary line is left out and rebuilt by the decoder
+ *   crc      first 20 bits of the CRC-32 of everything before it, in the geohash alphabet
+ * - Sent as parts `GW1 <ref> <i>/<n> <chunk>`, each fitting a single SMS (160 GSM-7 characters, or 70 otherwise)
+ * - `ref` is the first 8 hex digits of the report id; decoded reports get the id `sms-<ref>`
+ */
+
+export const SMS_VERSION = "GW1";
+export const MAX_SMS_PARTS = 6;
+// Public blur for decoded reports (same default as the report form).
+const SMS_BLUR_M = 300;
+const GEOHASH_PRECISION = 8;
+const B32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export class SmsDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SmsDecodeError";
+  }
+}
+
+// ---- GSM-7 ----
+const GSM_BASIC = "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM_EXTENDED = "^{}\\[~]|€";
+const isGSM = (s: string) => [...s].every((c) => GSM_BASIC.includes(c) || GSM_EXTENDED.includes(c));
+
+const checksum = (s: string) => {
+  const c = crc32(new TextEncoder().encode(s)) >>> 12;
+  return [15, 10, 5, 0].map((shift) => B32[(c >>> shift) & 31]).join("");
+};
+const refOf = (id: string) => id.replace(/^sms-/, "").replace(/[^0-9a-f]/gi, "").slice(0, 8).toLowerCase().padEnd(8, "0");
+const header = (ref: string, i: number, n: number) => `${SMS_VERSION} ${ref} ${i}/${n} `;
+
+// ---- Encoding ----
+const bitmask = (items: [string, string][], ticked: Record<string, boolean>) =>
+  items.reduce((m, [k], i) => (ticked[k] ? m | (1 << i) : m), 0);
+
+function encodeFlags(chk?: Checklist) {
+  if (!chk) return "";
+  const t = TIMES_OF_DAY.indexOf(chk.time) + 1;
+  const r = RISK_LEVELS.indexOf(chk.risk) + 1;
+  return `${bitmask(ACTIVITY_TYPES, chk.types).toString(32)}.${bitmask(HAZARDS, chk.hazards).toString(32)}.${t}${r}`;
+}
+
+// Free text without the checklist summary line, on one line so each message stays a single line at the gateway.
+// The summary may be in any UI language; reports from before translation listed raw keys after the same English prefix.
+function freeText(r: Report) {
+  const lines = r.description.split(/\r?\n/);
+  const chk = r.checklist;
+  if (chk && (LANGUAGES.some((l) => lines[0] === checklistText(chk, l.code)) || lines[0].startsWith("Checklist report — Types: "))) lines.shift();
+  return lines.join(" ").replace(/\s+/g, " ").trim();
+}
+
+function payload(r: Report, text: string) {
+  const cat = CATEGORIES.find((c) => c.label === r.category)?.code || (r.checklist ? CHECKLIST_CATEGORY.code : "O");
+  const fields = [
+    cat,
+    geohashEncode(r.gps.lat, r.gps.lon, GEOHASH_PRECISION),
+    String(Math.round(r.gps.accuracy || 0)),
+    Math.floor(Date.parse(r.createdAt) / 60000).toString(36),
+    encodeFlags(r.checklist),
+    text,
+  ].join(";");
+  return `${fields};${checksum(fields)}`;
+}
+
+function split(body: string, ref: string): string[] {
+  const gsm = isGSM(body);
+  const room = (gsm ? 160 : 70) - header(ref, 1, 1).length;
+  const cost = (c: string) => (gsm ? (GSM_EXTENDED.includes(c) ? 2 : 1) : c.length);
+  const chunks: string[] = [];
+  let cur: string[] = [], used = 0;
+  for (const c of body) {
+    if (used + cost(c) > room) {
+      // gateways may trim trailing spaces, so a part never ends in one
+      const carry: string[] = [];
+      while (cur.length > 1 && /\s/.test(cur[cur.length - 1])) carry.unshift(cur.pop()!);
+      chunks.push(cur.join(""));
+      cur = carry;
+      used = carry.reduce((n, x) => n + cost(x), 0);
+    }
+    cur.push(c);
+    used += cost(c);
+  }
+  chunks.push(cur.join(""));
+  return chunks.map((c, i) => header(ref, i + 1, chunks.length) + c);
+}
+
+/** Encodes a report as one or more SMS bodies; long text is shortened to stay within MAX_SMS_PARTS. */
+export function encodeSMS(r: Report): string[] {
+  const ref = refOf(r.id);
+  let text = freeText(r);
+  for (;;) {
+    const parts = split(payload(r, text), ref);
+    if (parts.length <= MAX_SMS_PARTS || !text) return parts;
+    text = text.slice(0, Math.max(0, text.length - 3 - 20)).trimEnd() + "...";
+    if (text === "...") text = "";
+  }
+}
+
+// ---- Decoding ----
+export type SmsPart = { ref: string; index: number; total: number; chunk: string };
+
+const PART_RE = /^GW(\d+) ([0-9a-f]{8}) (\d+)\/(\d+) ([\s\S]*)$/;
+
+/** Parses one received message; null if it isn't in this format at all. */
+export function parseSMSPart(text: string): SmsPart | null {
+  const m = PART_RE.exec(text.trim());
+  if (!m) return null;
+  if (`GW${m[1]}` !== SMS_VERSION) throw new SmsDecodeError(`unsupported format version GW${m[1]}`);
+  const index = Number(m[3]), total = Number(m[4]);
+  if (index < 1 || index > total) throw new SmsDecodeError(`bad part number ${index}/${total}`);
+  return { ref: m[2], index, total, chunk: m[5] };
+}
+
+const flagBits = (items: [string, string][], mask: number) =>
+  Object.fromEntries(items.filter((_, i) => mask & (1 << i)).map(([k]) => [k, true]));
+
+function decodeFlags(s: string): Checklist | undefined {
+  if (!s) return undefined;
+  const m = /^([0-9a-v]+)\.([0-9a-v]+)\.(\d)(\d)$/.exec(s);
+  if (!m) throw new SmsDecodeError("invalid checklist flags");
+  return {
+    types: flagBits(ACTIVITY_TYPES, parseInt(m[1], 32)),
+    hazards: flagBits(HAZARDS, parseInt(m[2], 32)),
+    time: TIMES_OF_DAY[Number(m[3]) - 1] || "",
+    risk: RISK_LEVELS[Number(m[4]) - 1] || "",
+  };
+}
+
+/** Reassembles the parts of one message (any order) into a report; throws SmsDecodeError. */
+export function decodeSMS(parts: (SmsPart | string)[], receivedAt = new Date()): Report {
+  const ps = parts.map((p) => (typeof p === "string" ? parseSMSPart(p) : p));
+  if (ps.some((p) => !p)) throw new SmsDecodeError("not a report message");
+  const { ref, total } = ps[0]!;
+  if (ps.some((p) => p!.ref !== ref || p!.total !== total)) throw new SmsDecodeError("parts belong to different messages");
+  const byIndex = new Map(ps.map((p) => [p!.index, p!.chunk]));
+  const missing = Array.from({ length: total }, (_, i) => i + 1).filter((i) => !byIndex.has(i));
+  if (missing.length) throw new SmsDecodeError(`missing part(s) ${missing.join(", ")} of ${total}`);
+
+  const body = Array.from({ length: total }, (_, i) => byIndex.get(i + 1)).join("");
+  const cut = body.lastIndexOf(";");
+  if (cut < 0 || checksum(body.slice(0, cut)) !== body.slice(cut + 1)) throw new SmsDecodeError("checksum mismatch (message altered or incomplete)");
+  const [cat, hash, acc, time, flags, ...rest] = body.slice(0, cut).split(";");
+  const text = rest.join(";");
+
+  const cell = geohashDecode(hash || "");
+  if (!cell) throw new SmsDecodeError("invalid location");
+  const minutes = parseInt(time, 36);
+  if (!Number.isFinite(minutes)) throw new SmsDecodeError("invalid time");
+  const createdAt = new Date(minutes * 60000).toISOString();
+  const checklist = decodeFlags(flags);
+  const category = cat === CHECKLIST_CATEGORY.code ? CHECKLIST_CATEGORY.label : CATEGORIES.find((c) => c.code === cat)?.label || "Other";
+
+  const gps = { lat: cell.lat, lon: cell.lon };
+  // the cell adds its own uncertainty on top of the reported GPS accuracy
+  const cellM = haversine(cell.lat - cell.latErr, cell.lon - cell.lonErr, cell.lat + cell.latErr, cell.lon + cell.lonErr) / 2;
+  return {
+    id: `sms-${ref}`,
+    createdAt,
+    category,
+    description: [checklist && checklistText(checklist), text].filter(Boolean).join("\n"),
+    gps: { ...gps, accuracy: Math.round(Math.max(Number(acc) || 0, cellM)) },
+    blurRadius: SMS_BLUR_M,
+    publicOffset: publicPoint(gps, SMS_BLUR_M),
+    media: [],
+    anonymous: true,
+    contact: null,
+    rewardOptIn: false,
+    status: "Received",
+    history: [
+      { state: "Submitted", at: createdAt },
+      { state: "Received", at: receivedAt.toISOString(), note: "via SMS" },
+    ],
+    safeUpload: { required: false, ready: true },
+    ...(checklist ? { checklist } : {}),
+  };
+}
+
+export type SmsIngest = {
+  reports: Report[];
+  incomplete: { ref: string; have: number; total: number }[];
+  rejected: { ref: string; detail: string }[];
+};
+
+/** Groups a batch of received messages by reference and decodes every complete set (gateway entry point). */
+export function ingestSMS(messages: string[], receivedAt = new Date()): SmsIngest {
+  const out: SmsIngest = { reports: [], incomplete: [], rejected: [] };
+  const groups = new Map<string, SmsPart[]>();
+  for (const text of messages) {
+    if (!text.trim()) continue;
+    try {
+      const p = parseSMSPart(text);
+      if (!p) { out.rejected.push({ ref: text.slice(0, 24), detail: "not a report message" }); continue; }
+      const key = `${p.ref}/${p.total}`;
+      const g = groups.get(key) || [];
+      // a resent part replaces the earlier copy
+      groups.set(key, [...g.filter((x) => x.index !== p.index), p]);
+    } catch (e: any) {
+      out.rejected.push({ ref: text.slice(0, 24), detail: e.message });
+    }
+  }
+  for (const [key, parts] of groups) {
+    const ref = key.split("/")[0];
+    if (parts.length < parts[0].total) { out.incomplete.push({ ref, have: parts.length, total: parts[0].total }); continue; }
+    try { out.reports.push(decodeSMS(parts, receivedAt)); } catch (e: any) { out.rejected.push({ ref, detail: e.message }); }
+  }
+  return out;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_DRAFT, buildReport } from "./report";
+import { TransitionError, applyRemoteStatus, isOpen, isTerminal, needsReason, nextStates, transition } from "./status";
+import type { Report, ReportStatus } from "./types";
+
+const NOW = new Date("2026-03-02T08:00:00Z");
+const queued = buildReport(
+  { ...EMPTY_DRAFT, category: "River dredging", description: "Dredger on the river", gps: { lat: 6.2012, lon: -1.6913, accuracy: 12 } },
+  { id: "r1", now: NOW }
+)!;
+const at = (status: ReportStatus): Report => ({ ...queued, status });
+
+describe("report state machine", () => {
+  it("lets each role make only its own moves", () => {
+    const sent = transition(queued, "Submitted", { actor: "system", at: "2026-03-02T08:01:00Z" });
+    expect(sent).toMatchObject({ status: "Submitted", history: [{ state: "Queued" }, { state: "Submitted", at: "2026-03-02T08:01:00Z" }] });
+    expect(() => transition(queued, "Submitted", { actor: "authority" })).toThrow(TransitionError);
+    expect(() => transition(at("Received"), "In Progress", { actor: "reporter" })).toThrow(/reporter cannot move a report from Received to In Progress/);
+    expect(nextStates("Needs more info", "reporter")).toEqual(["Received"]);
+    expect(() => transition(queued, "Resolved", { actor: "authority", reason: "done" })).toThrow(TransitionError);
+  });
+
+  it("requires a reason where the rule asks for one and keeps it as the note", () => {
+    expect(needsReason("Received", "Rejected", "authority")).toBe(true);
+    expect(needsReason("Received", "In Progress", "authority")).toBe(false);
+    expect(() => transition(at("Received"), "Rejected", { actor: "authority", reason: "   " })).toThrow(/requires a reason/);
+    const r = transition(at("Received"), "Rejected", { actor: "authority", by: "Officer A", reason: "  Not mining  ", at: "2026-03-03T09:00:00Z" });
+    expect(r.history[r.history.length - 1]).toEqual({ state: "Rejected", at: "2026-03-03T09:00:00Z", by: "Officer A", note: "Not mining" });
+  });
+
+  it("ends at Resolved, Rejected and Duplicate", () => {
+    for (const s of ["Resolved", "Rejected", "Duplicate"] as const) {
+      expect(isTerminal(s)).toBe(true);
+      expect(isOpen(at(s))).toBe(false);
+      for (const actor of ["system", "authority", "reporter"] as const) expect(nextStates(s, actor)).toEqual([]);
+    }
+    expect(isOpen(queued)).toBe(false);
+    expect(isOpen(at("Needs more info"))).toBe(true);
+  });
+
+  it("applies server changes as they come, once, and ignores unknown states", () => {
+    const r = applyRemoteStatus(queued, "Resolved", "2026-03-04T10:00:00Z", "Site closed");
+    expect(r).toMatchObject({ status: "Resolved", history: [{ state: "Queued" }, { state: "Resolved", note: "Site closed" }] });
+    expect(applyRemoteStatus(r, "Resolved", "2026-03-04T10:00:00Z")).toBe(r);
+    expect(applyRemoteStatus(queued, "Archived", "2026-03-04T10:00:00Z")).toBe(queued);
+  });
+});
@@ -0,0 +1,92 @@
+import { BRANCH_STATUSES, STATUSES, type Assignee, type Report, type ReportStatus } from "./types";
+
+/**
+ * Report state machine
+ * - Every move must match a rule for the acting role; some rules require a reason, stored as the history note
+ * - `system` moves are made by the sync engine, `authority` by officers, `reporter` by the person who filed it
+ * - Resolved, Rejected and Duplicate are terminal
+ */
+
+export type Actor = "system" | "authority" | "reporter";
+type Rule = { to: ReportStatus; actor: Actor; reason?: boolean };
+
+export const TRANSITIONS: Record<ReportStatus, Rule[]> = {
+  Queued: [{ to: "Submitted", actor: "system" }],
+  Submitted: [
+    { to: "Received", actor: "system" },
+    { to: "Received", actor: "authority" },
+    { to: "Rejected", actor: "authority", reason: true },
+    { to: "Duplicate", actor: "authority", reason: true },
+  ],
+  Received: [
+    { to: "In Progress", actor: "authority" },
+    { to: "Needs more info", actor: "authority", reason: true },
+    { to: "Rejected", actor: "authority", reason: true },
+    { to: "Duplicate", actor: "authority", reason: true },
+  ],
+  "Needs more info": [
+    { to: "Received", actor: "reporter", reason: true }, // the reason is the requested information
+    { to: "In Progress", actor: "authority" },
+    { to: "Rejected", actor: "authority", reason: true },
+  ],
+  "In Progress": [
+    { to: "Resolved", actor: "authority", reason: true },
+    { to: "Needs more info", actor: "authority", reason: true },
+    { to: "Rejected", actor: "authority", reason: true },
+    { to: "Duplicate", actor: "authority", reason: true },
+  ],
+  Resolved: [],
+  Rejected: [],
+  Duplicate: [],
+};
+
+export const TERMINAL: ReportStatus[] = ["Resolved", "Rejected", "Duplicate"];
+
+export class TransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransitionError";
+  }
+}
+
+export const isStatus = (s: unknown): s is ReportStatus =>
+  (STATUSES as readonly string[]).includes(s as string) || (BRANCH_STATUSES as readonly string[]).includes(s as string);
+export const isTerminal = (s: ReportStatus) => TERMINAL.includes(s);
+export const rulesFrom = (status: ReportStatus, actor: Actor) => (TRANSITIONS[status] || []).filter((r) => r.actor === actor);
+export const nextStates = (status: ReportStatus, actor: Actor) => rulesFrom(status, actor).map((r) => r.to);
+export const needsReason = (from: ReportStatus, to: ReportStatus, actor: Actor) =>
+  !!rulesFrom(from, actor).find((r) => r.to === to)?.reason;
+
+export function transition(
+  r: Report,
+  to: ReportStatus,
+  opts: { actor: Actor; by?: string; reason?: string; at?: string }
+): Report {
+  const rule = rulesFrom(r.status, opts.actor).find((x) => x.to === to);
+  if (!rule) throw new TransitionError(`A ${opts.actor} cannot move a report from ${r.status} to ${to}.`);
+  const reason = opts.reason?.trim();
+  if (rule.reason && !reason) throw new TransitionError(`Moving to ${to} requires a reason.`);
+  const entry = { state: to, at: opts.at ?? new Date().toISOString(), ...(opts.by ? { by: opts.by } : {}), ...(reason ? { note: reason } : {}) };
+  return { ...r, status: to, history: [...r.history, entry] };
+}
+
+/**
+ * Server-side status changes are authoritative and may skip steps this device never saw,
+ * so they bypass the rules; unknown states are ignored.
+ */
+export function applyRemoteStatus(r: Report, state: string, at: string, note?: string): Report {
+  if (!isStatus(state) || r.history.some((h) => h.state === state && h.at === at)) return r;
+  return { ...r, status: state, history: [...r.history, { state, at, ...(note ? { note } : {}) }] };
+}
+
+// ---- Authority actions beyond status ----
+export const addNote = (r: Report, text: string, by: string, at = new Date().toISOString()): Report => ({
+  ...r,
+  notes: [...(r.notes || []), { at, by, text }],
+});
+
+export const assign = (r: Report, to: Assignee | null, by: string, at = new Date().toISOString()): Report =>
+  addNote({ ...r, assignee: to }, to ? `Assigned to ${to.kind} ${to.name}` : "Unassigned", by, at);
+
+/** Reports that were sent and still need authority action. */
+export const isOpen = (r: Report) => r.status !== "Queued" && !isTerminal(r.status);
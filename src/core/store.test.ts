@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, normalizeReport, normalizeSettings } from "./schema";
+import { memoryStore } from "./store";
+import { DEFAULT_SAFE } from "./safe-upload";
+
+const OLD_RECORD = { id: "r1", createdAt: "2025-01-05T10:00:00Z", category: "Other", description: "Pit", gps: { lat: 6.2, lon: -1.7 }, status: "Submitted" };
+
+describe("normalizeReport", () => {
+  it("fills fields older records lack", () => {
+    const r = normalizeReport(OLD_RECORD);
+    expect(r).toMatchObject({ blurRadius: 300, media: [], contact: null, anonymous: true, history: [{ state: "Submitted", at: OLD_RECORD.createdAt }] });
+    expect(r.publicOffset).not.toEqual(OLD_RECORD.gps);
+  });
+
+  it("names the field that is wrong", () => {
+    expect(() => normalizeReport({ ...OLD_RECORD, gps: { lat: 120, lon: 0 } })).toThrow(/^gps/);
+    expect(() => normalizeReport({ ...OLD_RECORD, status: "Lost" })).toThrow('status: unknown status "Lost"');
+  });
+});
+
+describe("normalizeSettings", () => {
+  it("resets only the settings that are invalid", () => {
+    const { settings, problems } = normalizeSettings({ lang: "xx", safe: { minMeters: -1, maxWaitMins: 45 }, authority: { sms: "1234", ussd: "" }, role: "authority" });
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, safe: { ...DEFAULT_SAFE, maxWaitMins: 45 }, authority: { sms: "1234", ussd: "" }, role: "authority" });
+    expect(problems).toEqual(['lang: unknown language "xx"', "safe.minMeters: expected a positive number"]);
+  });
+
+  it("fills the newer upload-when-safe rules into older settings", () => {
+    const { settings, problems } = normalizeSettings({ safe: { minMeters: 800, maxWaitMins: 45 } });
+    expect(settings.safe).toEqual({ ...DEFAULT_SAFE, minMeters: 800, maxWaitMins: 45 });
+    expect(problems).toEqual([]);
+    expect(normalizeSettings({ safe: { quietHours: { from: 19, to: 24 } } }).problems).toEqual(["safe.quietHours: expected hours from 0 to 23"]);
+  });
+});
+
+describe("memoryStore", () => {
+  it("quarantines records that fail validation instead of loading them", async () => {
+    const store = memoryStore([OLD_RECORD, { ...OLD_RECORD, id: "r2", createdAt: "not a date" }]);
+    expect((await store.load()).map((r) => r.id)).toEqual(["r1"]);
+    expect(store.quarantined).toMatchObject([{ source: "storage", ref: "r2", reason: "createdAt: missing or invalid date" }]);
+    expect([...store.records.keys()]).toEqual(["r1"]);
+  });
+
+  it("saves only what changed between snapshots", async () => {
+    const store = memoryStore([OLD_RECORD]);
+    const [r1] = await store.load();
+    const r2 = { ...r1, id: "r2" };
+    await store.save([r1], [r2]);
+    expect([...store.records.keys()]).toEqual(["r2"]);
+    await store.setMeta("syncCursor", "4");
+    expect(await store.getMeta("syncCursor")).toBe("4");
+  });
+});
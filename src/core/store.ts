@@ -0,0 +1,58 @@
+import type { Report } from "./types";
+import { normalizeReport, type Quarantined } from "./schema";
+
+/**
+ * Report storage interface
+ * - The app and its service worker use the IndexedDB store (storage.ts: `idbStore`); `memoryStore` keeps
+ *   everything in memory for tests and for gateways that hold reports elsewhere
+ * - `load` returns validated reports only; records that fail validation are quarantined, never returned or dropped
+ */
+
+export interface ReportStore {
+  load(): Promise<Report[]>;
+  /** Writes only the reports that changed between two snapshots of the list. */
+  save(prev: Report[], next: Report[]): Promise<void>;
+  quarantine(items: Quarantined[]): Promise<void>;
+  getMeta<T = any>(key: string): Promise<T | undefined>;
+  setMeta(key: string, value: unknown): Promise<void>;
+}
+
+export type MemoryStore = ReportStore & { records: Map<string, unknown>; quarantined: Quarantined[]; meta: Map<string, unknown> };
+
+/** In-memory store seeded with raw records (e.g. parsed JSON), validated on `load` like stored ones. */
+export function memoryStore(seed: unknown[] = []): MemoryStore {
+  const records = new Map<string, unknown>(seed.map((r: any, i) => [String(r?.id ?? `record ${i + 1}`), r]));
+  const quarantined: Quarantined[] = [];
+  const meta = new Map<string, unknown>();
+  return {
+    records,
+    quarantined,
+    meta,
+    async load() {
+      const out: Report[] = [];
+      for (const [ref, raw] of [...records]) {
+        try {
+          out.push(normalizeReport(raw));
+        } catch (e: any) {
+          quarantined.push({ source: "storage", ref, reason: e?.message || "invalid record", raw });
+          records.delete(ref);
+        }
+      }
+      return out.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+    },
+    async save(prev, next) {
+      const keep = new Set(next.map((r) => r.id));
+      prev.forEach((r) => keep.has(r.id) || records.delete(r.id));
+      next.forEach((r) => records.set(r.id, r));
+    },
+    async quarantine(items) {
+      quarantined.push(...items);
+    },
+    async getMeta<T>(key: string) {
+      return meta.get(key) as T | undefined;
+    },
+    async setMeta(key, value) {
+      meta.set(key, value);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { SyncError, type StatusChange, type SyncTransport, type WireReport } from "./sync";
+
+/**
+ * In-memory stand-in for the authority backend, speaking the same protocol as `httpTransport`.
+ * Used when no sync endpoint is configured (demo) and by tests; `failEvery` injects retryable errors.
+ */
+export type MockServer = SyncTransport & {
+  reports: Map<string, WireReport>;
+  media: Map<string, Blob[]>;
+  /** Simulates an authority moving a report along, e.g. Received -> In Progress. */
+  setStatus(id: string, state: string, note?: string): void;
+};
+
+export function createMockServer(opts: { failEvery?: number; now?: () => Date } = {}): MockServer {
+  const now = opts.now ?? (() => new Date());
+  const reports = new Map<string, WireReport>();
+  const media = new Map<string, Blob[]>();
+  const changes: StatusChange[] = [];
+  let calls = 0;
+  const maybeFail = () => {
+    calls++;
+    if (opts.failEvery && calls % opts.failEvery === 0) throw new SyncError("mock: simulated 503", true);
+  };
+  const received = (key: string) => (media.get(key) || []).reduce((n, b) => n + b.size, 0);
+  const setStatus = (id: string, state: string, note?: string) => {
+    if (!reports.has(id)) throw new SyncError(`mock: unknown report ${id}`, false);
+    changes.push({ id, state, at: now().toISOString(), ...(note ? { note } : {}) });
+  };
+
+  return {
+    reports,
+    media,
+    setStatus,
+    async putReport(r) {
+      maybeFail();
+      const isNew = !reports.has(r.id);
+      reports.set(r.id, r); // re-sends (e.g. a reporter answering "Needs more info") replace the stored copy
+      if (isNew) setStatus(r.id, "Received");
+      return { id: r.id, receivedAt: changes.find((c) => c.id === r.id)!.at };
+    },
+    async mediaStatus(reportId, mediaId) {
+      maybeFail();
+      return { received: received(`${reportId}/${mediaId}`) };
+    },
+    async putMediaChunk(reportId, mediaId, offset, chunk) {
+      maybeFail();
+      const key = `${reportId}/${mediaId}`;
+      if (!reports.has(reportId)) throw new SyncError(`mock: unknown report ${reportId}`, false);
+      // Out-of-order chunks are ignored; the client resumes from `received`.
+      if (offset === received(key)) media.set(key, [...(media.get(key) || []), chunk]);
+      return { received: received(key) };
+    },
+    async pullStatus(cursor) {
+      maybeFail();
+      const from = cursor ? Number(cursor) : 0;
+      return { changes: changes.slice(from), cursor: String(changes.length) };
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Report } from "./types";
+import { EMPTY_DRAFT, buildReport } from "./report";
+import { SyncError, applySyncEvents, syncOnce, withRetry, type SyncTransport } from "./sync";
+import { createMockServer } from "./sync-mock";
+
+const clock = (iso: string) => () => new Date(iso);
+const report = (id: string, d: Partial<typeof EMPTY_DRAFT> = {}) =>
+  buildReport({ ...EMPTY_DRAFT, category: "Other", description: "Site", gps: { lat: 6.2, lon: -1.7 }, ...d }, { id, now: new Date("2026-03-02T08:00:00Z") })!;
+const noRetry = { retries: 0, baseMs: 0, maxMs: 0 };
+
+describe("syncOnce", () => {
+  it("uploads safe reports and brings back the server's status", async () => {
+    const now = clock("2026-03-02T09:00:00Z");
+    const server = createMockServer({ now });
+    let reports: Report[] = [report("a"), report("b")];
+    const res = await syncOnce(reports, { transport: server, isSafe: (r) => r.id === "a", cursor: null, now });
+    reports = applySyncEvents(reports, res.events);
+    expect([...server.reports.keys()]).toEqual(["a"]);
+    expect(reports.map((r) => r.status)).toEqual(["Received", "Queued"]);
+    expect(reports[0].history.map((h) => h.state)).toEqual(["Queued", "Submitted", "Received"]);
+
+    server.setStatus("a", "In Progress", "Team dispatched");
+    const next = await syncOnce(reports, { transport: server, isSafe: () => false, cursor: res.cursor, now });
+    expect(next.events).toEqual([{ type: "status", id: "a", state: "In Progress", at: now().toISOString(), note: "Team dispatched" }]);
+  });
+
+  it("skips the status pull when asked to upload only", async () => {
+    const server = createMockServer();
+    let pulled = false;
+    const transport = { ...server, pullStatus: async (c: string | null) => ((pulled = true), server.pullStatus(c)) };
+    const res = await syncOnce([report("a")], { transport, isSafe: () => true, cursor: "0", pull: false });
+    expect(res.events.map((e) => e.type)).toEqual(["uploaded"]);
+    expect(pulled).toBe(false);
+    expect(res.cursor).toBe("0");
+  });
+
+  it("retries transient failures without waiting for real time", async () => {
+    const waits: number[] = [];
+    const server = createMockServer({ failEvery: 2 });
+    const res = await syncOnce([report("a")], {
+      transport: server, isSafe: () => true, cursor: null,
+      retry: { retries: 3, baseMs: 1000, maxMs: 8000, sleep: async (ms) => void waits.push(ms) },
+    });
+    expect(res.errors).toEqual([]);
+    expect(waits.length).toBeGreaterThan(0);
+    waits.forEach((ms) => expect(ms).toBeLessThanOrEqual(8000));
+  });
+
+  it("gives up on permanent errors", async () => {
+    let calls = 0;
+    const fail = () => { calls++; throw new SyncError("400", false); };
+    await expect(withRetry(fail, { retries: 3, baseMs: 0, maxMs: 0 })).rejects.toThrow("400");
+    expect(calls).toBe(1);
+  });
+
+  it("quarantines malformed status changes and applies the rest", async () => {
+    const transport = {
+      pullStatus: async () => ({
+        changes: [{ id: "a", state: "Closed", at: "2026-03-02T10:00:00Z" }, { id: "a", state: "Closed", at: "yesterday" }, "junk"],
+        cursor: "3",
+      }),
+    } as unknown as SyncTransport;
+    const res = await syncOnce([{ ...report("a"), syncedAt: "2026-03-02T09:00:00Z" }], { transport, isSafe: () => true, cursor: null, retry: noRetry });
+    expect(res.events).toEqual([{ type: "status", id: "a", state: "Closed", at: "2026-03-02T10:00:00Z" }]);
+    expect(res.quarantine.map((q) => [q.source, q.ref])).toEqual([["sync", "a"], ["sync", "status change"]]);
+    expect(res.cursor).toBe("3");
+  });
+});
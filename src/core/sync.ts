@@ -0,0 +1,168 @@
+import type { Report } from "./types";
+import { applyRemoteStatus, isTerminal, transition } from "./status";
+import { normalizeStatusChange, type Quarantined } from "./schema";
+
+/**
+ * Sync engine
+ * - Wire protocol: idempotent PUT of a report keyed by `Report.id`, chunked + resumable media,
+ *   and a cursor-based pull of server-side status changes into `history`
+ * - Transports are pluggable: `httpTransport` for a real backend, `createMockServer` (sync-mock.ts) for demo/tests
+ * - Retryable failures back off exponentially; a report only leaves `Queued` once it and all its media are in
+ * - Pulled status changes are validated (schema.ts); malformed ones come back in `quarantine` instead of being applied
+ */
+
+// ---- Wire protocol ----
+export type WireMedia = { id: string; type: string; name: string; mime: string; size: number; sha256?: string };
+export type WireReport = Omit<Report, "media" | "syncedAt"> & { media: WireMedia[] };
+export type PutReportResult = { id: string; receivedAt: string };
+export type StatusChange = { id: string; state: string; at: string; note?: string };
+
+export interface SyncTransport {
+  /** Idempotent: re-sending the same id must not create a second report. */
+  putReport(r: WireReport): Promise<PutReportResult>;
+  /** Bytes of this media item the server already holds; upload resumes from there. */
+  mediaStatus(reportId: string, mediaId: string): Promise<{ received: number }>;
+  putMediaChunk(reportId: string, mediaId: string, offset: number, chunk: Blob, total: number): Promise<{ received: number }>;
+  /** Status changes after `cursor` (null = from the beginning). */
+  pullStatus(cursor: string | null): Promise<{ changes: StatusChange[]; cursor: string | null }>;
+}
+
+export class SyncError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
+
+export const MEDIA_CHUNK_BYTES = 256 * 1024;
+
+// ---- Retry ----
+export type RetryOptions = { retries: number; baseMs: number; maxMs: number; sleep?: (ms: number) => Promise<void> };
+const DEFAULT_RETRY: RetryOptions = { retries: 4, baseMs: 1000, maxMs: 30000 };
+const sleep = (ms: number) => new Promise<void>((res) => setTimeout(res, ms));
+
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const retryable = e instanceof SyncError ? e.retryable : e instanceof TypeError; // fetch network errors are TypeErrors
+      if (!retryable || attempt >= opts.retries) throw e;
+      const ms = Math.min(opts.maxMs, opts.baseMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      await (opts.sleep ?? sleep)(ms);
+    }
+  }
+}
+
+// ---- HTTP transport ----
+export function httpTransport(baseUrl: string, fetchImpl: typeof fetch = fetch): SyncTransport {
+  const base = baseUrl.replace(/\/+$/, "");
+  const call = async (path: string, init?: RequestInit) => {
+    const res = await fetchImpl(base + path, init);
+    if (!res.ok) throw new SyncError(`${init?.method || "GET"} ${path} failed: ${res.status}`, res.status >= 500 || res.status === 429);
+    return res.json();
+  };
+  const json = (method: string, body: unknown): RequestInit => ({ method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  return {
+    putReport: (r) => call(`/reports/${encodeURIComponent(r.id)}`, json("PUT", r)),
+    mediaStatus: (reportId, mediaId) => call(`/reports/${encodeURIComponent(reportId)}/media/${encodeURIComponent(mediaId)}`),
+    putMediaChunk: (reportId, mediaId, offset, chunk, total) =>
+      call(`/reports/${encodeURIComponent(reportId)}/media/${encodeURIComponent(mediaId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/octet-stream", "Content-Range": `bytes ${offset}-${offset + chunk.size - 1}/${total}` },
+        body: chunk,
+      }),
+    pullStatus: (cursor) => call(`/status${cursor ? `?since=${encodeURIComponent(cursor)}` : ""}`),
+  };
+}
+
+// ---- Engine ----
+export type SyncEvent =
+  | { type: "uploaded"; id: string; at: string }
+  | { type: "status"; id: string; state: string; at: string; note?: string };
+export type SyncResult = { events: SyncEvent[]; cursor: string | null; errors: { id: string; message: string }[]; quarantine: Quarantined[] };
+
+// Cleared `syncedAt` means local changes the server hasn't seen (new report, or the reporter's reply to a query).
+export const needsUpload = (r: Report) => !r.syncedAt && !isTerminal(r.status);
+
+export const toWire = ({ media, syncedAt, ...r }: Report): WireReport => ({
+  ...r,
+  media: media
+    .filter((m) => m.blob)
+    .map((m) => ({ id: m.id, type: m.type, name: m.name, mime: m.blob!.type, size: m.blob!.size, ...(m.sha256 ? { sha256: m.sha256 } : {}) })),
+});
+
+async function uploadMedia(t: SyncTransport, reportId: string, mediaId: string, blob: Blob, retry?: RetryOptions) {
+  let { received } = await withRetry(() => t.mediaStatus(reportId, mediaId), retry);
+  while (received < blob.size) {
+    const offset = received;
+    const chunk = blob.slice(offset, offset + MEDIA_CHUNK_BYTES);
+    ({ received } = await withRetry(() => t.putMediaChunk(reportId, mediaId, offset, chunk, blob.size), retry));
+    if (received <= offset) throw new SyncError(`Server did not accept media ${mediaId} at ${offset}`, true);
+  }
+}
+
+/**
+ * One sync pass: upload every pending report that `isSafe` allows, then pull status changes (unless `pull` is false).
+ * Returns events instead of mutating, so callers can apply them to the freshest state.
+ */
+export async function syncOnce(
+  reports: Report[],
+  opts: { transport: SyncTransport; isSafe: (r: Report) => boolean; cursor: string | null; now?: () => Date; retry?: RetryOptions; pull?: boolean }
+): Promise<SyncResult> {
+  const { transport: t, retry } = opts;
+  const now = opts.now ?? (() => new Date());
+  const result: SyncResult = { events: [], cursor: opts.cursor, errors: [], quarantine: [] };
+
+  for (const r of reports.filter(needsUpload)) {
+    if (!opts.isSafe(r)) continue;
+    try {
+      await withRetry(() => t.putReport(toWire(r)), retry);
+      for (const m of r.media) if (m.blob) await uploadMedia(t, r.id, m.id, m.blob, retry);
+      result.events.push({ type: "uploaded", id: r.id, at: now().toISOString() });
+    } catch (e: any) {
+      result.errors.push({ id: r.id, message: e?.message || String(e) });
+    }
+  }
+
+  if (opts.pull === false) return result;
+  try {
+    const known = new Set(reports.map((r) => r.id));
+    const pulled = await withRetry(() => t.pullStatus(opts.cursor), retry);
+    for (const raw of Array.isArray(pulled?.changes) ? pulled.changes : []) {
+      let c: StatusChange;
+      try {
+        c = normalizeStatusChange(raw);
+      } catch (e: any) {
+        result.quarantine.push({ source: "sync", ref: String((raw as any)?.id ?? "status change"), reason: e.message, raw });
+        continue;
+      }
+      if (known.has(c.id)) result.events.push({ type: "status", ...c });
+    }
+    result.cursor = pulled.cursor;
+  } catch (e: any) {
+    result.errors.push({ id: "*", message: e?.message || String(e) });
+  }
+  return result;
+}
+
+/** Applies sync events to app state; pure so it can run inside a setState updater. */
+export function applySyncEvents(reports: Report[], events: SyncEvent[]): Report[] {
+  if (events.length === 0) return reports;
+  const byId = new Map<string, SyncEvent[]>();
+  events.forEach((e) => byId.set(e.id, [...(byId.get(e.id) || []), e]));
+  return reports.map((r) => {
+    const evs = byId.get(r.id);
+    if (!evs) return r;
+    let next = r;
+    for (const e of evs) {
+      if (e.type === "uploaded") {
+        next = { ...next, syncedAt: e.at, safeUpload: { ...next.safeUpload, ready: true } };
+        if (next.status === "Queued") next = transition(next, "Submitted", { actor: "system", at: e.at });
+      } else {
+        next = applyRemoteStatus(next, e.state, e.at, e.note);
+      }
+    }
+    return next;
+  });
+}
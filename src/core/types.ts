@@ -0,0 +1,62 @@
+// ---- Status machine (transition rules live in status.ts) ----
+// Main path, in order; branch states are entered from it and are listed separately.
+export const STATUSES = ["Queued", "Submitted", "Received", "In Progress", "Resolved"] as const;
+export const BRANCH_STATUSES = ["Needs more info", "Rejected", "Duplicate"] as const;
+export type ReportStatus = (typeof STATUSES)[number] | (typeof BRANCH_STATUSES)[number];
+
+// ---- Types ----
+// `url` is a runtime object URL for previews; the bytes live in the media store as `blob`.
+// Hashes are taken at capture: `originalSha256` of the file as picked, `sha256` of the stored (sanitized) bytes.
+export type Media = {
+  id: string;
+  type: "image" | "video" | "audio";
+  name: string;
+  url?: string;
+  blob?: Blob;
+  locked?: boolean;
+  capturedAt?: string;
+  sha256?: string;
+  originalSha256?: string;
+};
+export type Contact = { phone: string | null; email: string | null; wantsCallback: boolean; preferredTime: string | null } | null;
+// `ready` is the one-time release from the site; `byHand` marks a release by the user, which also lifts the home Wi-Fi rule
+export type SafeUpload = { required: boolean; ready: boolean; byHand?: boolean; captureLoc?: { lat: number; lon: number }; createdAt?: string };
+export type HistoryEntry = { state: ReportStatus; at: string; by?: string; note?: string };
+export type Assignee = { kind: "officer" | "team"; name: string };
+// Authority-only notes; never shown in the reporter's views.
+export type InternalNote = { at: string; by: string; text: string };
+// Protected-area kinds (geofence.ts) and the triage priority they escalate to.
+export type ZoneKind = "forest" | "river" | "school";
+export type Priority = "normal" | "high" | "urgent";
+// Offline reverse-geocode of `gps` (gazetteer.ts). `approx`: district taken from the nearest settlement, not a boundary.
+export type Locality = { region: string; district: string; near: string; km: number; dir: string; approx: boolean };
+// Simple Checklist Mode answers (vocabulary in checklist.ts); keys are item keys, values whether ticked.
+export type Checklist = { types: Record<string, boolean>; hazards: Record<string, boolean>; time: string; risk: string };
+// A report folded into another by an authority merge (corroborate.ts). Its media now lives on the lead report; `media` lists those ids.
+export type MergedReport = Pick<Report, "id" | "createdAt" | "category" | "description" | "gps" | "history" | "anonymous" | "contact" | "rewardOptIn"> & { media: string[] };
+
+export type Report = {
+  id: string;
+  createdAt: string;
+  category: string;
+  description: string;
+  gps: { lat: number; lon: number; accuracy?: number };
+  blurRadius: number;
+  publicOffset: { lat: number; lon: number };
+  media: Media[];
+  anonymous: boolean;
+  contact: Contact;
+  rewardOptIn: boolean;
+  status: ReportStatus;
+  history: HistoryEntry[];
+  safeUpload: SafeUpload;
+  syncedAt?: string; // set once the report and all its media reached the server
+  assignee?: Assignee | null;
+  notes?: InternalNote[];
+  zones?: string[]; // protected-area ids the raw GPS falls in; unset = not yet checked
+  priority?: Priority;
+  place?: Locality | null; // null = looked up, nothing known nearby
+  checklist?: Checklist; // set when filed in checklist mode
+  duplicateOf?: string; // id of the report this one was merged into
+  merged?: MergedReport[]; // reports merged into this one, oldest first
+};
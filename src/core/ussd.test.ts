@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { Gazetteer } from "./gazetteer";
+import { USSD_SCREEN_CHARS, toGatewayText, ussdInput, ussdReplay, ussdStart, type UssdResponse, type UssdState } from "./ussd";
+
+const ctx = { sessionId: "ATUid_0123456789abcdef", now: new Date("2026-03-02T08:00:00Z") };
+// two regions; Wassa East has enough communities to need a second page
+const GAZ: Gazetteer = {
+  areas: [],
+  places: [
+    { name: "Tarkwa", lat: 5.3, lon: -1.995, district: "Tarkwa-Nsuaem Municipal", region: "Western" },
+    { name: "Nsuaem", lat: 5.33, lon: -1.96, district: "Tarkwa-Nsuaem Municipal", region: "Western" },
+    ...Array.from({ length: 30 }, (_, i) => ({ name: `Village ${String(i + 1).padStart(2, "0")}`, lat: 5.1, lon: -1.6, district: "Wassa East", region: "Western" })),
+    { name: "Obuasi", lat: 6.2, lon: -1.67, district: "Obuasi Municipal", region: "Ashanti" },
+  ],
+};
+const local = { ...ctx, gaz: GAZ };
+const lines = (res: UssdResponse) => res.text.split("\n");
+
+// Every screen reachable with the bundled gazetteer, each also answered with an invalid choice. Hazards take
+// the longest answer and time and risk are skipped: neither changes a later screen's length.
+function walk(): UssdResponse[] {
+  const seen = new Set<string>();
+  const out: UssdResponse[] = [];
+  const queue: UssdState[] = [ussdStart().state];
+  while (queue.length) {
+    const s = queue.pop()!;
+    // where "0 Back" leads doesn't change the screen, and "98 More" wraps around after a few pages
+    const key = [s.screen, s.page, s.category, s.hazards, s.time, s.risk, s.region, s.district, s.community].join("|");
+    if (seen.has(key) || s.page > 3) continue;
+    seen.add(key);
+    const inputs = ["x", "0", "00", "98"];
+    if (s.screen === "hazards") inputs.push("12345");
+    else if (s.screen === "time" || s.screen === "risk") inputs.push("9");
+    else if (s.screen !== "confirm") inputs.push(...Array.from({ length: 60 }, (_, i) => String(i + 1)));
+    for (const input of inputs) {
+      const res = ussdInput(s, input, ctx);
+      out.push(res);
+      if (!res.end) queue.push(res.state);
+    }
+  }
+  return out;
+}
+
+describe("USSD menu", () => {
+  it("fits every screen on one USSD page", () => {
+    const screens = walk();
+    expect(screens.some((r) => r.state.screen === "confirm" && r.text.startsWith("Invalid"))).toBe(true);
+    const over = screens.filter((r) => r.text.length > USSD_SCREEN_CHARS).map((r) => r.text);
+    expect(over).toEqual([]);
+  });
+
+  it("files a report at the chosen community, without the caller's number", () => {
+    // chemical use, hazards 1 and 3, night, high risk, Western, Tarkwa-Nsuaem, Tarkwa
+    const res = ussdReplay("1*3*1 3*4*3*2*1*2*1", local);
+    expect(res.end).toBe(true);
+    expect(res.text).toBe("Thank you. Report 89ABCDEF received. Stay safe.");
+    expect(res.report).toMatchObject({
+      id: "ussd-ATUid_0123456789abcdef", category: "Chemical use", status: "Received", anonymous: true, contact: null,
+      gps: { lat: 5.3, lon: -1.995, accuracy: 5000 },
+      checklist: { types: { chemical: true }, hazards: { mercury: true, noise: true }, time: "Night", risk: "High" },
+    });
+    expect(res.report!.description).toContain("Reported by USSD for Tarkwa, Tarkwa-Nsuaem Municipal.");
+    expect(toGatewayText(res)).toMatch(/^END Thank you/);
+  });
+
+  it("skips time and risk with 9 and shows the choices before sending", () => {
+    const res = ussdReplay("1*1*9*9*9*2*1*1", local);
+    expect(lines(res)).toEqual(["Send this report?", "River dredging", "Hazards: none", "At: Nsuaem, Tarkwa-Nsuaem Municipal", "1 Send", "2 Cancel", "0 Back"]);
+    expect(toGatewayText(res)).toMatch(/^CON Send this report\?/);
+    const cancelled = ussdInput(res.state, "2", local);
+    expect(cancelled).toMatchObject({ end: true, text: "Report cancelled. Nothing was sent." });
+    expect(cancelled.report).toBeUndefined();
+  });
+
+  it("goes back a screen with 0 and home with 00, keeping earlier answers", () => {
+    const hazards = ussdReplay("1*2", local);
+    expect(hazards.state).toMatchObject({ screen: "hazards", category: 1 });
+    const back = ussdInput(hazards.state, "0", local);
+    expect(lines(back)[0]).toBe("What did you see?");
+    expect(back.state.screen).toBe("category");
+    expect(ussdInput(back.state, "0", local).state.screen).toBe("main");
+    expect(ussdInput(hazards.state, "00", local).state).toEqual(ussdStart().state);
+    // a back after a reply lands on the screen just before it, with that answer still set
+    expect(ussdReplay("1*2*9*0", local).state).toMatchObject({ screen: "hazards", category: 1 });
+  });
+
+  it("pages long lists with 98, keeping item numbers across pages", () => {
+    const first = ussdReplay("1*1*9*9*9*2*2", local);
+    expect(lines(first)[0]).toBe("Nearest town/community:");
+    expect(lines(first)).toContain("98 More");
+    const shown = lines(first).filter((l) => /^\d+ Village/.test(l)).length;
+    const more = ussdInput(first.state, "98", local);
+    expect(lines(more)[1]).toBe(`${shown + 1} Village ${String(shown + 1).padStart(2, "0")}`);
+    expect(ussdInput(more.state, String(shown + 1), local).state).toMatchObject({ screen: "confirm", community: `Village ${String(shown + 1).padStart(2, "0")}` });
+  });
+
+  it("repeats the screen after an invalid choice", () => {
+    const hazards = ussdReplay("1*2", local);
+    for (const input of ["7", "1x", ""]) {
+      const res = ussdInput(hazards.state, input, local);
+      expect(res.state).toBe(hazards.state);
+      expect(res.text).toBe(`Invalid choice.\n${hazards.text}`);
+    }
+  });
+
+  it("ends the session with the help text, and replays nothing more after the end", () => {
+    expect(ussdReplay("2", local)).toMatchObject({ end: true, text: expect.stringContaining("Your number is not stored") });
+    expect(ussdReplay("2*1*1", local).state.screen).toBe("main");
+    expect(ussdReplay("", local)).toEqual(ussdStart(GAZ));
+  });
+});
@@ -0,0 +1,238 @@
+import type { Checklist, Report } from "./types";
+import { CATEGORIES, HAZARDS, RISK_LEVELS, TIMES_OF_DAY, checklistText } from "./checklist";
+import { GAZETTEER, type Gazetteer, type Settlement } from "./gazetteer";
+import { publicPoint } from "./obfuscate";
+
+/**
+ * USSD report menu
+ * - Pure state machine: (state, input) → next screen, with no I/O, so a gateway can host it and keep `UssdState` per session
+ * - Flow: main → category → hazards (multi-select) → time of day → risk → region → district → community → confirm
+ * - `0` goes back, `98` shows more of a long list, `00` returns to the main menu
+ * - Gateways that resend the whole input chain (`1*2*13`) can use `ussdReplay` and keep no state at all
+ * - A confirmed session yields a Report placed at the chosen community; the caller's number is never part of it
+ */
+
+export type UssdScreen = "main" | "category" | "hazards" | "time" | "risk" | "region" | "district" | "community" | "confirm";
+export type UssdState = {
+  screen: UssdScreen;
+  page: number;
+  category?: number;
+  hazards?: number[];
+  time?: number; // 0 = skipped, else 1-based
+  risk?: number;
+  region?: string;
+  district?: string;
+  community?: string;
+  back: UssdState[]; // earlier screens for "0 Back"; entries carry no stack of their own
+};
+export type UssdResponse = { state: UssdState; text: string; end: boolean; report?: Report };
+export type UssdContext = { sessionId: string; now?: Date; gaz?: Gazetteer };
+
+// Operators cap a USSD screen at ~182 characters; 160 leaves room across networks.
+export const USSD_SCREEN_CHARS = 160;
+// A community is only located to its settlement centre.
+const COMMUNITY_ACCURACY_M = 5000;
+const USSD_BLUR_M = 300;
+const MORE = "98", BACK = "0", HOME = "00";
+const INVALID = "Invalid choice.\n";
+
+// ---- Lists ----
+const uniq = (xs: string[]) => Array.from(new Set(xs)).sort((a, b) => a.localeCompare(b));
+const regions = (gaz: Gazetteer) => uniq(gaz.places.map((p) => p.region));
+const districts = (gaz: Gazetteer, region?: string) => uniq(gaz.places.filter((p) => p.region === region).map((p) => p.district));
+const communities = (gaz: Gazetteer, district?: string) => uniq(gaz.places.filter((p) => p.district === district).map((p) => p.name));
+
+function listFor(s: UssdState, gaz: Gazetteer): { title: string; items: string[] } | null {
+  switch (s.screen) {
+    case "category": return { title: "What did you see?", items: CATEGORIES.map((c) => c.label) };
+    case "time": return { title: "When? (9 skip)", items: TIMES_OF_DAY };
+    case "risk": return { title: "Danger to people? (9 skip)", items: RISK_LEVELS };
+    case "region": return { title: "Region:", items: regions(gaz) };
+    case "district": return { title: "District:", items: districts(gaz, s.region) };
+    case "community": return { title: "Nearest town/community:", items: communities(gaz, s.district) };
+    default: return null;
+  }
+}
+
+// Splits a list into screens that fit, numbering items across pages so a number always means the same item.
+function paginate(title: string, items: string[], footer: string[]) {
+  const room = USSD_SCREEN_CHARS - INVALID.length;
+  const pages: number[][] = [[]];
+  let used = title.length;
+  const footerLen = [...footer, `${MORE} More`].reduce((n, l) => n + l.length + 1, 0);
+  items.forEach((item, i) => {
+    const len = `${i + 1} ${item}`.length + 1;
+    if (pages[pages.length - 1].length && used + len + footerLen > room) {
+      pages.push([]);
+      used = title.length;
+    }
+    pages[pages.length - 1].push(i);
+    used += len;
+  });
+  return pages;
+}
+
+// ---- Screens ----
+const clip = (s: string, n: number) => (s.length > n ? s.slice(0, n - 1) + "…" : s);
+
+const CONFIRM_TITLE = "Send this report?";
+const CONFIRM_OPTIONS = ["1 Send", "2 Cancel", `${BACK} Back`];
+
+// Three lines sized to what the confirm screen leaves once its title, options, line breaks and an "Invalid choice." line are in.
+function summary(s: UssdState) {
+  const room = USSD_SCREEN_CHARS - INVALID.length - CONFIRM_TITLE.length - CONFIRM_OPTIONS.join("\n").length - 4;
+  const hz = (s.hazards || []).map((i) => HAZARDS[i][1]).join(", ") || "none";
+  const category = clip(CATEGORIES[s.category!].label, 30);
+  const hazards = clip(`Hazards: ${hz}`, Math.floor((room - category.length) / 2));
+  const at = clip(`At: ${s.community}, ${s.district}`, room - category.length - hazards.length);
+  return [category, hazards, at].join("\n");
+}
+
+function render(s: UssdState, gaz: Gazetteer): string {
+  if (s.screen === "main") return "Galamsey Watch\n1 Report illegal mining\n2 How it works";
+  if (s.screen === "hazards") {
+    return ["Hazards seen? Reply e.g. 13", ...HAZARDS.map(([, label], i) => `${i + 1} ${label}`), "9 None", `${BACK} Back`].join("\n");
+  }
+  if (s.screen === "confirm") return [CONFIRM_TITLE, summary(s), ...CONFIRM_OPTIONS].join("\n");
+  const { title, items } = listFor(s, gaz)!;
+  const pages = paginate(title, items, [`${BACK} Back`]);
+  const page = pages[s.page % pages.length];
+  return [
+    title,
+    ...page.map((i) => `${i + 1} ${items[i]}`),
+    ...(pages.length > 1 ? [`${MORE} More`] : []),
+    `${BACK} Back`,
+  ].join("\n");
+}
+
+// ---- Transitions ----
+const MAIN: UssdState = { screen: "main", page: 0, back: [] };
+const strip = ({ back, ...s }: UssdState): UssdState => ({ ...s, back: [] });
+const go = (from: UssdState, to: Partial<UssdState> & { screen: UssdScreen }): UssdState => ({ ...from, ...to, page: 0, back: [...from.back, strip(from)] });
+
+const pick = (input: string, count: number) => {
+  const n = Number(input);
+  return /^\d+$/.test(input) && n >= 1 && n <= count ? n - 1 : -1;
+};
+// "13", "1 3" and "1,3" all mean items 1 and 3 (lists here are single digits)
+function pickMany(input: string, count: number): number[] | null {
+  if (input === "9") return [];
+  const digits = input.replace(/[\s,]+/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+  const picked = uniq(digits.split("")).map(Number);
+  return picked.every((n) => n >= 1 && n <= count) ? picked.map((n) => n - 1) : null;
+}
+
+function buildReport(s: UssdState, ctx: UssdContext, gaz: Gazetteer): Report {
+  const now = (ctx.now ?? new Date()).toISOString();
+  const cat = CATEGORIES[s.category!];
+  const place = gaz.places.find((p: Settlement) => p.name === s.community && p.district === s.district)!;
+  const checklist: Checklist = {
+    types: { [cat.type]: true },
+    hazards: Object.fromEntries((s.hazards || []).map((i) => [HAZARDS[i][0], true])),
+    time: s.time ? TIMES_OF_DAY[s.time - 1] : "",
+    risk: s.risk ? RISK_LEVELS[s.risk - 1] : "",
+  };
+  const gps = { lat: place.lat, lon: place.lon };
+  return {
+    id: `ussd-${ctx.sessionId}`,
+    createdAt: now,
+    category: cat.label,
+    description: `${checklistText(checklist)}\nReported by USSD for ${place.name}, ${place.district}.`,
+    gps: { ...gps, accuracy: COMMUNITY_ACCURACY_M },
+    blurRadius: USSD_BLUR_M,
+    publicOffset: publicPoint(gps, USSD_BLUR_M),
+    media: [],
+    anonymous: true,
+    contact: null,
+    rewardOptIn: false,
+    status: "Received",
+    history: [
+      { state: "Submitted", at: now },
+      { state: "Received", at: now, note: "via USSD" },
+    ],
+    safeUpload: { required: false, ready: true },
+    checklist,
+  };
+}
+
+const reply = (state: UssdState, gaz: Gazetteer, invalid = false): UssdResponse => ({
+  state,
+  text: (invalid ? INVALID : "") + render(state, gaz),
+  end: false,
+});
+
+export const ussdStart = (gaz: Gazetteer = GAZETTEER): UssdResponse => reply(MAIN, gaz);
+
+/** Applies one reply from the caller to the session state. */
+export function ussdInput(s: UssdState, raw: string, ctx: UssdContext): UssdResponse {
+  const gaz = ctx.gaz ?? GAZETTEER;
+  const input = raw.trim();
+  if (input === HOME) return reply(MAIN, gaz);
+  if (input === BACK && s.screen !== "main") {
+    const prev = s.back[s.back.length - 1] ?? MAIN;
+    return reply({ ...prev, back: s.back.slice(0, -1) }, gaz);
+  }
+  const list = listFor(s, gaz);
+  if (list && input === MORE) return reply({ ...s, page: s.page + 1 }, gaz);
+
+  switch (s.screen) {
+    case "main":
+      if (input === "1") return reply(go(s, { screen: "category" }), gaz);
+      if (input === "2") return { state: s, end: true, text: "Report mining damage by phone. Your number is not stored with the report. Dial again to report." };
+      break;
+    case "category": {
+      const i = pick(input, list!.items.length);
+      if (i >= 0) return reply(go(s, { screen: "hazards", category: i }), gaz);
+      break;
+    }
+    case "hazards": {
+      const picked = pickMany(input, HAZARDS.length);
+      if (picked) return reply(go(s, { screen: "time", hazards: picked }), gaz);
+      break;
+    }
+    case "time":
+    case "risk": {
+      // "9" skips (the title says so, to save a line)
+      const chosen = input === "9" ? 0 : pick(input, list!.items.length) + 1;
+      if (!chosen && input !== "9") break;
+      return reply(s.screen === "time" ? go(s, { screen: "risk", time: chosen }) : go(s, { screen: "region", risk: chosen }), gaz);
+    }
+    case "region": {
+      const i = pick(input, list!.items.length);
+      if (i >= 0) return reply(go(s, { screen: "district", region: list!.items[i] }), gaz);
+      break;
+    }
+    case "district": {
+      const i = pick(input, list!.items.length);
+      if (i >= 0) return reply(go(s, { screen: "community", district: list!.items[i] }), gaz);
+      break;
+    }
+    case "community": {
+      const i = pick(input, list!.items.length);
+      if (i >= 0) return reply(go(s, { screen: "confirm", community: list!.items[i] }), gaz);
+      break;
+    }
+    case "confirm":
+      if (input === "1") {
+        const report = buildReport(s, ctx, gaz);
+        return { state: s, end: true, report, text: `Thank you. Report ${ctx.sessionId.slice(-8).toUpperCase()} received. Stay safe.` };
+      }
+      if (input === "2") return { state: MAIN, end: true, text: "Report cancelled. Nothing was sent." };
+      break;
+  }
+  return reply(s, gaz, true);
+}
+
+/** Runs a whole `*`-separated input chain from the start, as stateless gateways deliver it. */
+export function ussdReplay(chain: string, ctx: UssdContext): UssdResponse {
+  let res = ussdStart(ctx.gaz);
+  for (const input of chain ? chain.split("*") : []) {
+    if (res.end) break;
+    res = ussdInput(res.state, input, ctx);
+  }
+  return res;
+}
+
+/** Gateway wire text: `CON` keeps the session open, `END` closes it. */
+export const toGatewayText = (res: UssdResponse) => `${res.end ? "END" : "CON"} ${res.text}`;
@@ -0,0 +1,53 @@
+/**
+ * Vault crypto (WebCrypto only)
+ * - PIN -> AES-GCM key via PBKDF2; only the salt and KDF parameters are kept in settings
+ * - `seal`/`unseal` wrap records and media bytes; the key never leaves memory
+ */
+
+export type VaultParams = { salt: string; kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number } };
+export type Sealed = { iv: BufferSource; data: ArrayBuffer };
+
+const PBKDF2_ITERATIONS = 310_000;
+export const MIN_PIN_LENGTH = 4;
+
+const b64 = (u: Uint8Array) => btoa(String.fromCharCode(...u));
+const unb64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+export const newVaultParams = (): VaultParams => ({
+  salt: b64(crypto.getRandomValues(new Uint8Array(16))),
+  kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS },
+});
+
+export async function deriveKey(pin: string, params: VaultParams): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: params.kdf.hash, iterations: params.kdf.iterations, salt: unb64(params.salt) },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function seal(key: CryptoKey, plain: BufferSource): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plain) };
+}
+
+/** Throws (OperationError) if the key is wrong or the ciphertext was tampered with. */
+export const unseal = (key: CryptoKey, s: Sealed) => crypto.subtle.decrypt({ name: "AES-GCM", iv: s.iv }, key, s.data);
+
+export const sealJSON = (key: CryptoKey, v: unknown) => seal(key, new TextEncoder().encode(JSON.stringify(v)));
+export const unsealJSON = async <T = any>(key: CryptoKey, s: Sealed): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await unseal(key, s)));
+
+/** One-way PIN digest for PINs that only need matching (e.g. the duress PIN), never for encryption. */
+export async function pinDigest(pin: string, params: VaultParams): Promise<string> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: params.kdf.hash, iterations: params.kdf.iterations, salt: unb64(params.salt) },
+    base,
+    256
+  );
+  return b64(new Uint8Array(bits));
+}
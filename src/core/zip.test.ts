@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { makeZip, readZip } from "./zip";
+
+describe("zip", () => {
+  it("reads back what it writes, byte for byte", async () => {
+    const bytes = Uint8Array.from({ length: 1000 }, (_, i) => (i * 7) % 256);
+    const zip = await makeZip([
+      { name: "manifest.json", data: '{"ok":true}' },
+      { name: "media/ʃɛ.bin", data: new Blob([bytes]), date: new Date(2026, 2, 2, 8, 0) },
+    ]);
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual(["manifest.json", "media/ʃɛ.bin"]);
+    expect(new TextDecoder().decode(files.get("manifest.json"))).toBe('{"ok":true}');
+    expect(files.get("media/ʃɛ.bin")).toEqual(bytes);
+  });
+
+  it("rejects corrupt data", async () => {
+    const buf = new Uint8Array(await (await makeZip([{ name: "a.txt", data: "hello" }])).arrayBuffer());
+    buf[30 + "a.txt".length] ^= 1; // first byte of the stored data
+    await expect(readZip(new Blob([buf]))).rejects.toThrow(/Checksum mismatch in a.txt/);
+    await expect(readZip(new Blob(["not a zip"]))).rejects.toThrow(/Not a zip/);
+  });
+});
@@ -0,0 +1,230 @@
+import type { Report } from "./core/types";
+import { version as APP_VERSION } from "../package.json";
+import { sha256Hex } from "./core/hash";
+import { getMeta, setMeta } from "./storage";
+import { makeZip, readZip } from "./core/zip";
+
+/**
+ * Evidence package (chain of custody)
+ * - Zip of report.json, the media files and manifest.json, signed by a per-device ECDSA P-256 key (manifest.sig)
+ * - The manifest carries the hashes taken at capture, capture times, GPS accuracy and the app version
+ * - `verifyEvidencePackage` re-checks the signature and every file hash, and whether the signer is trusted: a valid
+ *   signature only proves the manifest matches the key inside the package, so custody also needs that key to be this
+ *   device's own or one the user imported or pinned after checking its key id with the sender
+ */
+
+export const EVIDENCE_FORMAT = "galamsey-evidence/1";
+const SIGN_ALG = { name: "ECDSA", hash: "SHA-256" };
+
+export type EvidenceManifest = {
+  format: typeof EVIDENCE_FORMAT;
+  appVersion: string;
+  packagedAt: string;
+  report: {
+    id: string;
+    createdAt: string;
+    status: string;
+    gps: { lat: number; lon: number; accuracy?: number };
+    file: string;
+    sha256: string;
+  };
+  media: {
+    id: string;
+    type: string;
+    name: string;
+    mime: string;
+    size: number;
+    file: string;
+    capturedAt?: string;
+    sha256: string; // recorded at capture; a package whose bytes differ fails verification
+    originalSha256?: string; // before sanitizing (EXIF strip / re-encode)
+    hashedAtCapture: boolean;
+  }[];
+  signer: { alg: "ECDSA-P256-SHA256"; keyId: string; publicKey: JsonWebKey };
+};
+
+export type EvidenceCheck = { file: string; expected: string; actual: string | null; ok: boolean };
+export type TrustedSigner = { keyId: string; label: string; publicKey: JsonWebKey; addedAt: string };
+export type VerifyResult = {
+  ok: boolean;
+  signature: boolean;
+  /** The trusted key that signed the package; null when the signer is unknown. */
+  signer: TrustedSigner | null;
+  keyId?: string;
+  manifest?: EvidenceManifest;
+  checks: EvidenceCheck[];
+  errors: string[];
+};
+
+// ---- Device signing key ----
+// Generated once; the private half is non-extractable and lives in IndexedDB (removed by a panic wipe).
+async function signingKey(): Promise<CryptoKeyPair> {
+  const existing = await getMeta<CryptoKeyPair>("signingKey");
+  if (existing) return existing;
+  const pair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+  await setMeta("signingKey", pair);
+  return pair;
+}
+
+const keyId = ({ crv, kty, x, y }: JsonWebKey) => sha256Hex(JSON.stringify({ crv, kty, x, y })).then((h) => h.slice(0, 16));
+const sameKey = (a: JsonWebKey, b: JsonWebKey) => a.kty === b.kty && a.crv === b.crv && a.x === b.x && a.y === b.y;
+const importVerifyKey = (jwk: JsonWebKey) => crypto.subtle.importKey("jwk", jwk, { name: "ECDSA", namedCurve: "P-256" }, true, ["verify"]);
+
+// ---- Trusted signers ----
+// This device's key is always trusted; other devices' keys only once the user imports or pins them.
+export const SIGNER_FORMAT = "galamsey-signer/1";
+const TRUSTED_KEY = "trustedSigners";
+
+export const listPinnedSigners = async () => (await getMeta<TrustedSigner[]>(TRUSTED_KEY)) ?? [];
+
+async function deviceSigner(): Promise<TrustedSigner | null> {
+  const pair = await getMeta<CryptoKeyPair>("signingKey"); // verifying alone never creates a key
+  if (!pair) return null;
+  const publicKey = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  return { keyId: await keyId(publicKey), label: "This device", publicKey, addedAt: "" };
+}
+
+export async function trustedSigners(): Promise<TrustedSigner[]> {
+  const device = await deviceSigner();
+  return [...(device ? [device] : []), ...(await listPinnedSigners())];
+}
+
+/** Pins a signer's public key; throws if it isn't an ECDSA P-256 public key. Returns its key id. */
+export async function trustSigner(publicKey: JsonWebKey, label: string): Promise<string> {
+  const { kty, crv, x, y } = publicKey;
+  if (kty !== "EC" || crv !== "P-256" || !x || !y) throw new Error("Not an ECDSA P-256 public key.");
+  await importVerifyKey({ kty, crv, x, y });
+  const signer = { keyId: await keyId(publicKey), label: label.trim() || "Unnamed signer", publicKey: { kty, crv, x, y }, addedAt: new Date().toISOString() };
+  await setMeta(TRUSTED_KEY, [...(await listPinnedSigners()).filter((k) => k.keyId !== signer.keyId), signer]);
+  return signer.keyId;
+}
+
+export const untrustSigner = async (id: string) => setMeta(TRUSTED_KEY, (await listPinnedSigners()).filter((k) => k.keyId !== id));
+
+/** Reads a key file from `exportSignerKey` (or a bare JWK) and pins it. */
+export async function importSignerKey(file: Blob, label: string) {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Key file is not valid JSON.");
+  }
+  return trustSigner(parsed?.format === SIGNER_FORMAT ? parsed.publicKey : parsed, label);
+}
+
+/** This device's public key as a file, so others can pin it before they receive its packages. */
+export async function exportSignerKey(): Promise<{ keyId: string; blob: Blob; filename: string }> {
+  const publicKey = await crypto.subtle.exportKey("jwk", (await signingKey()).publicKey);
+  const id = await keyId(publicKey);
+  const blob = new Blob([JSON.stringify({ format: SIGNER_FORMAT, keyId: id, publicKey }, null, 2)], { type: "application/json" });
+  return { keyId: id, blob, filename: `galamsey_signer_${id}.json` };
+}
+
+/** Key id of this device's signing key, creating the key on first use. */
+export const deviceKeyId = async () => keyId(await crypto.subtle.exportKey("jwk", (await signingKey()).publicKey));
+const toBase64 = (buf: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buf)));
+const fromBase64 = (s: string) => Uint8Array.from(atob(s.trim()), (c) => c.charCodeAt(0));
+
+const EXT: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "video/mp4": "mp4", "video/webm": "webm", "audio/mpeg": "mp3", "audio/mp4": "m4a", "audio/webm": "weba" };
+
+const README = `Galamsey Reporter evidence package
+
+manifest.json lists every file with its SHA-256 hash as recorded on the device at capture.
+manifest.sig is an ECDSA P-256 / SHA-256 signature (base64) over the exact bytes of manifest.json,
+made with the device key whose public half is in manifest.signer.publicKey.
+
+A valid signature only shows the files are as the key holder packaged them. Trust the key itself
+only after comparing manifest.signer.keyId with the sender another way (in person or by phone).
+
+To verify: open the app, go to Dashboard > Verify Evidence Package and load this zip,
+or check the signature and run sha256sum on each file yourself.
+`;
+
+export async function buildEvidencePackage(r: Report): Promise<{ blob: Blob; filename: string }> {
+  const keys = await signingKey();
+  const publicKey = await crypto.subtle.exportKey("jwk", keys.publicKey);
+  const reportJSON = JSON.stringify({ ...r, media: r.media.map(({ url, blob, ...m }) => m) }, null, 2);
+
+  const media: EvidenceManifest["media"] = [];
+  const files: { name: string; data: Blob | string }[] = [{ name: "report.json", data: reportJSON }];
+  for (const m of r.media) {
+    if (!m.blob) continue;
+    const file = `media/${m.id}.${EXT[m.blob.type] || "bin"}`;
+    media.push({
+      id: m.id, type: m.type, name: m.name, mime: m.blob.type, size: m.blob.size, file,
+      capturedAt: m.capturedAt,
+      sha256: m.sha256 ?? (await sha256Hex(m.blob)),
+      originalSha256: m.originalSha256,
+      hashedAtCapture: !!m.sha256,
+    });
+    files.push({ name: file, data: m.blob });
+  }
+
+  const manifest: EvidenceManifest = {
+    format: EVIDENCE_FORMAT,
+    appVersion: APP_VERSION,
+    packagedAt: new Date().toISOString(),
+    report: { id: r.id, createdAt: r.createdAt, status: r.status, gps: r.gps, file: "report.json", sha256: await sha256Hex(reportJSON) },
+    media,
+    signer: { alg: "ECDSA-P256-SHA256", keyId: await keyId(publicKey), publicKey },
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  const signature = await crypto.subtle.sign(SIGN_ALG, keys.privateKey, manifestBytes);
+
+  const blob = await makeZip([
+    { name: "manifest.json", data: new Blob([manifestBytes]) },
+    { name: "manifest.sig", data: toBase64(signature) },
+    ...files,
+    { name: "README.txt", data: README },
+  ]);
+  return { blob, filename: `evidence_${r.id}.zip` };
+}
+
+/** `trusted` defaults to this device's key plus the pinned signers. */
+export async function verifyEvidencePackage(zip: Blob, trusted?: TrustedSigner[]): Promise<VerifyResult> {
+  const errors: string[] = [];
+  const checks: EvidenceCheck[] = [];
+  let files: Map<string, Uint8Array<ArrayBuffer>>;
+  try {
+    files = await readZip(zip);
+  } catch (e: any) {
+    return { ok: false, signature: false, signer: null, checks, errors: [e?.message || "Could not read the zip."] };
+  }
+  const manifestBytes = files.get("manifest.json");
+  const sig = files.get("manifest.sig");
+  if (!manifestBytes || !sig) return { ok: false, signature: false, signer: null, checks, errors: ["manifest.json or manifest.sig is missing."] };
+
+  let manifest: EvidenceManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    return { ok: false, signature: false, signer: null, checks, errors: ["manifest.json is not valid JSON."] };
+  }
+  if (manifest.format !== EVIDENCE_FORMAT) errors.push(`Unknown package format: ${manifest.format}`);
+
+  let signature = false;
+  let signer: TrustedSigner | null = null;
+  let id: string | undefined;
+  try {
+    const key = await importVerifyKey(manifest.signer.publicKey);
+    signature = await crypto.subtle.verify(SIGN_ALG, key, fromBase64(new TextDecoder().decode(sig)), manifestBytes);
+    id = await keyId(manifest.signer.publicKey);
+    if (manifest.signer.keyId !== id) errors.push("Signer key id does not match its public key.");
+    // matched on the key itself, never on the id the package claims
+    signer = (trusted ?? (await trustedSigners())).find((k) => sameKey(k.publicKey, manifest.signer.publicKey)) ?? null;
+  } catch {
+    errors.push("Signature could not be checked.");
+  }
+  if (!signature) errors.push("Manifest signature is invalid: the manifest was altered or signed by another key.");
+
+  const expect = [{ file: manifest.report?.file, sha256: manifest.report?.sha256 }, ...(manifest.media || [])];
+  for (const { file, sha256 } of expect) {
+    const bytes = files.get(file);
+    const actual = bytes ? await sha256Hex(new Blob([bytes])) : null;
+    checks.push({ file, expected: sha256, actual, ok: actual === sha256 });
+  }
+  const listed = new Set(["manifest.json", "manifest.sig", "README.txt", ...expect.map((x) => x.file)]);
+  for (const name of files.keys()) if (!listed.has(name)) errors.push(`Unlisted file in package: ${name}`);
+
+  return { ok: signature && !!signer && errors.length === 0 && checks.every((c) => c.ok), signature, signer, keyId: id, manifest, checks, errors };
+}
@@ -0,0 +1,7 @@
+import { createContext, useContext } from "react";
+import { translator, type Lang, type Translate } from "./core/i18n";
+
+// The UI language, provided by App; screens and panels read it here instead of taking `t` as a prop.
+export const I18nContext = createContext<{ lang: Lang; t: Translate }>({ lang: "en", t: translator("en") });
+export const useI18n = () => useContext(I18nContext);
+export const useT = () => useContext(I18nContext).t;
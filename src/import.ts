@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Assignee, HistoryEntry, InternalNote, Media, Report } from "./core/types";
+import { isStatus } from "./core/status";
+import { migrateReport } from "./storage";
+import { normalizeReport, type Quarantined } from "./core/schema";
+import { sha256Hex } from "./core/hash";
+import { readZip } from "./core/zip";
+
+/**
+ * Import
+ * - Accepts our JSON exports (one report or an array, including pre-IndexedDB exports with base64 media),
+ *   GeoJSON (our bulk export or any Point features) and evidence package zips (report + media)
+ * - Every record is checked against the `Report` schema (schema.ts); failures are rejected with a reason and
+ *   returned in `quarantine` so the caller can keep them
+ * - Duplicates by `id` are merged: histories and notes are unioned, status and assignment follow the richer
+ *   history, media missing locally is added; the local copy keeps its location blur and upload state
+ * - GeoJSON features without an id get one derived from their content, so re-importing a file is a no-op
+ */
+
+export type ImportOutcome = { ref: string; detail?: string };
+export type ImportSummary = { added: ImportOutcome[]; merged: ImportOutcome[]; unchanged: ImportOutcome[]; rejected: ImportOutcome[] };
+// `changes` holds the added reports and the merged versions of existing ones; `quarantine` the records that failed validation.
+export type ImportResult = { changes: Report[]; summary: ImportSummary; quarantine: Quarantined[] };
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// ---- Parsers ----
+type Candidate = { ref: string; raw?: any; error?: string };
+
+const dataUrlBlob = async (url: string) => (await fetch(url)).blob();
+
+// Our JSON exports carry media metadata only; pre-IndexedDB exports embed the bytes as data URLs.
+async function fromJSONReport(raw: any, blobs?: Map<string, Blob>): Promise<any> {
+  const media: Media[] = [];
+  for (const m of raw?.media || []) {
+    let blob = blobs?.get(m.id);
+    if (!blob && typeof m.dataUrl === "string") blob = await dataUrlBlob(m.dataUrl).catch(() => undefined);
+    if (!blob) continue; // nothing to show without the bytes
+    const { dataUrl, url, ...meta } = m;
+    media.push({ ...meta, id: m.id || uuidv4(), blob, url: URL.createObjectURL(blob) });
+  }
+  const legacy = raw?.media?.some((m: any) => m?.dataUrl);
+  const { schema, ...r } = migrateReport({ ...raw, media: [], schema: raw?.schema ?? (legacy ? 2 : 3) });
+  return { ...r, media };
+}
+
+const parseAssignee = (s: unknown): Assignee | null => {
+  const m = typeof s === "string" && /^(officer|team): (.+)$/.exec(s);
+  return m ? { kind: m[1] as Assignee["kind"], name: m[2] } : null;
+};
+
+async function fromFeature(f: any, publicProfile: boolean): Promise<any> {
+  if (f?.type !== "Feature" || f.geometry?.type !== "Point") throw new ImportError("not a Point feature");
+  const [lon, lat] = f.geometry.coordinates || [];
+  const p = f.properties || {};
+  const description = p.description ?? p.name ?? "";
+  if (!description) throw new ImportError("feature has no description or name");
+  const when = p.createdAt ?? p.time ?? null;
+  const createdAt = when ?? new Date().toISOString();
+  const status = isStatus(p.status) ? p.status : "Queued";
+  const uncertainty = Number.isFinite(p.uncertaintyM) ? p.uncertaintyM : undefined;
+  return {
+    id: String(f.id ?? p.id ?? `import-${(await sha256Hex(JSON.stringify([lat, lon, description, when]))).slice(0, 24)}`),
+    createdAt,
+    category: p.category ?? p.name ?? "Imported",
+    description,
+    gps: { lat, lon, accuracy: uncertainty },
+    // a public-profile point is already blurred: keep it as the public position too
+    ...(publicProfile ? { publicOffset: { lat, lon }, blurRadius: uncertainty ?? 0 } : {}),
+    media: [],
+    contact: p.contact ? { phone: p.contact.phone ?? null, email: p.contact.email ?? null, wantsCallback: !!p.contact.wantsCallback, preferredTime: p.contact.preferredTime ?? null } : null,
+    status,
+    history: Array.isArray(p.history) ? p.history : [{ state: status, at: createdAt, note: "Imported" }],
+    assignee: parseAssignee(p.assignee),
+  };
+}
+
+async function parseFile(file: File): Promise<Candidate[]> {
+  if (/\.zip$/i.test(file.name) || file.type === "application/zip") {
+    const files = await readZip(file);
+    const report = files.get("report.json");
+    if (!report) throw new ImportError("zip is not an evidence package (no report.json)");
+    const manifest = files.get("manifest.json") ? JSON.parse(new TextDecoder().decode(files.get("manifest.json"))) : null;
+    const blobs = new Map<string, Blob>();
+    for (const m of manifest?.media || []) {
+      const bytes = files.get(m.file);
+      if (bytes) blobs.set(m.id, new Blob([bytes], { type: m.mime }));
+    }
+    const raw = JSON.parse(new TextDecoder().decode(report));
+    return [{ ref: raw?.id || file.name, raw: await fromJSONReport(raw, blobs) }];
+  }
+
+  let data: any;
+  try { data = JSON.parse(await file.text()); } catch { throw new ImportError("not valid JSON"); }
+  if (data?.type === "FeatureCollection" || data?.type === "Feature") {
+    const features = data.type === "Feature" ? [data] : data.features || [];
+    const publicProfile = data.properties?.profile === "public";
+    return Promise.all(
+      features.map((f: any, i: number) =>
+        fromFeature(f, publicProfile).then(
+          (raw) => ({ ref: raw.id, raw }),
+          (e) => ({ ref: String(f?.id ?? `feature ${i + 1}`), raw: f, error: e?.message || "invalid feature" })
+        )
+      )
+    );
+  }
+  const list = Array.isArray(data) ? data : [data];
+  return Promise.all(list.map(async (raw: any, i: number) => ({ ref: raw?.id || `record ${i + 1}`, raw: await fromJSONReport(raw) })));
+}
+
+// ---- Merge ----
+const byTime = (a: { at: string }, b: { at: string }) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0);
+function union<T extends { at: string }>(a: T[], b: T[], key: (x: T) => string) {
+  const seen = new Set(a.map(key));
+  return [...a, ...b.filter((x) => !seen.has(key(x)))].sort(byTime);
+}
+
+/** Merges an incoming copy into the local one; returns null when it adds nothing. */
+export function mergeReport(local: Report, incoming: Report): Report | null {
+  const history = union<HistoryEntry>(local.history, incoming.history, (h) => `${h.state}|${h.at}`);
+  const notes = union<InternalNote>(local.notes || [], incoming.notes || [], (n) => `${n.at}|${n.text}`);
+  const mediaIds = new Set(local.media.map((m) => m.id));
+  const newMedia = incoming.media.filter((m) => !mediaIds.has(m.id));
+  const mergedIds = new Set((local.merged || []).map((m) => m.id));
+  const merged = [...(local.merged || []), ...(incoming.merged || []).filter((m) => !mergedIds.has(m.id))].sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+  if (history.length === local.history.length && notes.length === (local.notes || []).length && newMedia.length === 0 &&
+      merged.length === (local.merged || []).length && (local.syncedAt || !incoming.syncedAt))
+    return null;
+
+  const richer = incoming.history.length > local.history.length ? incoming : local;
+  return {
+    ...local,
+    status: history[history.length - 1]?.state ?? richer.status,
+    history,
+    notes,
+    assignee: richer.assignee ?? local.assignee,
+    media: [...local.media, ...newMedia],
+    syncedAt: local.syncedAt || incoming.syncedAt,
+    ...(merged.length ? { merged } : {}),
+    ...(local.duplicateOf || incoming.duplicateOf ? { duplicateOf: local.duplicateOf || incoming.duplicateOf } : {}),
+  };
+}
+
+export async function importReports(files: File[], existing: Report[]): Promise<ImportResult> {
+  const summary: ImportSummary = { added: [], merged: [], unchanged: [], rejected: [] };
+  const byId = new Map(existing.map((r) => [r.id, r]));
+  const changes = new Map<string, Report>();
+  const quarantine: Quarantined[] = [];
+  const reject = (ref: string, reason: string, raw: unknown) => {
+    summary.rejected.push({ ref, detail: reason });
+    quarantine.push({ source: "import", ref, reason, raw });
+  };
+
+  for (const file of files) {
+    let candidates: Candidate[];
+    try {
+      candidates = await parseFile(file);
+    } catch (e: any) {
+      summary.rejected.push({ ref: file.name, detail: e?.message || "could not be read" });
+      continue;
+    }
+    for (const c of candidates) {
+      if (c.error) { reject(`${file.name}: ${c.ref}`, c.error, c.raw); continue; }
+      let r: Report;
+      try {
+        r = normalizeReport(c.raw);
+      } catch (e: any) {
+        reject(`${file.name}: ${c.ref}`, e?.message || "invalid record", c.raw);
+        continue;
+      }
+      const local = byId.get(r.id);
+      if (!local) {
+        byId.set(r.id, r); changes.set(r.id, r);
+        summary.added.push({ ref: r.id, detail: r.category });
+        continue;
+      }
+      const merged = mergeReport(local, r);
+      if (!merged) { summary.unchanged.push({ ref: r.id }); continue; }
+      byId.set(r.id, merged); changes.set(r.id, merged);
+      summary.merged.push({ ref: r.id, detail: `${merged.history.length - local.history.length} history entries, ${merged.media.length - local.media.length} media added` });
+    }
+  }
+
+  return { changes: [...changes.values()], summary, quarantine };
+}
+
+/** Applies import changes to the current list (which may have moved on while files were read). */
+export function applyImport(reports: Report[], changes: Report[]): Report[] {
+  const byId = new Map(changes.map((r) => [r.id, r]));
+  const fresh = changes.filter((r) => !reports.some((x) => x.id === r.id));
+  return [...fresh, ...reports.map((r) => byId.get(r.id) ?? r)].sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
@@ -0,0 +1,69 @@
+import { DB_NAME, closeDB } from "./storage";
+import { newVaultParams, pinDigest } from "./core/vault";
+import type { DuressSettings, PanicSettings } from "./core/schema";
+
+/**
+ * Panic wipe
+ * - Destroys the reports DB, every `galamsey_*` key and `galamsey*` cache, then verifies nothing is left
+ * - Unregisters the service worker so no background sync reopens storage afterwards
+ * - Optional flush runs first (bounded) so ready reports can still go out when online
+ */
+
+export const STORAGE_PREFIX = "galamsey";
+
+export type { DuressSettings, PanicSettings };
+
+export const DEFAULT_PANIC: PanicSettings = { gesture: false, uploadFirst: false };
+const FLUSH_TIMEOUT_MS = 8000;
+
+export async function makeDuress(pin: string): Promise<DuressSettings> {
+  const params = newVaultParams();
+  return { ...params, digest: await pinDigest(pin, params) };
+}
+export const isDuressPin = async (pin: string, d?: DuressSettings) => !!d && (await pinDigest(pin, d)) === d.digest;
+
+const keysWithPrefix = (store: Storage) =>
+  Array.from({ length: store.length }, (_, i) => store.key(i)!).filter((k) => k.startsWith(STORAGE_PREFIX));
+
+const deleteDB = (name: string) =>
+  new Promise<void>((res, rej) => {
+    const req = indexedDB.deleteDatabase(name);
+    req.onsuccess = () => res();
+    req.onerror = () => rej(req.error);
+    req.onblocked = () => res(); // deletion completes once the last connection closes
+  });
+
+/** Lists whatever app data is still present; an empty list means the wipe is verified. */
+export async function findLeftovers(): Promise<string[]> {
+  const left = [...keysWithPrefix(localStorage), ...keysWithPrefix(sessionStorage)];
+  if (indexedDB.databases) {
+    const dbs = await indexedDB.databases();
+    dbs.forEach((d) => d.name?.startsWith(STORAGE_PREFIX) && left.push(`indexedDB:${d.name}`));
+  }
+  if (typeof caches !== "undefined") {
+    (await caches.keys()).forEach((k) => k.startsWith(STORAGE_PREFIX) && left.push(`cache:${k}`));
+  }
+  return left;
+}
+
+export async function panicWipe(flush?: () => Promise<unknown>) {
+  if (flush) {
+    await Promise.race([flush().catch(() => {}), new Promise((res) => setTimeout(res, FLUSH_TIMEOUT_MS))]);
+  }
+  if ("serviceWorker" in navigator) {
+    try { await Promise.all((await navigator.serviceWorker.getRegistrations()).map((r) => r.unregister())); } catch { /* keep wiping */ }
+  }
+  let left: string[] = [];
+  for (let attempt = 0; attempt < 3; attempt++) {
+    await closeDB();
+    keysWithPrefix(localStorage).forEach((k) => localStorage.removeItem(k));
+    keysWithPrefix(sessionStorage).forEach((k) => sessionStorage.removeItem(k));
+    await deleteDB(DB_NAME).catch(() => {});
+    if (typeof caches !== "undefined") {
+      await Promise.all((await caches.keys()).filter((k) => k.startsWith(STORAGE_PREFIX)).map((k) => caches.delete(k)));
+    }
+    left = await findLeftovers();
+    if (left.length === 0) break;
+  }
+  return { ok: left.length === 0, leftovers: left };
+}
@@ -0,0 +1,48 @@
+import { LANGUAGES, translate, type Lang, type MessageKey } from "./core/i18n";
+import { en } from "./core/locales/en";
+
+/**
+ * Read-aloud prompts
+ * - A recorded clip at `audio/<lang>/<key>.mp3` when one is deployed, else the device's speech voice for the
+ *   language, else the English text with an English voice
+ */
+
+const clipUrl = (lang: Lang, key: MessageKey) => `${import.meta.env.BASE_URL}audio/${lang}/${key}.mp3`;
+
+function playClip(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const audio = new Audio(url);
+    audio.onerror = () => resolve(false);
+    audio.play().then(() => resolve(true), () => resolve(false));
+  });
+}
+
+function voiceFor(tags: string[]) {
+  if (typeof speechSynthesis === "undefined") return null;
+  const voices = speechSynthesis.getVoices();
+  for (const tag of tags) {
+    const v = voices.find((x) => x.lang.toLowerCase() === tag || x.lang.toLowerCase().startsWith(`${tag}-`));
+    if (v) return v;
+  }
+  return null;
+}
+
+function speak(text: string, voice: SpeechSynthesisVoice | null, lang: string) {
+  if (typeof speechSynthesis === "undefined") return false;
+  const u = new SpeechSynthesisUtterance(text);
+  u.lang = voice?.lang || lang;
+  if (voice) u.voice = voice;
+  speechSynthesis.cancel();
+  speechSynthesis.speak(u);
+  return true;
+}
+
+/** Reads a message aloud; resolves to how it was played, or null when the device can't play anything. */
+export async function playPrompt(lang: Lang, key: MessageKey): Promise<"recorded" | "voice" | "english" | null> {
+  if (await playClip(clipUrl(lang, key))) return "recorded";
+  const tags = LANGUAGES.find((l) => l.code === lang)!.speech;
+  const voice = voiceFor(tags);
+  if (voice && speak(translate(lang, key), voice, tags[0])) return "voice";
+  const english = voiceFor(LANGUAGES[0].speech);
+  return speak(en[key], english, "en") ? "english" : null;
+}
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Media, Report } from "./core/types";
+import { publicPoint } from "./core/obfuscate";
+import { deriveKey, newVaultParams, seal, sealJSON, unseal, unsealJSON, type Sealed, type VaultParams } from "./core/vault";
+import { normalizeReport, type Quarantined } from "./core/schema";
+import type { ReportStore } from "./core/store";
+
+/**
+ * IndexedDB storage
+ * - `reports` holds one record per report (media replaced by refs), `media` holds the blobs
+ * - DB_MIGRATIONS upgrade the object stores; REPORT_MIGRATIONS upgrade individual records
+ * - Records written by a newer app version are left untouched instead of being rewritten
+ * - Records that fail validation (schema.ts) on load are moved to the `quarantine` store, as are bad imports
+ *   and sync data; their media stays until the entry is discarded
+ * - With the vault enabled, records and media are sealed with the PIN-derived key (see vault.ts)
+ */
+
+export const DB_NAME = "galamsey";
+const DB_VERSION = 2;
+// v2 was the whole Report[] (with base64 media) under LS_REPORTS; v3 is the first IndexedDB shape.
+export const REPORT_SCHEMA = 4;
+export const LS_REPORTS = "galamsey_reports_v2";
+
+type MediaRef = Omit<Media, "url" | "blob">;
+type StoredReport = Omit<Report, "media"> & { schema: number; media: MediaRef[] };
+type StoredMedia = MediaRef & { reportId: string; blob: Blob };
+// Vault records keep only what's needed to index and version them in the clear.
+type SealedReport = { id: string; schema: number; sealed: Sealed };
+type SealedMedia = { id: string; reportId: string; meta: Sealed; body: Sealed };
+export type QuarantineEntry = Quarantined & { id: string; at: string };
+// With the vault on, the failed record is sealed; source, ref and reason stay readable for the list.
+type StoredQuarantine = Omit<QuarantineEntry, "raw"> & ({ raw: unknown } | { sealed: Sealed });
+
+// ---- Schema migrations ----
+// Keyed by the version they produce; each runs inside the versionchange transaction.
+const DB_MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore("reports", { keyPath: "id" }).createIndex("createdAt", "createdAt");
+    db.createObjectStore("media", { keyPath: "id" }).createIndex("reportId", "reportId");
+    db.createObjectStore("meta", { keyPath: "key" });
+  },
+  2: (db) => {
+    db.createObjectStore("quarantine", { keyPath: "id" });
+  },
+};
+
+// Keyed by the record schema they produce; each receives the previous shape.
+const REPORT_MIGRATIONS: Record<number, (r: any) => any> = {
+  3: (r) => ({
+    ...r,
+    media: (r.media || []).map((m: any) => ({ id: m.id || uuidv4(), type: m.type, name: m.name, locked: !!m.locked })),
+  }),
+  // random ring offsets could be averaged out across repeat reports; snap to the deterministic grid instead
+  4: (r) => (r.gps ? { ...r, publicOffset: publicPoint(r.gps, r.blurRadius) } : r),
+};
+
+export function migrateReport(raw: any): StoredReport {
+  let r = raw;
+  for (let v = (raw.schema ?? 2) + 1; v <= REPORT_SCHEMA; v++) r = { ...REPORT_MIGRATIONS[v](r), schema: v };
+  return r;
+}
+
+// ---- IDB helpers ----
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((res, rej) => { req.onsuccess = () => res(req.result); req.onerror = () => rej(req.error); });
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((res, rej) => { tx.oncomplete = () => res(); tx.onerror = tx.onabort = () => rej(tx.error); });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+export function openDB() {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((res, rej) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) DB_MIGRATIONS[v](req.result, req.transaction!);
+    };
+    req.onsuccess = () => {
+      // let a wipe or a newer tab delete/upgrade the DB instead of blocking on this connection
+      req.result.onversionchange = () => { req.result.close(); dbPromise = null; };
+      res(req.result);
+    };
+    req.onerror = () =>
+      rej(req.error?.name === "VersionError"
+        ? new Error("Reports on this device were saved by a newer version of the app. Please update.")
+        : req.error);
+    req.onblocked = () => rej(new Error("Close other tabs of the app to finish upgrading storage."));
+  }).then(async (db) => { await importLegacy(db); return db; });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+/** Closes the connection so the database can be deleted (panic wipe); the next openDB() reopens it. */
+export async function closeDB() {
+  const p = dbPromise;
+  dbPromise = null;
+  vaultKey = null;
+  if (p) (await p.catch(() => null))?.close();
+}
+
+const toRecord = (r: Report): StoredReport => ({
+  ...r,
+  schema: REPORT_SCHEMA,
+  media: r.media.map(({ url, blob, ...m }) => m),
+});
+
+// ---- Encryption at rest ----
+const VAULT_CHECK = "galamsey-vault";
+let vaultKey: CryptoKey | null = null;
+
+const encodeReport = async (r: StoredReport, key = vaultKey): Promise<StoredReport | SealedReport> =>
+  key ? { id: r.id, schema: r.schema, sealed: await sealJSON(key, r) } : r;
+async function decodeReport(rec: any, key = vaultKey): Promise<any> {
+  if (!rec.sealed) return rec;
+  if (!key) throw new Error("Vault is locked.");
+  return unsealJSON(key, rec.sealed);
+}
+async function encodeMedia(m: StoredMedia, key = vaultKey): Promise<StoredMedia | SealedMedia> {
+  if (!key) return m;
+  const { blob, reportId, ...meta } = m;
+  return {
+    id: m.id,
+    reportId,
+    meta: await sealJSON(key, { ...meta, mime: blob.type }),
+    body: await seal(key, await blob.arrayBuffer()),
+  };
+}
+async function decodeMedia(rec: any, key = vaultKey): Promise<StoredMedia> {
+  if (!rec.body) return rec;
+  if (!key) throw new Error("Vault is locked.");
+  const { mime, ...meta } = await unsealJSON(key, rec.meta);
+  return { ...meta, reportId: rec.reportId, blob: new Blob([await unseal(key, rec.body)], { type: mime }) };
+}
+
+async function encodeQuarantine({ raw, ...e }: QuarantineEntry, key = vaultKey): Promise<StoredQuarantine> {
+  return key ? { ...e, sealed: await sealJSON(key, raw) } : { ...e, raw };
+}
+async function decodeQuarantine(rec: any, key = vaultKey): Promise<QuarantineEntry> {
+  if (!rec.sealed) return rec;
+  if (!key) throw new Error("Vault is locked.");
+  const { sealed, ...e } = rec;
+  return { ...e, raw: await unsealJSON(key, sealed) };
+}
+const toQuarantine = (q: Quarantined): QuarantineEntry => ({ ...q, id: uuidv4(), at: new Date().toISOString() });
+
+function deleteMediaFor(tx: IDBTransaction, reportId: string) {
+  const store = tx.objectStore("media");
+  const cur = store.index("reportId").openKeyCursor(IDBKeyRange.only(reportId));
+  cur.onsuccess = () => {
+    if (!cur.result) return;
+    store.delete(cur.result.primaryKey);
+    cur.result.continue();
+  };
+}
+
+// ---- Legacy localStorage import ----
+async function importLegacy(db: IDBDatabase) {
+  if (typeof localStorage === "undefined") return; // service worker: the page does the import
+  const raw = localStorage.getItem(LS_REPORTS);
+  if (raw === null) return;
+  let legacy: any[];
+  try { legacy = JSON.parse(raw); } catch { legacy = []; }
+  if (!Array.isArray(legacy)) legacy = [];
+
+  // Decode base64 media before opening the transaction; awaiting inside one would let it auto-commit.
+  const blobs: StoredMedia[] = [];
+  const records: StoredReport[] = [];
+  for (const r of legacy) {
+    if (!r?.id) continue;
+    const media: Media[] = [];
+    for (const m of r.media || []) {
+      if (!m?.dataUrl) continue;
+      try {
+        const blob = await (await fetch(m.dataUrl)).blob();
+        const id = uuidv4();
+        blobs.push({ id, reportId: r.id, type: m.type, name: m.name, locked: !!m.locked, blob });
+        media.push({ id, type: m.type, name: m.name, locked: m.locked });
+      } catch { /* unreadable media is dropped, the report is kept */ }
+    }
+    records.push(migrateReport({ ...r, media }));
+  }
+
+  const tx = db.transaction(["reports", "media", "meta"], "readwrite");
+  records.forEach((r) => tx.objectStore("reports").put(r));
+  blobs.forEach((m) => tx.objectStore("media").put(m));
+  tx.objectStore("meta").put({ key: "legacyImport", at: new Date().toISOString(), count: records.length });
+  await done(tx);
+  localStorage.removeItem(LS_REPORTS);
+}
+
+// ---- Public API ----
+export async function loadReports(): Promise<Report[]> {
+  const db = await openDB();
+  const tx = db.transaction(["reports", "media"], "readonly");
+  const [rawRecords, rawMedia] = await Promise.all([
+    request(tx.objectStore("reports").getAll() as IDBRequest<any[]>),
+    request(tx.objectStore("media").getAll() as IDBRequest<any[]>),
+  ]);
+  const records = await Promise.all(rawRecords.filter((rec) => (rec.schema ?? 2) <= REPORT_SCHEMA).map((rec) => decodeReport(rec)));
+  const media = await Promise.all(rawMedia.map((m) => decodeMedia(m)));
+  const blobs = new Map(media.map((m) => [m.id, m.blob]));
+  records.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+
+  const upgraded: StoredReport[] = [];
+  const rejected: QuarantineEntry[] = [];
+  const out: Report[] = [];
+  for (const rec of records) {
+    let r: StoredReport, report: Report;
+    try {
+      // records from a newer app were filtered out above and are never rewritten
+      r = (rec.schema ?? 2) < REPORT_SCHEMA ? migrateReport(rec) : (rec as StoredReport);
+      report = normalizeReport(r);
+    } catch (e: any) {
+      rejected.push(toQuarantine({ source: "storage", ref: String(rec?.id ?? "?"), reason: e?.message || "invalid record", raw: rec }));
+      continue;
+    }
+    if (r !== rec) upgraded.push(r);
+    const { schema, ...rest } = report as Report & { schema?: number };
+    out.push({
+      ...rest,
+      media: rest.media.map((m) => {
+        const blob = blobs.get(m.id);
+        // no object URLs in a service worker
+        return { ...m, blob, url: blob && URL.createObjectURL ? URL.createObjectURL(blob) : undefined };
+      }),
+    });
+  }
+  if (upgraded.length || rejected.length) {
+    const encoded = await Promise.all(upgraded.map((r) => encodeReport(r)));
+    const held = await Promise.all(rejected.map((q) => encodeQuarantine(q)));
+    const wtx = db.transaction(["reports", "quarantine"], "readwrite");
+    encoded.forEach((r) => wtx.objectStore("reports").put(r));
+    rejected.forEach((q) => wtx.objectStore("reports").delete(q.ref));
+    held.forEach((q) => wtx.objectStore("quarantine").put(q));
+    await done(wtx);
+  }
+  return out;
+}
+
+// ---- Quarantine ----
+export async function quarantine(items: Quarantined[]) {
+  if (items.length === 0) return;
+  const db = await openDB();
+  const held = await Promise.all(items.map((q) => encodeQuarantine(toQuarantine(q))));
+  const tx = db.transaction("quarantine", "readwrite");
+  held.forEach((q) => tx.objectStore("quarantine").put(q));
+  await done(tx);
+}
+
+export async function countQuarantined() {
+  const db = await openDB();
+  return request(db.transaction("quarantine").objectStore("quarantine").count());
+}
+
+/** Newest first. */
+export async function listQuarantine(): Promise<QuarantineEntry[]> {
+  const db = await openDB();
+  const recs = await request(db.transaction("quarantine").objectStore("quarantine").getAll() as IDBRequest<any[]>);
+  const entries = await Promise.all(recs.map((q) => decodeQuarantine(q)));
+  return entries.sort((a, b) => (a.at < b.at ? 1 : -1));
+}
+
+/** Deletes entries for good, along with the media of quarantined stored reports that no live report owns. */
+export async function discardQuarantined(ids: string[]) {
+  const db = await openDB();
+  const rtx = db.transaction(["quarantine", "reports"], "readonly");
+  const [entries, live] = await Promise.all([
+    Promise.all(ids.map((id) => request(rtx.objectStore("quarantine").get(id) as IDBRequest<StoredQuarantine | undefined>))),
+    request(rtx.objectStore("reports").getAllKeys()),
+  ]);
+  const tx = db.transaction(["quarantine", "media"], "readwrite");
+  for (const q of entries) {
+    if (!q) continue;
+    tx.objectStore("quarantine").delete(q.id);
+    if (q.source === "storage" && !live.includes(q.ref)) deleteMediaFor(tx, q.ref);
+  }
+  await done(tx);
+}
+
+export async function getMeta<T = any>(key: string): Promise<T | undefined> {
+  const db = await openDB();
+  return (await request(db.transaction("meta").objectStore("meta").get(key)))?.value;
+}
+export async function setMeta(key: string, value: unknown) {
+  const db = await openDB();
+  const tx = db.transaction("meta", "readwrite");
+  tx.objectStore("meta").put({ key, value });
+  await done(tx);
+}
+
+/** Writes only the reports that changed between two snapshots of app state. */
+export async function persistChanges(prev: Report[], next: Report[]) {
+  const db = await openDB();
+  // Capture the key once so a lock mid-write can't mix sealed and plaintext records.
+  const key = vaultKey;
+  if (!key && (await request(db.transaction("meta").objectStore("meta").get("vault")))) throw new Error("Vault is locked.");
+  // Encrypt everything up front: awaiting inside the transaction would let it auto-commit.
+  const puts: (StoredReport | SealedReport)[] = [];
+  const mediaPuts: (StoredMedia | SealedMedia)[] = [];
+  const mediaDeletes: string[] = [];
+  const before = new Map(prev.map((r) => [r.id, r]));
+  for (const r of next) {
+    const old = before.get(r.id);
+    before.delete(r.id);
+    if (old === r) continue;
+    puts.push(await encodeReport(toRecord(r), key));
+    if (old?.media === r.media) continue;
+    const keep = new Set(r.media.map((m) => m.id));
+    old?.media.filter((m) => !keep.has(m.id)).forEach((m) => mediaDeletes.push(m.id));
+    for (const { url, blob, ...m } of r.media) if (blob) mediaPuts.push(await encodeMedia({ ...m, reportId: r.id, blob }, key));
+  }
+
+  const tx = db.transaction(["reports", "media"], "readwrite");
+  puts.forEach((r) => tx.objectStore("reports").put(r));
+  mediaPuts.forEach((m) => tx.objectStore("media").put(m));
+  mediaDeletes.forEach((id) => tx.objectStore("media").delete(id));
+  for (const id of before.keys()) {
+    tx.objectStore("reports").delete(id);
+    deleteMediaFor(tx, id);
+  }
+  await done(tx);
+}
+
+/** This module as a ReportStore (core/store.ts), for code written against the interface. */
+export const idbStore: ReportStore = { load: loadReports, save: persistChanges, quarantine, getMeta, setMeta };
+
+// ---- Vault management ----
+export const isVaultUnlocked = () => !!vaultKey;
+export const lockVault = () => { vaultKey = null; };
+
+async function checkPin(pin: string, params: VaultParams) {
+  const key = await deriveKey(pin, params);
+  const db = await openDB();
+  const meta = await request(db.transaction("meta").objectStore("meta").get("vault"));
+  if (!meta) return null;
+  try { return (await unsealJSON(key, meta.check)) === VAULT_CHECK ? key : null; } catch { return null; }
+}
+
+export const isVaultPin = async (pin: string, params: VaultParams) => !!(await checkPin(pin, params));
+
+export async function unlockVault(pin: string, params: VaultParams) {
+  const key = await checkPin(pin, params);
+  if (key) vaultKey = key;
+  return !!key;
+}
+
+/** Re-encrypts every record and media item from the current key to `to` (null = plaintext) in one transaction. */
+async function rekey(to: CryptoKey | null) {
+  const db = await openDB();
+  const rtx = db.transaction(["reports", "media", "quarantine"], "readonly");
+  const [records, media, quarantined] = await Promise.all([
+    request(rtx.objectStore("reports").getAll() as IDBRequest<any[]>),
+    request(rtx.objectStore("media").getAll() as IDBRequest<any[]>),
+    request(rtx.objectStore("quarantine").getAll() as IDBRequest<any[]>),
+  ]);
+  const reports = await Promise.all(
+    records.filter((rec) => (rec.schema ?? 2) <= REPORT_SCHEMA).map(async (rec) => encodeReport(await decodeReport(rec), to))
+  );
+  const blobs = await Promise.all(media.map(async (m) => encodeMedia(await decodeMedia(m), to)));
+  const held = await Promise.all(quarantined.map(async (q) => encodeQuarantine(await decodeQuarantine(q), to)));
+  const check = to ? await sealJSON(to, VAULT_CHECK) : null;
+
+  const tx = db.transaction(["reports", "media", "quarantine", "meta"], "readwrite");
+  reports.forEach((r) => tx.objectStore("reports").put(r));
+  blobs.forEach((m) => tx.objectStore("media").put(m));
+  held.forEach((q) => tx.objectStore("quarantine").put(q));
+  if (check) tx.objectStore("meta").put({ key: "vault", check });
+  else tx.objectStore("meta").delete("vault");
+  await done(tx);
+  vaultKey = to;
+}
+
+/** Encrypts existing data under a new PIN; the returned params belong in settings. */
+export async function enableVault(pin: string): Promise<VaultParams> {
+  const params = newVaultParams();
+  await rekey(await deriveKey(pin, params));
+  return params;
+}
+
+export async function changeVaultPin(currentPin: string, params: VaultParams, newPin: string): Promise<VaultParams | null> {
+  const current = await checkPin(currentPin, params);
+  if (!current) return null;
+  vaultKey = current;
+  const next = newVaultParams();
+  await rekey(await deriveKey(newPin, next));
+  return next;
+}
+
+export async function disableVault(pin: string, params: VaultParams) {
+  const current = await checkPin(pin, params);
+  if (!current) return false;
+  vaultKey = current;
+  await rekey(null);
+  return true;
+}
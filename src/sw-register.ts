@@ -0,0 +1,37 @@
+import type { SyncEvent } from "./core/sync";
+import type { SafeSettings } from "./core/safe-upload";
+
+// ---- Service worker registration (page side) ----
+export const SHELL_CACHE = "galamsey-shell-v1";
+export const SYNC_TAG = "galamsey-sync";
+const PERIODIC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// The worker can't read localStorage, so the page mirrors what it needs into the IndexedDB meta store.
+export type SyncConfig = { endpoint: string; safe: SafeSettings };
+
+// Background Sync and Periodic Background Sync; not in the DOM typings, since only Chromium ships them.
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+};
+
+export async function registerServiceWorker(onSyncEvents: (events: SyncEvent[]) => void) {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  navigator.serviceWorker.addEventListener("message", (e) => {
+    if (e.data?.type === "sync-events") onSyncEvents(e.data.events);
+  });
+  const reg: SyncRegistration = await navigator.serviceWorker.register("/sw.js", { type: "module" });
+  // Periodic sync is the fallback for browsers that drop one-off syncs; it needs an installed PWA.
+  try {
+    if (reg.periodicSync) await reg.periodicSync.register(SYNC_TAG, { minInterval: PERIODIC_MIN_INTERVAL_MS });
+  } catch { /* not permitted */ }
+}
+
+/** Asks the browser to run the worker's sync as soon as there is connectivity, even if the app is closed. */
+export async function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  try {
+    const reg: SyncRegistration = await navigator.serviceWorker.ready;
+    if (reg.sync) await reg.sync.register(SYNC_TAG);
+  } catch { /* Background Sync unsupported: the page syncs when it is open */ }
+}
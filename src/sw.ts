@@ -0,0 +1,99 @@
+/// <reference lib="webworker" />
+import { idbStore } from "./storage";
+import type { Report } from "./core/types";
+import type { ReportStore } from "./core/store";
+import { applySyncEvents, httpTransport, syncOnce } from "./core/sync";
+import { DEFAULT_SAFE, isSafeToUpload } from "./core/safe-upload";
+import { connectionType } from "./connection";
+import { SHELL_CACHE, SYNC_TAG, type SyncConfig } from "./sw-register";
+
+/**
+ * Service worker
+ * - Precaches the app shell (index.html + the assets it references) for full offline launch
+ * - Background Sync / Periodic Background Sync send Queued reports once they are safe to upload
+ * - Uses the same storage, sync engine and upload-when-safe rules as the page
+ */
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Background Sync and Periodic Background Sync events; not in TypeScript's worker lib yet.
+interface BackgroundSyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+declare global {
+  interface ServiceWorkerGlobalScopeEventMap {
+    sync: BackgroundSyncEvent;
+    periodicsync: BackgroundSyncEvent;
+  }
+}
+
+const CDN_ASSETS = [
+  "https://cdn.tailwindcss.com",
+  "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
+  "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
+  "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+];
+const isCached = (url: URL) => url.origin === self.location.origin || CDN_ASSETS.includes(url.href);
+
+async function precache() {
+  const cache = await caches.open(SHELL_CACHE);
+  const html = await (await fetch("/index.html", { cache: "no-store" })).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/[^"]+)"/g), (m) => m[1]);
+  await cache.addAll(["/", "/index.html", ...assets]);
+  await Promise.all(CDN_ASSETS.map(async (u) => cache.put(u, await fetch(u, { mode: "no-cors" })).catch(() => {})));
+}
+
+self.addEventListener("install", (e) => e.waitUntil(precache().then(() => self.skipWaiting())));
+self.addEventListener("activate", (e) =>
+  e.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("galamsey-shell-") && k !== SHELL_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  )
+);
+
+self.addEventListener("fetch", (e) => {
+  const req = e.request;
+  const url = new URL(req.url);
+  if (req.method !== "GET" || !isCached(url)) return; // sync API calls and map tiles go straight to the network
+  if (req.mode === "navigate") {
+    // network-first so a deployed update shows up, shell from cache when offline
+    e.respondWith(fetch(req).catch(async () => (await caches.match("/index.html"))!));
+    return;
+  }
+  e.respondWith(
+    caches.match(req).then(
+      (hit) =>
+        hit ||
+        fetch(req).then(async (res) => {
+          if (res.ok || res.type === "opaque") (await caches.open(SHELL_CACHE)).put(req, res.clone());
+          return res;
+        })
+    )
+  );
+});
+
+// ---- Background sync ----
+async function backgroundSync(store: ReportStore = idbStore) {
+  const cfg = await store.getMeta<SyncConfig>("syncConfig");
+  if (!cfg?.endpoint) return; // the demo server lives in the page; nothing to send from here
+  let reports: Report[];
+  try { reports = await store.load(); } catch { return; } // vault locked: the key only exists in the page
+  const cursorKey = `syncCursor:${cfg.endpoint}`;
+  const res = await syncOnce(reports, {
+    transport: httpTransport(cfg.endpoint),
+    // no location here: only the time rule (outside quiet hours) or the page's `ready` release; with home Wi-Fi on, only hand releases (no fix to place home)
+    isSafe: (r) => isSafeToUpload(r, { ...DEFAULT_SAFE, ...cfg.safe }, { fixes: [], now: Date.now(), connection: connectionType() }),
+    cursor: (await store.getMeta<string>(cursorKey)) ?? null,
+  });
+  await store.save(reports, applySyncEvents(reports, res.events));
+  await store.quarantine(res.quarantine);
+  await store.setMeta(cursorKey, res.cursor);
+  if (res.events.length) {
+    (await self.clients.matchAll()).forEach((c) => c.postMessage({ type: "sync-events", events: res.events }));
+  }
+  if (res.errors.length) throw new Error("sync incomplete"); // lets the browser retry the one-off sync
+}
+
+self.addEventListener("sync", (e) => e.tag === SYNC_TAG && e.waitUntil(backgroundSync()));
+self.addEventListener("periodicsync", (e) => e.tag === SYNC_TAG && e.waitUntil(backgroundSync().catch(() => {})));
@@ -0,0 +1,147 @@
+import { getMeta, setMeta } from "./storage";
+
+/**
+ * Offline tile packs
+ * - A pack is a bounding box + zoom range downloaded into Cache Storage (`galamsey-tiles-*`, so a panic wipe removes it)
+ * - Pack metadata lives in the IndexedDB meta store under "tilePacks"
+ * - Each cached tile carries its pack's expiry; expired tiles are still shown offline but refreshed live when online
+ */
+
+export const TILE_CACHE = "galamsey-tiles-v1";
+export const TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_ATTRIBUTION = "© OpenStreetMap";
+// Keeps packs within what the OSM tile usage policy tolerates for a single user.
+export const MAX_PACK_TILES = 5000;
+export const PACK_TTL_DAYS = 30;
+const EXPIRES_HEADER = "X-Galamsey-Expires";
+const CONCURRENCY = 4;
+const AVG_TILE_BYTES = 15 * 1024;
+
+export type BBox = { south: number; west: number; north: number; east: number };
+export type TilePackRequest = { name: string; bbox: BBox; minZoom: number; maxZoom: number };
+export type TilePack = TilePackRequest & { id: string; tiles: number; failed: number; bytes: number; createdAt: string; expiresAt: string };
+
+// Rough basin extents; enough to cover the river corridors where most sites are reported.
+export const PRESETS: { name: string; bbox: BBox }[] = [
+  { name: "Ankobra basin", bbox: { south: 4.8, west: -2.45, north: 6.4, east: -1.7 } },
+  { name: "Pra basin", bbox: { south: 5.0, west: -2.0, north: 6.9, east: -0.6 } },
+  { name: "Offin basin", bbox: { south: 5.9, west: -2.1, north: 6.9, east: -1.2 } },
+  { name: "Birim basin", bbox: { south: 5.8, west: -1.2, north: 6.5, east: -0.4 } },
+];
+
+// ---- Tile math (Web Mercator / slippy map) ----
+const lon2x = (lon: number, z: number) => Math.floor(((lon + 180) / 360) * 2 ** z);
+const lat2y = (lat: number, z: number) => {
+  const r = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+};
+
+export function tileRange(b: BBox, z: number) {
+  return { xMin: lon2x(b.west, z), xMax: lon2x(b.east, z), yMin: lat2y(b.north, z), yMax: lat2y(b.south, z) };
+}
+export function countTiles(b: BBox, minZoom: number, maxZoom: number) {
+  let n = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    n += (r.xMax - r.xMin + 1) * (r.yMax - r.yMin + 1);
+  }
+  return n;
+}
+export const estimateBytes = (tiles: number) => tiles * AVG_TILE_BYTES;
+
+function* tilesOf(b: BBox, minZoom: number, maxZoom: number) {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    for (let x = r.xMin; x <= r.xMax; x++) for (let y = r.yMin; y <= r.yMax; y++) yield { z, x, y };
+  }
+}
+export const tileUrl = (z: number, x: number, y: number) =>
+  TILE_URL.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+
+// ---- Packs ----
+export const listPacks = async () => (await getMeta<TilePack[]>("tilePacks")) || [];
+const savePacks = (packs: TilePack[]) => setMeta("tilePacks", packs);
+export const isExpired = (p: TilePack, now = Date.now()) => Date.parse(p.expiresAt) <= now;
+
+/** Downloads (or refreshes, when `id` matches an existing pack) every tile of a pack. */
+export async function downloadPack(
+  req: TilePackRequest & { id?: string },
+  opts: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<TilePack> {
+  const total = countTiles(req.bbox, req.minZoom, req.maxZoom);
+  if (total > MAX_PACK_TILES) throw new Error(`Pack has ${total} tiles; the limit is ${MAX_PACK_TILES}. Reduce the area or zoom.`);
+  // ask the browser not to evict the pack under storage pressure; it may say no
+  await navigator.storage?.persist?.().catch(() => false);
+
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + PACK_TTL_DAYS * 86400000).toISOString();
+  const cache = await caches.open(TILE_CACHE);
+  const queue = tilesOf(req.bbox, req.minZoom, req.maxZoom);
+  let done = 0, failed = 0, bytes = 0;
+
+  const worker = async () => {
+    // workers share one generator, so each tile is fetched once
+    for (const { z, x, y } of { [Symbol.iterator]: () => queue }) {
+      if (opts.signal?.aborted) return;
+      const url = tileUrl(z, x, y);
+      try {
+        const res = await fetch(url, { signal: opts.signal });
+        if (!res.ok) throw new Error(String(res.status));
+        const blob = await res.blob();
+        await cache.put(url, new Response(blob, { headers: { "Content-Type": blob.type || "image/png", [EXPIRES_HEADER]: expiresAt } }));
+        bytes += blob.size;
+      } catch {
+        if (opts.signal?.aborted) return;
+        failed++;
+      }
+      opts.onProgress?.(++done, total);
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  if (opts.signal?.aborted) throw new DOMException("Download cancelled.", "AbortError");
+
+  const pack: TilePack = {
+    ...req,
+    id: req.id || `pack-${createdAt.getTime()}`,
+    tiles: total - failed,
+    failed,
+    bytes,
+    createdAt: createdAt.toISOString(),
+    expiresAt,
+  };
+  const packs = await listPacks();
+  await savePacks([...packs.filter((p) => p.id !== pack.id), pack]);
+  return pack;
+}
+
+/** Removes a pack and the tiles no other pack still covers. */
+export async function deletePack(id: string) {
+  const packs = await listPacks();
+  const pack = packs.find((p) => p.id === id);
+  if (!pack) return;
+  const rest = packs.filter((p) => p.id !== id);
+  const covered = (z: number, x: number, y: number) =>
+    rest.some((p) => {
+      if (z < p.minZoom || z > p.maxZoom) return false;
+      const r = tileRange(p.bbox, z);
+      return x >= r.xMin && x <= r.xMax && y >= r.yMin && y <= r.yMax;
+    });
+  const cache = await caches.open(TILE_CACHE);
+  for (const t of tilesOf(pack.bbox, pack.minZoom, pack.maxZoom)) {
+    if (!covered(t.z, t.x, t.y)) await cache.delete(tileUrl(t.z, t.x, t.y));
+  }
+  await savePacks(rest);
+}
+
+export async function cachedTile(url: string): Promise<{ blob: Blob; expired: boolean } | null> {
+  if (typeof caches === "undefined") return null;
+  const res = await (await caches.open(TILE_CACHE)).match(url);
+  if (!res) return null;
+  const expires = res.headers.get(EXPIRES_HEADER);
+  return { blob: await res.blob(), expired: !!expires && Date.parse(expires) <= Date.now() };
+}
+
+export async function storageUsage(): Promise<{ usage: number; quota: number } | null> {
+  const est = await navigator.storage?.estimate?.().catch(() => null);
+  return est ? { usage: est.usage || 0, quota: est.quota || 0 } : null;
+}